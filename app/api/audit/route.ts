@@ -0,0 +1,39 @@
+import { getRequestUser } from "@/lib/auth"
+import { parseAuditFilter, toAuditCsv } from "@/lib/audit-log"
+import { getAuditLogStore } from "@/lib/audit-log-file"
+import { resolveUserRole } from "@/lib/role-config"
+
+/**
+ * Audit entries matching the query's filters, newest first, as JSON or, with
+ * `format=csv`, as a CSV download. Only roles with `audit` may read them.
+ */
+export async function GET(req: Request) {
+  const user = await getRequestUser(req)
+  if (!user) {
+    return Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 })
+  }
+  const role = resolveUserRole(user)
+  if (!role.audit) {
+    return Response.json(
+      { error: { type: "forbidden", message: `The ${role.name} role cannot read the audit log` } },
+      { status: 403 }
+    )
+  }
+
+  const params = new URL(req.url).searchParams
+  const store = getAuditLogStore()
+  const entries = await store.query(parseAuditFilter(params))
+
+  if (params.get("format") === "csv") {
+    const date = new Date().toISOString().slice(0, 10)
+    return new Response(toAuditCsv(entries), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-${date}.csv"`,
+      },
+    })
+  }
+
+  const intact = store.verify ? await store.verify() : undefined
+  return Response.json({ entries, intact })
+}
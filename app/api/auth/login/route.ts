@@ -0,0 +1,55 @@
+import {
+  AuthConfigurationError,
+  createSessionToken,
+  getAuthProvider,
+  getSessionTtlSeconds,
+  serializeCookie,
+  SESSION_COOKIE,
+  type AuthUser,
+} from "@/lib/auth"
+import { authenticateCredentials } from "@/lib/auth-credentials"
+
+const DEV_USERNAME_PATTERN = /^[a-zA-Z0-9._@-]{1,64}$/
+
+const invalidRequest = (message: string) =>
+  Response.json({ error: { type: "invalid_request", message } }, { status: 400 })
+
+/** Signs in with a username (and password, for the credentials provider). */
+export async function POST(req: Request) {
+  let provider
+  try {
+    provider = getAuthProvider()
+  } catch (error) {
+    if (!(error instanceof AuthConfigurationError)) throw error
+    return Response.json({ error: { type: "auth_misconfigured", message: error.message } }, { status: 503 })
+  }
+
+  const body = (await req.json().catch(() => undefined)) as { username?: unknown; password?: unknown } | undefined
+  const username = typeof body?.username === "string" ? body.username.trim() : ""
+  const password = typeof body?.password === "string" ? body.password : ""
+  if (!username) return invalidRequest("Enter a username")
+
+  let user: AuthUser | undefined
+  if (provider === "credentials") {
+    user = await authenticateCredentials(username, password)
+    if (!user) {
+      return Response.json(
+        { error: { type: "unauthorized", message: "Incorrect username or password" } },
+        { status: 401 }
+      )
+    }
+  } else if (provider === "dev") {
+    if (!DEV_USERNAME_PATTERN.test(username)) {
+      return invalidRequest("Usernames may use letters, digits, dots, dashes, underscores and @")
+    }
+    user = { id: `dev:${username}`, name: username, provider: "dev" }
+  } else {
+    return invalidRequest(`The ${provider} provider does not sign in with a username`)
+  }
+
+  const token = await createSessionToken(user)
+  return Response.json(
+    { user },
+    { headers: { "Set-Cookie": serializeCookie(SESSION_COOKIE, token, getSessionTtlSeconds()) } }
+  )
+}
@@ -0,0 +1,5 @@
+import { serializeCookie, SESSION_COOKIE } from "@/lib/auth"
+
+export async function POST() {
+  return new Response(null, { status: 204, headers: { "Set-Cookie": serializeCookie(SESSION_COOKIE, "", 0) } })
+}
@@ -0,0 +1,33 @@
+import {
+  AuthConfigurationError,
+  createSessionToken,
+  getSafeRedirectPath,
+  getSessionTtlSeconds,
+  readCookie,
+  serializeCookie,
+  SESSION_COOKIE,
+} from "@/lib/auth"
+import { completeAuthorization, getOidcRedirectUri, OIDC_STATE_COOKIE, OidcError } from "@/lib/auth-oidc"
+
+/** Where the issuer sends the browser back after sign-in. */
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const headers = new Headers()
+  headers.append("Set-Cookie", serializeCookie(OIDC_STATE_COOKIE, "", 0))
+
+  try {
+    const { user, next } = await completeAuthorization(
+      url,
+      readCookie(req.headers.get("cookie"), OIDC_STATE_COOKIE),
+      getOidcRedirectUri(req)
+    )
+    headers.append("Set-Cookie", serializeCookie(SESSION_COOKIE, await createSessionToken(user), getSessionTtlSeconds()))
+    headers.set("Location", new URL(getSafeRedirectPath(next), url).toString())
+  } catch (error) {
+    if (!(error instanceof OidcError) && !(error instanceof AuthConfigurationError)) throw error
+    const login = new URL("/login", url)
+    login.searchParams.set("error", error.message)
+    headers.set("Location", login.toString())
+  }
+  return new Response(null, { status: 302, headers })
+}
@@ -0,0 +1,39 @@
+import { AuthConfigurationError, getAuthProvider, getSafeRedirectPath, serializeCookie } from "@/lib/auth"
+import {
+  createAuthorizationRequest,
+  getOidcRedirectUri,
+  OIDC_STATE_COOKIE,
+  OIDC_STATE_TTL_SECONDS,
+  OidcError,
+} from "@/lib/auth-oidc"
+
+/** Starts an OpenID Connect sign-in by redirecting to the issuer. */
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const next = getSafeRedirectPath(url.searchParams.get("next"))
+
+  try {
+    if (getAuthProvider() !== "oidc") {
+      return Response.json(
+        { error: { type: "invalid_request", message: "OpenID Connect sign-in is not enabled" } },
+        { status: 400 }
+      )
+    }
+    const { url: authorizationUrl, stateToken } = await createAuthorizationRequest(getOidcRedirectUri(req), next)
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: authorizationUrl,
+        "Set-Cookie": serializeCookie(OIDC_STATE_COOKIE, stateToken, OIDC_STATE_TTL_SECONDS),
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthConfigurationError) {
+      return Response.json({ error: { type: "auth_misconfigured", message: error.message } }, { status: 503 })
+    }
+    if (error instanceof OidcError) {
+      return Response.json({ error: { type: "upstream_unavailable", message: error.message } }, { status: 502 })
+    }
+    throw error
+  }
+}
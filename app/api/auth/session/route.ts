@@ -0,0 +1,13 @@
+import { AuthConfigurationError, getAuthProvider, getRequestUser, type AuthSession } from "@/lib/auth"
+import { resolveUserRole } from "@/lib/role-config"
+
+export async function GET(req: Request) {
+  try {
+    const user = (await getRequestUser(req)) ?? null
+    const session: AuthSession = { provider: getAuthProvider(), user, role: user ? resolveUserRole(user) : null }
+    return Response.json(session)
+  } catch (error) {
+    if (!(error instanceof AuthConfigurationError)) throw error
+    return Response.json({ error: { type: "auth_misconfigured", message: error.message } }, { status: 503 })
+  }
+}
@@ -1,5 +1,42 @@
 import OpenAI from "openai"
 
+import { getRequestUser } from "@/lib/auth"
+import { AuditRecorder, type AuditAccount } from "@/lib/audit-log"
+import { getAuditLogStore } from "@/lib/audit-log-file"
+import { findApprovalRequest, findForbiddenApproval, recordApprovalRequest } from "@/lib/mcp-approval"
+import {
+  buildMcpTools,
+  loadServerRegistry,
+  restrictMcpTools,
+  selectServers,
+  type McpServerCredential,
+} from "@/lib/mcp-servers"
+import { InvalidGenerationParamError, parseGenerationParams, type GenerationParams } from "@/lib/models"
+import {
+  APPROVAL_REQUEST_NOT_FOUND,
+  PREVIOUS_RESPONSE_NOT_FOUND,
+  STREAM_ID_HEADER,
+  type ChatRequestBody,
+} from "@/lib/chat-request"
+import { toChatErrorEvent, type UpstreamFailure } from "@/lib/chat-errors"
+import { getClientIp, getRateLimiter } from "@/lib/rate-limit"
+import { resolveUserRole } from "@/lib/role-config"
+import {
+  describeStripeAccount,
+  SERVER_KEY_ACCOUNT_NAME,
+  STRIPE_ACCOUNT_HEADER,
+  STRIPE_SERVER_LABEL,
+} from "@/lib/stripe-accounts"
+import { getStripeAccountStore, StripeCredentialsConfigurationError } from "@/lib/stripe-accounts-file"
+import {
+  createEventStreamHeaders,
+  createStreamId,
+  createStreamReader,
+  getStreamEventStore,
+  registerStreamProducer,
+} from "@/lib/resumable-streams"
+import { getStreamRecordingsDir, isStreamRecordingEnabled, StreamRecorder } from "@/lib/stream-recording-file"
+
 const client = new OpenAI({
   apiKey: process.env.GROQ_API_KEY ?? "",
   baseURL: process.env.GROQ_BASE_URL || "https://api.groq.com/openai/v1",
@@ -8,67 +45,231 @@ const client = new OpenAI({
   } : {}
 })
 
+const isUnknownPreviousResponse = (error: unknown): boolean =>
+  error instanceof OpenAI.APIError &&
+  (error.status === 400 || error.status === 404) &&
+  (error.param === "previous_response_id" || /previous[_ ]response/i.test(error.message))
+
+const describeFailure = (error: unknown): UpstreamFailure => {
+  if (error instanceof OpenAI.APIConnectionError) {
+    return { message: "Could not reach the model provider", code: "upstream_unavailable" }
+  }
+  if (error instanceof OpenAI.APIError) {
+    return error
+  }
+  return { message: "Stream error occurred" }
+}
+
 export async function POST(req: Request) {
-  const { messages }: {
-    messages: OpenAI.Responses.ResponseInput
-  } = await req.json()
-
-  // Set up SSE headers
-  const headers = new Headers({
-    "Content-Type": "text/event-stream",
-    "Cache-Control": "no-cache",
-    "Connection": "keep-alive",
-    "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Headers": "Content-Type",
-  })
-
-  const stream = new ReadableStream({
-    async start(controller) {
-      const encoder = new TextEncoder()
-
-      try {
-        const stream = await client.responses.create({
-          model: 'openai/gpt-oss-120b',
-          input: messages,
-          tools: [
-            {
-              type: "mcp",
-              server_label: "stripe",
-              server_url: "https://mcp.stripe.com",
-              headers: {
-                "Authorization": `Bearer ${process.env.STRIPE_SECRET_KEY}`
-              },
-              require_approval: "never"
-            }
-          ],
+  // The middleware already requires a session; this guards the route on its own.
+  const user = await getRequestUser(req)
+  if (!user) {
+    return Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 })
+  }
+  const role = resolveUserRole(user)
+
+  const body: ChatRequestBody | undefined = await req.json().catch(() => undefined)
+  if (typeof body !== "object" || body === null || !Array.isArray(body.messages)) {
+    return Response.json(
+      { error: { type: "invalid_request", message: "Body must be a JSON object with a messages array", param: "messages" } },
+      { status: 400 }
+    )
+  }
+  const { messages: input, servers } = body
+  const previousResponseId =
+    typeof body.previous_response_id === "string" && body.previous_response_id ? body.previous_response_id : undefined
+
+  let generationParams: GenerationParams
+  try {
+    generationParams = parseGenerationParams(body)
+  } catch (error) {
+    if (error instanceof InvalidGenerationParamError) {
+      return Response.json(
+        { error: { type: "invalid_request", message: error.message, param: error.param } },
+        { status: 400 }
+      )
+    }
+    throw error
+  }
+
+  // The model only sees the tools the user's role allows, and an approval
+  // cannot smuggle in a call the role could not have made itself.
+  const forbidden = findForbiddenApproval(input, role)
+  if (forbidden) {
+    return Response.json(
+      {
+        error: {
+          type: "forbidden",
+          message: forbidden.toolName
+            ? `The ${role.name} role cannot approve ${forbidden.toolName}`
+            : `Approval ${forbidden.approvalRequestId} could not be checked against the ${role.name} role; ask again`,
+          param: "messages",
+          // Only a forgotten request is settled by replaying the history.
+          code: forbidden.toolName ? undefined : APPROVAL_REQUEST_NOT_FOUND,
+        },
+      },
+      { status: 403 }
+    )
+  }
+
+  // A saved Stripe account replaces the server's key for this request only.
+  const credentials = new Map<string, McpServerCredential>()
+  let auditAccount: AuditAccount = { name: SERVER_KEY_ACCOUNT_NAME, serverLabel: STRIPE_SERVER_LABEL }
+  if (typeof body.stripe_account === "string" && body.stripe_account) {
+    let saved
+    try {
+      saved = await getStripeAccountStore().getCredential(user.id, body.stripe_account)
+    } catch (error) {
+      if (!(error instanceof StripeCredentialsConfigurationError)) throw error
+      console.error("Stripe credentials are misconfigured:", error.message)
+      return Response.json(
+        { error: { type: "credentials_misconfigured", message: error.message, param: "stripe_account" } },
+        { status: 503 }
+      )
+    }
+    if (!saved) {
+      return Response.json(
+        { error: { type: "invalid_request", message: "Unknown Stripe account", param: "stripe_account" } },
+        { status: 400 }
+      )
+    }
+    const { connectedAccountId } = saved.account
+    credentials.set(STRIPE_SERVER_LABEL, {
+      secret: saved.secretKey,
+      ...(connectedAccountId ? { headers: { [STRIPE_ACCOUNT_HEADER]: connectedAccountId } } : {}),
+    })
+    auditAccount = {
+      id: saved.account.id,
+      name: describeStripeAccount(saved.account),
+      ...(connectedAccountId ? { connectedAccountId } : {}),
+      serverLabel: STRIPE_SERVER_LABEL,
+    }
+  }
+
+  // Checked last, so a request turned away above costs nothing.
+  const limiter = getRateLimiter()
+  const limited = await limiter.check(user.id, getClientIp(req.headers))
+  if (limited) {
+    return Response.json(
+      {
+        error: {
+          type: limited.reason === "daily_tokens" ? "insufficient_quota" : "rate_limit_exceeded",
+          message: limited.message,
+        },
+      },
+      { status: 429, headers: { "Retry-After": String(limited.retryAfter) } }
+    )
+  }
+
+  const tools = restrictMcpTools(
+    buildMcpTools(
+      selectServers(loadServerRegistry(), Array.isArray(servers) ? servers : undefined),
+      process.env,
+      credentials
+    ),
+    role
+  )
+
+  const headers = createEventStreamHeaders()
+
+  const recorder = isStreamRecordingEnabled()
+    ? await StreamRecorder.start(getStreamRecordingsDir(), {
+        model: generationParams.model,
+        ownerId: user.id,
+        request: body,
+      }).catch((error) => {
+        console.error("Could not start stream recording:", error)
+        return undefined
+      })
+    : undefined
+  if (recorder) {
+    headers.set("X-Recording-Id", recorder.id)
+  }
+
+  // Generation runs into the stream buffer rather than this response, so a
+  // client whose connection drops can resume from /api/chat/streams/[id].
+  // It stops on an explicit cancel or when nobody reconnects in time.
+  const streamId = createStreamId()
+  headers.set(STREAM_ID_HEADER, streamId)
+  const store = getStreamEventStore()
+  await store.create(streamId, user.id)
+  const upstreamAbort = new AbortController()
+  const unregister = registerStreamProducer(streamId, upstreamAbort)
+
+  const audit = new AuditRecorder(getAuditLogStore(), user, auditAccount, streamId)
+  audit.recordApprovals(input, (approvalRequestId) => findApprovalRequest(approvalRequestId, input))
+
+  const produce = async () => {
+    let lastSequence = -1
+
+    const send = async (event: OpenAI.Responses.ResponseStreamEvent) => {
+      lastSequence = Math.max(lastSequence, event.sequence_number)
+      if (event.type === "response.output_item.done" && event.item.type === "mcp_approval_request") {
+        recordApprovalRequest(event.item)
+      }
+      audit.record(event)
+      if (
+        (event.type === "response.completed" || event.type === "response.incomplete" || event.type === "response.failed") &&
+        event.response.usage
+      ) {
+        limiter
+          .recordUsage(user.id, event.response.usage.total_tokens)
+          .catch((error) => console.error("Could not record token usage:", error))
+      }
+      recorder?.record(event)
+      await store.append(streamId, { id: event.sequence_number, event })
+    }
+
+    try {
+      const upstream = await client.responses.create(
+        {
+          ...generationParams,
+          input,
+          tools,
+          // Chained turns need the upstream to keep responses around
+          ...(previousResponseId ? { previous_response_id: previousResponseId, store: true } : {}),
+          ...(body.store === true ? { store: true } : {}),
           stream: true
-        })
+        },
+        { signal: upstreamAbort.signal }
+      )
 
-        for await (const event of stream) {
-          const eventData = `data: ${JSON.stringify(event)}\n\n`
-          controller.enqueue(encoder.encode(eventData))
-        }
-      } catch (error) {
-        console.error("Stream error:", error)
-        const errorEvent = {
-          type: "error",
-          message: "Stream error occurred",
-          code: "stream_error",
-          param: "stream_error",
-          sequence_number: 0,
-        } satisfies OpenAI.Responses.ResponseErrorEvent
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorEvent)}\n\n`))
-      } finally {
-        controller.close()
+      for await (const event of upstream) {
+        await send(event)
       }
-    },
-    cancel() {
-      if (stream) {
-        console.debug("upstream aborted by client")
-        stream?.cancel()
+      recorder?.finish(upstreamAbort.signal.aborted ? "aborted" : "completed")
+    } catch (error) {
+      if (upstreamAbort.signal.aborted) {
+        recorder?.finish("aborted")
+        // A cancelling client marks its own session cancelled, and an
+        // abandoned stream has no one left to tell.
+        return
       }
+      console.error("Stream error:", error)
+      // Errors raised here continue the upstream's numbering so resumed
+      // readers neither miss nor repeat them.
+      if (previousResponseId && isUnknownPreviousResponse(error)) {
+        await send({
+          type: "error",
+          message: `Previous response ${previousResponseId} is not available upstream`,
+          code: PREVIOUS_RESPONSE_NOT_FOUND,
+          param: "previous_response_id",
+          sequence_number: lastSequence + 1,
+        })
+        return
+      }
+      await send(toChatErrorEvent(describeFailure(error), lastSequence + 1))
+    } finally {
+      // Completed and aborted streams were closed above; anything left failed.
+      recorder?.finish("error")
+      unregister()
+      await store.finish(streamId)
     }
-  })
+  }
+
+  // Register the reader before generation starts so the grace timer sees it.
+  const stream = createStreamReader(streamId, -1, { signal: req.signal })
+  void produce().catch(error => console.error("Stream buffer error:", error))
 
   return new Response(stream, { headers })
 }
@@ -0,0 +1,53 @@
+import {
+  cancelStreamProducer,
+  createEventStreamHeaders,
+  createStreamReader,
+  getStreamEventStore,
+  isStreamId,
+  parseLastEventId,
+} from "@/lib/resumable-streams"
+import { STREAM_ID_HEADER } from "@/lib/chat-request"
+import { getRequestUser } from "@/lib/auth"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const invalidId = () =>
+  Response.json({ error: { type: "invalid_request", message: "Invalid stream id" } }, { status: 400 })
+
+const unauthorized = () =>
+  Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 })
+
+const notFound = () =>
+  Response.json({ error: { type: "not_found", message: "Stream not found or expired" } }, { status: 404 })
+
+// Another user's stream looks the same as one that never existed.
+const isOwnStream = async (id: string, userId: string) => (await getStreamEventStore().getOwner(id)) === userId
+
+/** Resumes a buffered chat stream after the event named by `Last-Event-ID`. */
+export async function GET(req: Request, { params }: RouteContext) {
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+  const { id } = await params
+  if (!isStreamId(id)) return invalidId()
+  if (!(await isOwnStream(id, user.id))) return notFound()
+
+  const lastEventId = parseLastEventId(req.headers.get("Last-Event-ID"))
+  if (!(await getStreamEventStore().read(id, lastEventId))) return notFound()
+
+  const headers = createEventStreamHeaders()
+  headers.set(STREAM_ID_HEADER, id)
+  return new Response(createStreamReader(id, lastEventId, { signal: req.signal }), { headers })
+}
+
+/** Stops the generation behind a stream, e.g. when the user presses Stop. */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+  const { id } = await params
+  if (!isStreamId(id)) return invalidId()
+  if (!(await isOwnStream(id, user.id))) return notFound()
+
+  return cancelStreamProducer(id) ? new Response(null, { status: 204 }) : notFound()
+}
@@ -0,0 +1,5 @@
+import { getAppConfig } from "@/lib/app-config"
+
+export async function GET() {
+  return Response.json(getAppConfig())
+}
@@ -0,0 +1,82 @@
+import { getRequestUser } from "@/lib/auth"
+import {
+  assertConversationId,
+  InvalidConversationError,
+  isConversationOwner,
+  parseStoredConversation,
+  type StoredConversation,
+} from "@/lib/conversation-storage"
+import { getServerConversationStorage } from "@/lib/conversation-storage-file"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const resolveId = async ({ params }: RouteContext): Promise<string | undefined> => {
+  const { id } = await params
+  try {
+    assertConversationId(id)
+    return id
+  } catch {
+    return undefined
+  }
+}
+
+const invalidId = () =>
+  Response.json({ error: { type: "invalid_request", message: "Invalid conversation id" } }, { status: 400 })
+
+const unauthorized = () =>
+  Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 })
+
+// Other users' conversations are reported as missing rather than forbidden.
+const notFound = () =>
+  Response.json({ error: { type: "not_found", message: "Conversation not found" } }, { status: 404 })
+
+export async function GET(req: Request, context: RouteContext) {
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+  const id = await resolveId(context)
+  if (!id) return invalidId()
+
+  const conversation = await getServerConversationStorage().load(id)
+  if (!conversation || !isConversationOwner(conversation, user.id)) return notFound()
+  return Response.json(conversation)
+}
+
+export async function PUT(req: Request, context: RouteContext) {
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+  const id = await resolveId(context)
+  if (!id) return invalidId()
+
+  let conversation: StoredConversation
+  try {
+    conversation = parseStoredConversation(await req.json().catch(() => undefined), id)
+  } catch (error) {
+    if (!(error instanceof InvalidConversationError)) throw error
+    return Response.json(
+      { error: { type: "invalid_request", message: error.message, param: error.param } },
+      { status: 400 }
+    )
+  }
+
+  const storage = getServerConversationStorage()
+  const existing = await storage.load(id)
+  if (existing && !isConversationOwner(existing, user.id)) return notFound()
+
+  await storage.save({ ...conversation, ownerId: user.id })
+  return new Response(null, { status: 204 })
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+  const id = await resolveId(context)
+  if (!id) return invalidId()
+
+  const storage = getServerConversationStorage()
+  const existing = await storage.load(id)
+  if (existing && !isConversationOwner(existing, user.id)) return notFound()
+  await storage.remove(id)
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,15 @@
+import { getRequestUser } from "@/lib/auth"
+import { isConversationOwner } from "@/lib/conversation-storage"
+import { getServerConversationStorage } from "@/lib/conversation-storage-file"
+
+export async function GET(req: Request) {
+  const user = await getRequestUser(req)
+  if (!user) {
+    return Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 })
+  }
+
+  const conversations = (await getServerConversationStorage().list()).filter((conversation) =>
+    isConversationOwner(conversation, user.id)
+  )
+  return Response.json({ conversations })
+}
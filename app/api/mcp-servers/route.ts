@@ -0,0 +1,5 @@
+import { loadServerRegistry, toServerInfo } from "@/lib/mcp-servers"
+
+export async function GET() {
+  return Response.json({ servers: loadServerRegistry().map(server => toServerInfo(server)) })
+}
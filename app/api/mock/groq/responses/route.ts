@@ -0,0 +1,91 @@
+import type { ResponseCreateParams, ResponseStreamEvent } from "openai/resources/responses/responses"
+
+import {
+  buildMockResponseEvents,
+  isMockServerEnabled,
+  loadMockScenarios,
+  selectMockScenario,
+} from "@/lib/mock-responses"
+import { encodeServerSentEvent } from "@/lib/sse"
+
+// Point GROQ_BASE_URL at /api/mock/groq to use this instead of Groq.
+
+const storedResponseIds = new Set<string>()
+let responseCount = 0
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+
+const apiError = (status: number, message: string, code: string, param: string | null = null) =>
+  Response.json({ error: { message, type: "invalid_request_error", code, param } }, { status })
+
+export async function POST(req: Request) {
+  if (!isMockServerEnabled()) {
+    return new Response("Not found", { status: 404 })
+  }
+
+  const params = (await req.json()) as ResponseCreateParams
+  const previousResponseId = params.previous_response_id ?? undefined
+  if (previousResponseId && !storedResponseIds.has(previousResponseId)) {
+    return apiError(
+      404,
+      `Previous response with id '${previousResponseId}' not found.`,
+      "previous_response_not_found",
+      "previous_response_id"
+    )
+  }
+
+  const { scenario, steps } = selectMockScenario(loadMockScenarios(), params)
+  if (scenario.httpError) {
+    return apiError(scenario.httpError.status, scenario.httpError.message, scenario.httpError.code ?? "mock_error")
+  }
+
+  responseCount += 1
+  const events = buildMockResponseEvents(steps, {
+    responseIndex: responseCount,
+    scenarioName: scenario.name,
+    model: params.model ?? "mock",
+    previousResponseId,
+    createdAt: Math.floor(Date.now() / 1000),
+  })
+  storedResponseIds.add(`resp_mock_${responseCount}`)
+
+  if (!params.stream) {
+    const final = events.findLast(event => "response" in event) as Extract<ResponseStreamEvent, { response: unknown }>
+    return Response.json(final.response)
+  }
+
+  const delayMs = scenario.delayMs ?? Number(process.env.MOCK_GROQ_DELAY_MS ?? 20)
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        for (const event of events) {
+          if (req.signal.aborted) break
+          controller.enqueue(
+            encoder.encode(
+              encodeServerSentEvent({ event: event.type, id: event.sequence_number, data: JSON.stringify(event) })
+            )
+          )
+          if (delayMs > 0) await sleep(delayMs, req.signal)
+        }
+        controller.close()
+      } catch {
+        // The client cancelled; the stream is already closed.
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  })
+}
@@ -0,0 +1,66 @@
+import {
+  handleMockStripeMcpMessage,
+  jsonRpcError,
+  JSON_RPC_INVALID_REQUEST,
+  JSON_RPC_PARSE_ERROR,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from "@/lib/mock-stripe"
+import { isMockServerEnabled } from "@/lib/mock-responses"
+
+// Streamable HTTP MCP endpoint. Set STRIPE_MCP_URL to this route's URL to
+// use it in place of https://mcp.stripe.com.
+
+const isJsonRpcRequest = (value: unknown): value is JsonRpcRequest =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as { jsonrpc?: unknown }).jsonrpc === "2.0" &&
+  typeof (value as { method?: unknown }).method === "string"
+
+export async function POST(req: Request) {
+  if (!isMockServerEnabled()) {
+    return new Response("Not found", { status: 404 })
+  }
+
+  let payload: unknown
+  try {
+    payload = await req.json()
+  } catch {
+    return Response.json(jsonRpcError(null, JSON_RPC_PARSE_ERROR, "Parse error"), { status: 400 })
+  }
+
+  const batch = Array.isArray(payload)
+  const messages = batch ? (payload as unknown[]) : [payload]
+  const responses: JsonRpcResponse[] = []
+  let initialized = false
+
+  for (const message of messages) {
+    if (!isJsonRpcRequest(message)) {
+      responses.push(jsonRpcError(null, JSON_RPC_INVALID_REQUEST, "Invalid Request"))
+      continue
+    }
+    if (message.method === "initialize") initialized = true
+    const response = handleMockStripeMcpMessage(message)
+    if (response) responses.push(response)
+  }
+
+  // Notifications and client responses are acknowledged without a body.
+  if (responses.length === 0) {
+    return new Response(null, { status: 202 })
+  }
+
+  const headers = new Headers({ "Content-Type": "application/json" })
+  if (initialized) {
+    headers.set("Mcp-Session-Id", crypto.randomUUID())
+  }
+  return new Response(JSON.stringify(batch ? responses : responses[0]), { headers })
+}
+
+export async function GET() {
+  // This server never initiates messages, so it offers no SSE stream.
+  return new Response("Method not allowed", { status: 405, headers: { Allow: "POST, DELETE" } })
+}
+
+export async function DELETE() {
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,34 @@
+import { getRequestUser } from "@/lib/auth"
+import { isStreamRecordingId } from "@/lib/stream-recording"
+import { isStreamRecordingEnabled, readStreamRecording } from "@/lib/stream-recording-file"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(req: Request, { params }: RouteContext) {
+  if (!isStreamRecordingEnabled()) {
+    return new Response("Not found", { status: 404 })
+  }
+  const user = await getRequestUser(req)
+  if (!user) {
+    return Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 })
+  }
+
+  const { id } = await params
+  if (!isStreamRecordingId(id)) {
+    return Response.json({ error: { type: "invalid_request", message: "Invalid recording id" } }, { status: 400 })
+  }
+
+  // Other users' recordings are reported as missing rather than forbidden.
+  const recording = await readStreamRecording(id, user.id)
+  if (recording === undefined) {
+    return Response.json({ error: { type: "not_found", message: "Recording not found" } }, { status: 404 })
+  }
+  return new Response(recording, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Content-Disposition": `attachment; filename="${id}.ndjson"`,
+    },
+  })
+}
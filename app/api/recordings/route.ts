@@ -0,0 +1,14 @@
+import { getRequestUser } from "@/lib/auth"
+import { isStreamRecordingEnabled, listStreamRecordings } from "@/lib/stream-recording-file"
+
+export async function GET(req: Request) {
+  if (!isStreamRecordingEnabled()) {
+    return new Response("Not found", { status: 404 })
+  }
+  const user = await getRequestUser(req)
+  if (!user) {
+    return Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 })
+  }
+  const recordings = await listStreamRecordings(user.id)
+  return Response.json({ recordings })
+}
@@ -0,0 +1,19 @@
+import { getRequestUser } from "@/lib/auth"
+import { getStripeAccountStore } from "@/lib/stripe-accounts-file"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const user = await getRequestUser(req)
+  if (!user) {
+    return Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 })
+  }
+
+  const { id } = await params
+  if (!(await getStripeAccountStore().remove(user.id, id))) {
+    return Response.json({ error: { type: "not_found", message: "Stripe account not found" } }, { status: 404 })
+  }
+  return new Response(null, { status: 204 })
+}
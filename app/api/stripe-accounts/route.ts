@@ -0,0 +1,41 @@
+import { getRequestUser } from "@/lib/auth"
+import { InvalidStripeAccountError, parseNewStripeAccount } from "@/lib/stripe-accounts"
+import { getStripeAccountStore, StripeCredentialsConfigurationError } from "@/lib/stripe-accounts-file"
+
+const unauthorized = () =>
+  Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 })
+
+/** The signed-in user's saved accounts, without their keys. */
+export async function GET(req: Request) {
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  return Response.json({ accounts: await getStripeAccountStore().list(user.id) })
+}
+
+/** Saves an account; the key is encrypted before it is written. */
+export async function POST(req: Request) {
+  const user = await getRequestUser(req)
+  if (!user) return unauthorized()
+
+  try {
+    const input = parseNewStripeAccount(await req.json().catch(() => undefined))
+    const account = await getStripeAccountStore().add(user.id, input)
+    return Response.json({ account }, { status: 201 })
+  } catch (error) {
+    if (error instanceof InvalidStripeAccountError) {
+      return Response.json(
+        { error: { type: "invalid_request", message: error.message, param: error.param } },
+        { status: 400 }
+      )
+    }
+    if (error instanceof StripeCredentialsConfigurationError) {
+      console.error("Stripe credentials are misconfigured:", error.message)
+      return Response.json(
+        { error: { type: "credentials_misconfigured", message: "Saving Stripe keys is not configured on this server" } },
+        { status: 503 }
+      )
+    }
+    throw error
+  }
+}
@@ -0,0 +1,9 @@
+import { AuditLogViewer } from "@/components/audit-log-viewer"
+
+export default function AuditPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <AuditLogViewer />
+    </div>
+  )
+}
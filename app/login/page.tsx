@@ -0,0 +1,28 @@
+import { redirect } from "next/navigation"
+import { LoginForm } from "@/components/login-form"
+import { AuthConfigurationError, getAuthProvider, getSafeRedirectPath, type AuthProviderName } from "@/lib/auth"
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams
+  const redirectTo = getSafeRedirectPath(next)
+
+  let provider: AuthProviderName | undefined
+  let configurationError: string | undefined
+  try {
+    provider = getAuthProvider()
+  } catch (error_) {
+    if (!(error_ instanceof AuthConfigurationError)) throw error_
+    configurationError = error_.message
+  }
+  if (provider === "none") redirect(redirectTo)
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <LoginForm provider={provider} next={redirectTo} error={configurationError ?? error} />
+    </div>
+  )
+}
@@ -2,8 +2,8 @@ import ChatInterface from "@/components/chat-interface"
 
 export default function Home() {
   return (
-    <main className="min-h-screen bg-background">
+    <div className="min-h-screen bg-background">
       <ChatInterface />
-    </main>
+    </div>
   )
 }
@@ -0,0 +1,10 @@
+import { ReplayViewer } from "@/components/replay-viewer"
+
+export default async function ReplayPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return (
+    <div className="min-h-screen bg-background">
+      <ReplayViewer recordingId={id} />
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type React from "react"
+import Link from "next/link"
+import { AlertTriangle, ArrowLeft, Download, Filter, ShieldAlert, ShieldCheck } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { AuditEntry, AuditOutcome } from "@/lib/audit-log"
+
+const ACTION_OPTIONS = [
+  { value: "all", label: "All actions" },
+  { value: "mcp_call", label: "Tool calls" },
+  { value: "approval_request", label: "Approval requests" },
+  { value: "approval_response", label: "Approvals" },
+]
+
+const ACTION_LABELS: Record<AuditEntry["action"], string> = {
+  mcp_call: "Call",
+  approval_request: "Approval requested",
+  approval_response: "Approval",
+}
+
+const OUTCOME_VARIANTS: Record<AuditOutcome, "default" | "secondary" | "destructive" | "outline"> = {
+  requested: "outline",
+  approved: "default",
+  denied: "destructive",
+  completed: "secondary",
+  failed: "destructive",
+}
+
+const TEXT_FILTERS = [
+  { name: "user", placeholder: "User id" },
+  { name: "tool", placeholder: "Tool" },
+  { name: "account", placeholder: "Account" },
+]
+
+function EntryDetails({ entry }: { entry: AuditEntry }) {
+  const sections = [
+    { label: "Arguments", value: entry.arguments },
+    { label: "Output", value: entry.output },
+    { label: "Error", value: entry.error },
+  ].filter(section => section.value)
+
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer text-muted-foreground">Details</summary>
+      <div className="mt-2 space-y-2 max-w-md">
+        {sections.map(section => (
+          <div key={section.label}>
+            <div className="font-medium">{section.label}</div>
+            <pre className="bg-muted p-2 rounded whitespace-pre-wrap break-all">{section.value}</pre>
+          </div>
+        ))}
+        <div className="text-muted-foreground break-all">
+          {entry.approvalRequestId && <div>Approval request: {entry.approvalRequestId}</div>}
+          {entry.responseId && <div>Response: {entry.responseId}</div>}
+          {entry.streamId && <div>Stream: {entry.streamId}</div>}
+          <div>Entry: {entry.id}</div>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+/** Filterable audit log with CSV export, for roles allowed to read it. */
+export function AuditLogViewer() {
+  const [query, setQuery] = useState("")
+  const [action, setAction] = useState("all")
+  const [entries, setEntries] = useState<AuditEntry[]>()
+  const [intact, setIntact] = useState<boolean>()
+  const [loadError, setLoadError] = useState<string>()
+
+  useEffect(() => {
+    let cancelled = false
+    setLoadError(undefined)
+
+    fetch(`/api/audit?${query}`)
+      .then(async response => {
+        if (!response.ok) {
+          const body = (await response.json().catch(() => undefined)) as { error?: { message?: string } } | undefined
+          throw new Error(body?.error?.message ?? `Could not load the audit log (${response.status})`)
+        }
+        return response.json() as Promise<{ entries: AuditEntry[]; intact?: boolean }>
+      })
+      .then(result => {
+        if (cancelled) return
+        setEntries(result.entries)
+        setIntact(result.intact)
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setLoadError(error.message)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [query])
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const params = new URLSearchParams()
+    new FormData(event.currentTarget).forEach((value, name) => {
+      if (typeof value === "string" && value.trim()) params.set(name, value.trim())
+    })
+    if (action !== "all") params.set("action", action)
+    setQuery(params.toString())
+  }
+
+  const csvUrl = `/api/audit?${query ? `${query}&` : ""}format=csv`
+
+  return (
+    <div className="flex flex-col w-full max-w-6xl mx-auto p-4 gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-border pb-4">
+        <div className="space-y-1">
+          <Link href="/" className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1">
+            <ArrowLeft className="w-3 h-3" />
+            Back to chat
+          </Link>
+          <h1 className="font-semibold">Audit log</h1>
+          {intact !== undefined && (
+            <div className={`flex items-center gap-1 text-xs ${intact ? "text-muted-foreground" : "text-red-600"}`}>
+              {intact ? <ShieldCheck className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+              {intact ? "Hash chain verified" : "The log has been altered: its hash chain is broken"}
+            </div>
+          )}
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <a href={csvUrl} download>
+            <Download className="w-3 h-3" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2">
+        {TEXT_FILTERS.map(filter => (
+          <Input
+            key={filter.name}
+            name={filter.name}
+            placeholder={filter.placeholder}
+            aria-label={filter.placeholder}
+            className="w-40"
+          />
+        ))}
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger size="sm" className="w-44" aria-label="Action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ACTION_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="text-xs text-muted-foreground flex flex-col gap-1">
+          From
+          <Input type="date" name="from" className="w-40" />
+        </label>
+        <label className="text-xs text-muted-foreground flex flex-col gap-1">
+          To
+          <Input type="date" name="to" className="w-40" />
+        </label>
+        <Button type="submit" size="sm">
+          <Filter className="w-3 h-3" />
+          Apply
+        </Button>
+      </form>
+
+      {loadError && (
+        <div className="border border-red-200 bg-red-50 text-red-700 rounded-lg p-4 text-sm flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-1" />
+          <div>{loadError}</div>
+        </div>
+      )}
+
+      {entries && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Tool</TableHead>
+              <TableHead>Account</TableHead>
+              <TableHead>Approver</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(entry => (
+              <TableRow key={entry.id} className="align-top">
+                <TableCell className="whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                <TableCell>
+                  <div>{entry.userName}</div>
+                  <div className="text-xs text-muted-foreground">{entry.userId}</div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {ACTION_LABELS[entry.action]}
+                    <Badge variant={OUTCOME_VARIANTS[entry.outcome]}>{entry.outcome}</Badge>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div>{entry.tool || "Unknown tool"}</div>
+                  <div className="text-xs text-muted-foreground">{entry.serverLabel}</div>
+                </TableCell>
+                <TableCell>{entry.accountName ?? ""}</TableCell>
+                <TableCell className="text-xs">{entry.approverId ?? ""}</TableCell>
+                <TableCell>
+                  <EntryDetails entry={entry} />
+                </TableCell>
+              </TableRow>
+            ))}
+            {entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No entries match these filters.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Clock, KeyRound, LogIn, PlugZap, RotateCcw, Scissors, ServerCrash, ShieldOff, WifiOff, Wrench } from "lucide-react"
+import type { ResponseErrorEvent } from "openai/resources/responses/responses"
+import { getChatErrorInfo, type ChatErrorCategory } from "@/lib/chat-errors"
+
+interface ChatErrorDisplayProps {
+  error: ResponseErrorEvent
+  /** Shows a Retry button that resends the failed turn. */
+  onRetry?: () => void
+}
+
+const CATEGORY_COPY: Record<ChatErrorCategory, { title: string; guidance: string; icon: typeof AlertTriangle }> = {
+  auth: {
+    title: "Groq rejected the API key",
+    guidance: "Check that GROQ_API_KEY on the server is set and still valid.",
+    icon: KeyRound,
+  },
+  signed_out: {
+    title: "You are signed out",
+    guidance: "Your session has ended. Reload the page to sign in again.",
+    icon: LogIn,
+  },
+  forbidden: {
+    title: "Your role does not allow this",
+    guidance: "Deny the request instead, or ask an administrator to run it or grant your role the tool.",
+    icon: ShieldOff,
+  },
+  rate_limit: {
+    title: "Rate limit reached",
+    guidance: "Requests are being throttled, either by Groq for this key or by this app's per-user limits. Wait before retrying.",
+    icon: Clock,
+  },
+  upstream_unavailable: {
+    title: "The model service is unavailable",
+    guidance: "Groq did not respond or returned a server error. Retrying usually works.",
+    icon: ServerCrash,
+  },
+  mcp_auth: {
+    title: "An MCP server rejected its credentials",
+    guidance: "Check the Stripe account selected in the header, STRIPE_SECRET_KEY, or the credential configured for the server in config/mcp-servers.json.",
+    icon: PlugZap,
+  },
+  mcp_tool_error: {
+    title: "A tool call failed",
+    guidance: "The MCP server returned an error for one of its tools. Rephrase the request or check the arguments.",
+    icon: Wrench,
+  },
+  context_length: {
+    title: "The conversation is too long",
+    guidance: "Start a new chat, or choose a model with a larger context window in the settings.",
+    icon: Scissors,
+  },
+  invalid_request: {
+    title: "The request was rejected",
+    guidance: "One of the generation settings is not accepted by this model. Adjust or reset them and try again.",
+    icon: AlertTriangle,
+  },
+  network: {
+    title: "Connection lost",
+    guidance: "The chat server could not be reached. Check your connection and retry.",
+    icon: WifiOff,
+  },
+  unknown: {
+    title: "Streaming error",
+    guidance: "Something went wrong while generating the response.",
+    icon: AlertTriangle,
+  },
+}
+
+/** Seconds left until `retryAfter` seconds from when the error arrived. */
+const useCountdown = (retryAfter: number | undefined, error: ResponseErrorEvent) => {
+  const [remaining, setRemaining] = useState(retryAfter ?? 0)
+
+  useEffect(() => {
+    if (!retryAfter) {
+      setRemaining(0)
+      return
+    }
+    const until = Date.now() + retryAfter * 1000
+    const tick = () => setRemaining(Math.max(0, Math.ceil((until - Date.now()) / 1000)))
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [retryAfter, error])
+
+  return remaining
+}
+
+/** `42s`, `3m 5s` or `2h 14m`; daily budgets can be hours away. */
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+export function ChatErrorDisplay({ error, onRetry }: ChatErrorDisplayProps) {
+  const info = getChatErrorInfo(error)
+  const copy = CATEGORY_COPY[info.category]
+  const Icon = copy.icon
+  const remaining = useCountdown(info.retryAfter, error)
+
+  return (
+    <div
+      role="alert"
+      className="border border-red-200 bg-red-50 text-red-700 rounded-lg p-4 text-sm flex items-start gap-2"
+    >
+      <Icon className="w-4 h-4 mt-1 shrink-0" />
+      <div className="flex-1 space-y-1">
+        <div className="font-semibold">{copy.title}</div>
+        <div>{info.message}</div>
+        <div className="text-red-600/80">
+          {copy.guidance}
+          {remaining > 0 && ` You can retry in ${formatWait(remaining)}.`}
+        </div>
+      </div>
+      {onRetry && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onRetry}
+          disabled={remaining > 0}
+          className="border-red-200 text-red-700 hover:bg-red-100 shrink-0"
+        >
+          <RotateCcw className="w-3 h-3" />
+          {remaining > 0 ? `Retry in ${formatWait(remaining)}` : "Retry"}
+        </Button>
+      )}
+    </div>
+  )
+}
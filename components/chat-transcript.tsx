@@ -0,0 +1,391 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { MessageBubble } from "@/components/ui/message-bubble"
+import { TypingIndicator } from "@/components/ui/typing-indicator"
+import { AssistantMessage } from "@/components/ui/assistant-message"
+import { ReasoningDisplay } from "@/components/reasoning-display"
+import { ToolCallDisplay } from "@/components/tool-call-display"
+import { MCPCallDisplay } from "@/components/mcp-call-display"
+import { MCPListToolsDisplay } from "@/components/mcp-list-tools-display"
+import { ChatErrorDisplay } from "@/components/chat-error-display"
+import { EditMessageForm } from "@/components/edit-message-form"
+import { AlertTriangle, Check, ChevronLeft, ChevronRight, Copy, Pencil, RefreshCw } from "lucide-react"
+import { type ResponseOutputItem } from "openai/resources/responses/responses"
+import type { BranchPointInfo } from "@/lib/conversation-branches"
+import type { ChatViewMessage } from "@/lib/message-mapping"
+import type { UserRole } from "@/lib/roles"
+import { STRIPE_ACCOUNT_NAME_METADATA, STRIPE_SERVER_LABEL } from "@/lib/stripe-accounts"
+import type { UseResponsesResult } from "@/hooks/use-responses"
+import { MCPApprovalRequestDisplay } from "./mcp-approval-request-display"
+
+interface RenderOutputOptions {
+  onMcpApprovalDecision?: (
+    approvalRequest: ResponseOutputItem.McpApprovalRequest,
+    approve: boolean,
+  ) => Promise<void> | void
+  disableApprovalActions?: boolean
+  approvalResponses?: Map<string, boolean>
+  serverNames?: Map<string, string>
+  liveMode?: boolean
+  role?: UserRole
+}
+
+const renderOutputComponent = (message: ChatViewMessage, options: RenderOutputOptions = {}) => {
+  const output = message.item as ResponseOutputItem
+  const {
+    onMcpApprovalDecision,
+    disableApprovalActions,
+    approvalResponses,
+    serverNames,
+    liveMode,
+    role,
+  } = options
+
+  switch (output.type) {
+    case "message": {
+      if (!message.text) return null
+      return (
+        <MessageBubble
+          key={`assistant-${output.id}`}
+          role="assistant"
+          content={message.text}
+          isStreaming={message.isStreaming}
+        />
+      )
+    }
+    case "reasoning":
+      return <ReasoningDisplay key={`reasoning-${output.id}`} reasoning={output} />
+    case "function_call":
+      return <ToolCallDisplay key={`tool-${output.id ?? message.key}`} toolCall={output} />
+    case "mcp_call":
+      return (
+        <MCPCallDisplay
+          key={`mcp-${output.id}`}
+          mcpCall={output}
+          serverName={serverNames?.get(output.server_label)}
+          accountName={
+            output.server_label === STRIPE_SERVER_LABEL
+              ? message.requestMetadata?.[STRIPE_ACCOUNT_NAME_METADATA]
+              : undefined
+          }
+        />
+      )
+    case "mcp_list_tools":
+      return (
+        <MCPListToolsDisplay
+          key={`mcp-tools-${output.id}`}
+          item={output}
+          serverName={serverNames?.get(output.server_label)}
+        />
+      )
+    case "mcp_approval_request":
+      const approvalStatus = approvalResponses?.get(output.id)
+
+      if (!onMcpApprovalDecision) {
+        return (
+          <div
+            key={`mcp-approval-${output.id}`}
+            className="bg-card text-card-foreground border rounded-lg p-4 text-sm flex items-start gap-2"
+          >
+            <AlertTriangle className="w-4 h-4 mt-1" />
+            <div>
+              <div className="font-semibold mb-1">MCP approval requested</div>
+              <pre className="text-xs whitespace-pre-wrap">
+                {JSON.stringify(output, null, 2)}
+              </pre>
+            </div>
+          </div>
+        )
+      }
+
+      return (
+        <MCPApprovalRequestDisplay
+          key={`mcp-approval-${output.id}`}
+          approvalRequest={output}
+          serverName={serverNames?.get(output.server_label)}
+          onDecision={(approve: boolean) => onMcpApprovalDecision(output, approve)}
+          disabled={disableApprovalActions}
+          approvalStatus={approvalStatus}
+          liveMode={liveMode}
+          role={role}
+        />
+      )
+    default:
+      return (
+        <div
+          key={`raw-${message.key}`}
+          className="bg-card text-card-foreground border rounded-lg p-4 text-xs overflow-x-auto"
+        >
+          <pre className="whitespace-pre-wrap">
+            {JSON.stringify(output, null, 2)}
+          </pre>
+        </div>
+      )
+  }
+}
+
+function CopyTextButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false)
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (error) {
+      console.warn("Failed to copy message", error)
+    }
+  }
+
+  return (
+    <Button variant="ghost" size="icon" className="size-7" onClick={copy} aria-label="Copy message">
+      {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+    </Button>
+  )
+}
+
+interface VariantPagerProps {
+  index: number
+  count: number
+  onChange: (index: number) => void
+  /** What is being paged through, for the button labels. */
+  noun: string
+  disabled?: boolean
+}
+
+function VariantPager({ index, count, onChange, noun, disabled }: VariantPagerProps) {
+  return (
+    <span className="inline-flex items-center text-xs text-muted-foreground tabular-nums">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-7"
+        onClick={() => onChange(index - 1)}
+        disabled={disabled || index === 0}
+        aria-label={`Previous ${noun}`}
+      >
+        <ChevronLeft className="w-3 h-3" />
+      </Button>
+      {index + 1}/{count}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-7"
+        onClick={() => onChange(index + 1)}
+        disabled={disabled || index === count - 1}
+        aria-label={`Next ${noun}`}
+      >
+        <ChevronRight className="w-3 h-3" />
+      </Button>
+    </span>
+  )
+}
+
+interface ChatTranscriptProps {
+  messages: ReadonlyArray<ChatViewMessage>
+  status: UseResponsesResult["status"]
+  error: UseResponsesResult["error"]
+  /** Omit to show approval requests read-only, as in replays. */
+  onMcpApprovalDecision?: RenderOutputOptions["onMcpApprovalDecision"]
+  /** Offered next to errors when set. */
+  onRetry?: () => void
+  /** Offered on the last answer when set. */
+  onRegenerate?: () => void
+  /** Earlier answers to the last user message, browsable from the last answer. */
+  previousVariants?: ReadonlyArray<ReadonlyArray<ChatViewMessage>>
+  /** Lets the user rewrite an earlier message, starting a new branch. */
+  onEditMessage?: (index: number, text: string) => void
+  /** User messages with more than one version. */
+  branches?: ReadonlyArray<BranchPointInfo>
+  onSwitchBranch?: (index: number, branch: number) => void
+  serverNames?: Map<string, string>
+  liveMode?: boolean
+  /** The signed-in user's role; approvals it does not cover cannot be given. */
+  role?: UserRole
+}
+
+const NO_VARIANTS: ReadonlyArray<ReadonlyArray<ChatViewMessage>> = []
+const NO_BRANCHES: ReadonlyArray<BranchPointInfo> = []
+
+/** The message list with streaming, cancelled and error indicators. */
+export function ChatTranscript({
+  messages,
+  status,
+  error,
+  onMcpApprovalDecision,
+  onRetry,
+  onRegenerate,
+  previousVariants = NO_VARIANTS,
+  onEditMessage,
+  branches = NO_BRANCHES,
+  onSwitchBranch,
+  serverNames,
+  liveMode,
+  role,
+}: ChatTranscriptProps) {
+  const isStreaming = status === "in_progress"
+
+  // Undefined shows the current answer; the pager's last page.
+  const [variantIndex, setVariantIndex] = useState<number>()
+  useEffect(() => setVariantIndex(undefined), [previousVariants])
+
+  const lastUserIndex = messages.findLastIndex(({ item, role }) => item.type === "message" && role === "user")
+  const shownVariant = variantIndex === undefined ? undefined : previousVariants[variantIndex]
+  const shownMessages = shownVariant ? [...messages.slice(0, lastUserIndex + 1), ...shownVariant] : messages
+  const variantCount = previousVariants.length + 1
+  const lastAnswerIndex = shownMessages.findLastIndex(
+    ({ item, role, text }) => item.type === "message" && role === "assistant" && Boolean(text),
+  )
+  const showAnswerActions = !isStreaming && lastAnswerIndex > lastUserIndex
+
+  const [editingIndex, setEditingIndex] = useState<number>()
+  const branchesByIndex = useMemo(() => new Map(branches.map((branch) => [branch.index, branch])), [branches])
+
+  // Track approval responses to show approved status
+  const approvalResponses = useMemo(() => {
+    const responses = new Map<string, boolean>()
+    messages.forEach(({ item }) => {
+      if (item.type === "mcp_approval_response") {
+        responses.set(item.approval_request_id, item.approve)
+      }
+    })
+    return responses
+  }, [messages])
+
+  return (
+    <>
+      {shownMessages.map((message, index) => {
+        const { key, item } = message
+
+        // Consecutive assistant items share one icon
+        const isCurrentAssistant = message.role === "assistant"
+        const isPreviousAssistant = index > 0 && shownMessages[index - 1].role === "assistant"
+        const showIcon = !isCurrentAssistant || !isPreviousAssistant
+
+        if (item.type === "mcp_approval_response") {
+          // Don't display approval response messages to the user
+          return null
+        }
+
+        if (item.type === "message" && message.role === "user" && editingIndex === index) {
+          return (
+            <EditMessageForm
+              key={key}
+              initialText={message.text}
+              onCancel={() => setEditingIndex(undefined)}
+              onSubmit={(text) => {
+                setEditingIndex(undefined)
+                onEditMessage?.(index, text)
+              }}
+            />
+          )
+        }
+
+        if (item.type === "message" && message.role === "user") {
+          if (!message.text) return null
+          const branch = branchesByIndex.get(index)
+          return (
+            <MessageBubble
+              key={key}
+              role="user"
+              content={message.text}
+              actions={
+                onEditMessage || branch ? (
+                  <>
+                    {branch && onSwitchBranch && (
+                      <VariantPager
+                        index={branch.active}
+                        count={branch.count}
+                        onChange={(next) => onSwitchBranch(index, next)}
+                        noun="version"
+                        disabled={isStreaming}
+                      />
+                    )}
+                    {onEditMessage && !shownVariant && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-7"
+                        onClick={() => setEditingIndex(index)}
+                        aria-label="Edit message"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </>
+                ) : undefined
+              }
+            />
+          )
+        }
+
+        if (item.type === "message") {
+          if (!message.text) return null
+          return (
+            <MessageBubble
+              key={key}
+              role={message.role}
+              content={message.text}
+              isStreaming={message.isStreaming}
+              showIcon={message.role === "assistant" ? showIcon : true}
+              actions={
+                showAnswerActions && index === lastAnswerIndex ? (
+                  <>
+                    <CopyTextButton text={message.text} />
+                    {onRegenerate && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-7"
+                        onClick={onRegenerate}
+                        aria-label="Regenerate answer"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                      </Button>
+                    )}
+                    {variantCount > 1 && (
+                      <VariantPager
+                        index={variantIndex ?? variantCount - 1}
+                        count={variantCount}
+                        onChange={(next) => setVariantIndex(next === variantCount - 1 ? undefined : next)}
+                        noun="answer"
+                      />
+                    )}
+                  </>
+                ) : undefined
+              }
+            />
+          )
+        }
+
+        return (
+          <AssistantMessage key={key} showIcon={showIcon}>
+            {renderOutputComponent(message, {
+              // Earlier answers are read-only.
+              onMcpApprovalDecision: shownVariant ? undefined : onMcpApprovalDecision,
+              disableApprovalActions: isStreaming,
+              approvalResponses,
+              serverNames,
+              liveMode,
+              role,
+            })}
+          </AssistantMessage>
+        )
+      })}
+
+      {isStreaming && (
+        <AssistantMessage showIcon={messages.length === 0 || messages[messages.length - 1].role !== "assistant"}>
+          <TypingIndicator />
+        </AssistantMessage>
+      )}
+
+      {status === "cancelled" && !error && (
+        <div className="text-xs text-muted-foreground text-center">Response stopped</div>
+      )}
+
+      {error && <ChatErrorDisplay error={error} onRetry={isStreaming ? undefined : onRetry} />}
+    </>
+  )
+}
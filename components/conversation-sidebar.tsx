@@ -0,0 +1,179 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import type React from "react"
+import { formatDistanceToNow } from "date-fns"
+import { MoreHorizontal, Pencil, Pin, PinOff, SquarePen, Trash2 } from "lucide-react"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarFooter,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "./ui/sidebar"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu"
+import { Button } from "./ui/button"
+import type { StoredConversationSummary } from "@/lib/conversation-storage"
+
+interface ConversationSidebarProps {
+  conversations: ReadonlyArray<StoredConversationSummary>
+  activeId?: string
+  onSelect: (id: string) => void
+  onNewChat: () => void
+  onRename: (id: string, title: string) => void
+  onTogglePin: (id: string, pinned: boolean) => void
+  onDelete: (id: string) => void
+  footer?: React.ReactNode
+}
+
+export const getConversationTitle = (conversation: StoredConversationSummary): string =>
+  conversation.title ?? conversation.autoTitle ?? "New chat"
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onNewChat,
+  onRename,
+  onTogglePin,
+  onDelete,
+  footer,
+}: ConversationSidebarProps) {
+  const [query, setQuery] = useState("")
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const { pinned, recent } = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    const matches = needle
+      ? conversations.filter(conversation => getConversationTitle(conversation).toLowerCase().includes(needle))
+      : conversations
+    return {
+      pinned: matches.filter(conversation => conversation.pinned),
+      recent: matches.filter(conversation => !conversation.pinned),
+    }
+  }, [conversations, query])
+
+  const commitRename = (id: string, value: string) => {
+    setEditingId(null)
+    onRename(id, value)
+  }
+
+  const renderItem = (conversation: StoredConversationSummary) => {
+    const title = getConversationTitle(conversation)
+
+    if (editingId === conversation.id) {
+      return (
+        <SidebarMenuItem key={conversation.id}>
+          <SidebarInput
+            autoFocus
+            defaultValue={title}
+            aria-label="Conversation title"
+            onBlur={event => commitRename(conversation.id, event.currentTarget.value)}
+            onKeyDown={(event: React.KeyboardEvent<HTMLInputElement>) => {
+              if (event.key === "Enter") commitRename(conversation.id, event.currentTarget.value)
+              if (event.key === "Escape") setEditingId(null)
+            }}
+          />
+        </SidebarMenuItem>
+      )
+    }
+
+    return (
+      <SidebarMenuItem key={conversation.id}>
+        <SidebarMenuButton
+          isActive={conversation.id === activeId}
+          onClick={() => onSelect(conversation.id)}
+          className="h-auto flex-col items-start gap-0.5 py-2"
+        >
+          <span className="w-full truncate">{title}</span>
+          <span className="flex items-center gap-1 text-xs opacity-70">
+            {formatDistanceToNow(conversation.updatedAt, { addSuffix: true })}
+            {conversation.stripe?.mode && (
+              <span
+                className={`px-1 rounded uppercase ${
+                  conversation.stripe.mode === "live" ? "bg-red-100 text-red-700" : "bg-amber-100 text-amber-800"
+                }`}
+              >
+                {conversation.stripe.mode}
+              </span>
+            )}
+            {conversation.stripe?.accountId && <span className="truncate">{conversation.stripe.accountId}</span>}
+          </span>
+        </SidebarMenuButton>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuAction showOnHover aria-label="Conversation actions">
+              <MoreHorizontal />
+            </SidebarMenuAction>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="start">
+            <DropdownMenuItem onSelect={() => setEditingId(conversation.id)}>
+              <Pencil className="w-4 h-4" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onTogglePin(conversation.id, !conversation.pinned)}>
+              {conversation.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+              {conversation.pinned ? "Unpin" : "Pin"}
+            </DropdownMenuItem>
+            <DropdownMenuItem variant="destructive" onSelect={() => onDelete(conversation.id)}>
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </SidebarMenuItem>
+    )
+  }
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <Button variant="outline" size="sm" onClick={onNewChat} className="w-full justify-start">
+          <SquarePen className="w-4 h-4" />
+          New chat
+        </Button>
+        <SidebarInput
+          type="search"
+          placeholder="Search conversations..."
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          aria-label="Search conversations"
+        />
+      </SidebarHeader>
+      <SidebarContent>
+        {pinned.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>{pinned.map(renderItem)}</SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+        <SidebarGroup>
+          <SidebarGroupLabel>Recent</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>{recent.map(renderItem)}</SidebarMenu>
+            {recent.length === 0 && (
+              <div className="px-2 text-xs opacity-70">
+                {query ? "No matching conversations." : "No saved conversations yet."}
+              </div>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      {footer && <SidebarFooter>{footer}</SidebarFooter>}
+    </Sidebar>
+  )
+}
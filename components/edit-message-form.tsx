@@ -0,0 +1,48 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+
+interface EditMessageFormProps {
+  initialText: string
+  onSubmit: (text: string) => void
+  onCancel: () => void
+  submitLabel?: string
+}
+
+export function EditMessageForm({ initialText, onSubmit, onCancel, submitLabel = "Send" }: EditMessageFormProps) {
+  const [text, setText] = useState(initialText)
+  const submit = () => {
+    if (text.trim()) onSubmit(text)
+  }
+
+  return (
+    <div className="flex justify-end">
+      <div className="w-full max-w-[80%] space-y-2">
+        <Textarea
+          autoFocus
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" && !event.shiftKey) {
+              event.preventDefault()
+              submit()
+            } else if (event.key === "Escape") {
+              onCancel()
+            }
+          }}
+          aria-label="Edit message"
+        />
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={submit} disabled={!text.trim()} className="bg-groq-orange hover:bg-groq-orange/90">
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { SlidersHorizontal } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Slider } from "./ui/slider"
+import { Switch } from "./ui/switch"
+import {
+  MAX_TEMPERATURE,
+  MIN_TEMPERATURE,
+  MODELS,
+  REASONING_EFFORTS,
+  findModel,
+  type GenerationSettings,
+  type ReasoningEffort,
+} from "@/lib/models"
+
+interface GenerationSettingsPopoverProps {
+  settings: GenerationSettings
+  onChange: (patch: Partial<GenerationSettings>) => void
+  onReset: () => void
+  disabled?: boolean
+}
+
+export function GenerationSettingsPopover({ settings, onChange, onReset, disabled = false }: GenerationSettingsPopoverProps) {
+  const model = findModel(settings.model)
+
+  const handleModelChange = (id: string) => {
+    const next = findModel(id)
+    const patch: Partial<GenerationSettings> = { model: id }
+    // Keep the token limit within the newly selected model's maximum.
+    if (next && settings.maxOutputTokens && settings.maxOutputTokens > next.maxOutputTokens) {
+      patch.maxOutputTokens = next.maxOutputTokens
+    }
+    onChange(patch)
+  }
+
+  const handleMaxTokensChange = (value: string) => {
+    const parsed = Number.parseInt(value, 10)
+    onChange({ maxOutputTokens: Number.isFinite(parsed) && parsed > 0 ? parsed : undefined })
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground"
+          aria-label="Model settings"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          <span className="text-xs">{model?.name ?? settings.model}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="text-sm font-semibold">Model settings</div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-model">Model</Label>
+          <Select value={settings.model} onValueChange={handleModelChange} disabled={disabled}>
+            <SelectTrigger id="settings-model" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MODELS.map(option => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-temperature" className="justify-between">
+            Temperature
+            <span className="text-xs opacity-75">{settings.temperature.toFixed(1)}</span>
+          </Label>
+          <Slider
+            id="settings-temperature"
+            min={MIN_TEMPERATURE}
+            max={MAX_TEMPERATURE}
+            step={0.1}
+            value={[settings.temperature]}
+            onValueChange={([value]) => onChange({ temperature: value })}
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-max-tokens">Max output tokens</Label>
+          <Input
+            id="settings-max-tokens"
+            type="number"
+            min={1}
+            max={model?.maxOutputTokens}
+            placeholder={model ? `Up to ${model.maxOutputTokens}` : undefined}
+            value={settings.maxOutputTokens ?? ""}
+            onChange={event => handleMaxTokensChange(event.target.value)}
+            disabled={disabled}
+          />
+        </div>
+
+        {model?.reasoning && (
+          <div className="space-y-2">
+            <Label htmlFor="settings-reasoning">Reasoning effort</Label>
+            <Select
+              value={settings.reasoningEffort}
+              onValueChange={value => onChange({ reasoningEffort: value as ReasoningEffort })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="settings-reasoning" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REASONING_EFFORTS.map(effort => (
+                  <SelectItem key={effort} value={effort}>
+                    {effort}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="settings-parallel">Parallel tool calls</Label>
+          <Switch
+            id="settings-parallel"
+            checked={settings.parallelToolCalls}
+            onCheckedChange={checked => onChange({ parallelToolCalls: checked })}
+            disabled={disabled}
+          />
+        </div>
+
+        <Button variant="outline" size="sm" onClick={onReset} disabled={disabled} className="w-full">
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
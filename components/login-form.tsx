@@ -0,0 +1,102 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import Image from "next/image"
+import { AlertTriangle, LogIn } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { AuthProviderName } from "@/lib/auth"
+
+interface LoginFormProps {
+  /** Undefined when sign-in is misconfigured. */
+  provider?: AuthProviderName
+  /** Path to return to once signed in. */
+  next: string
+  error?: string
+}
+
+export function LoginForm({ provider, next, error: initialError }: LoginFormProps) {
+  const [error, setError] = useState(initialError)
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const formData = new FormData(event.currentTarget)
+    setSubmitting(true)
+    setError(undefined)
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: formData.get("username"), password: formData.get("password") ?? undefined }),
+      })
+      if (!response.ok) {
+        const body = (await response.json().catch(() => undefined)) as { error?: { message?: string } } | undefined
+        setError(body?.error?.message ?? `Sign-in failed: ${response.status}`)
+        return
+      }
+      window.location.assign(next)
+    } catch {
+      setError("Could not reach the server")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-sm p-6 space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="flex items-center justify-center w-8 h-8 rounded-full bg-groq-orange shrink-0">
+          <Image src="/groq-logo.png" alt="Groq" width={20} height={20} className="rounded-full" />
+        </div>
+        <h1 className="text-lg font-semibold">Sign in to continue</h1>
+      </div>
+
+      {error && (
+        <div role="alert" className="border border-red-200 bg-red-50 text-red-700 rounded-lg p-3 text-sm flex gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {provider === "oidc" && (
+        <Button asChild className="w-full bg-groq-orange hover:bg-groq-orange/90 text-white">
+          <a href={`/api/auth/oidc?next=${encodeURIComponent(next)}`}>
+            <LogIn className="w-4 h-4" />
+            Continue with single sign-on
+          </a>
+        </Button>
+      )}
+
+      {(provider === "credentials" || provider === "dev") && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="username">Username</Label>
+            <Input id="username" name="username" autoComplete="username" required autoFocus />
+          </div>
+          {provider === "credentials" && (
+            <div className="space-y-1">
+              <Label htmlFor="password">Password</Label>
+              <Input id="password" name="password" type="password" autoComplete="current-password" required />
+            </div>
+          )}
+          {provider === "dev" && (
+            <p className="text-xs text-muted-foreground">
+              Development sign-in: any username works and no password is needed.
+            </p>
+          )}
+          <Button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-groq-orange hover:bg-groq-orange/90 text-white"
+          >
+            Sign in
+          </Button>
+        </form>
+      )}
+    </Card>
+  )
+}
@@ -2,25 +2,83 @@
 
 import { useState } from "react"
 import { Button } from "./ui/button"
-import { AlertTriangle, Check, X, CheckCircle, XCircle } from "lucide-react"
+import { Input } from "./ui/input"
+import { AlertTriangle, Check, X, CheckCircle, XCircle, ShieldOff } from "lucide-react"
 import type { ResponseOutputItem } from "openai/resources/responses/responses"
+import { isMutatingStripeTool, isStripePaymentTool } from "@/lib/stripe-tools"
+import { toMajorUnits } from "@/lib/stripe-format"
+import { isToolAllowed, type UserRole } from "@/lib/roles"
 
 interface MCPApprovalRequestDisplayProps {
   approvalRequest: ResponseOutputItem.McpApprovalRequest
   onDecision: (approve: boolean) => void
   disabled?: boolean
   approvalStatus?: boolean // true = approved, false = denied, undefined = pending
+  serverName?: string
+  /** The Stripe key is a live-mode key; payments need a typed confirmation. */
+  liveMode?: boolean
+  /** The signed-in user's role; Approve is greyed out for tools it does not cover. */
+  role?: UserRole
+}
+
+interface TypedConfirmation {
+  phrase: string
+  prompt: string
+}
+
+/**
+ * The text a user has to type before a live-mode payment tool runs: the
+ * amount when the call has one, otherwise the word CONFIRM.
+ */
+const getTypedConfirmation = (args: unknown): TypedConfirmation => {
+  const { amount, currency } = (args && typeof args === "object" ? args : {}) as {
+    amount?: unknown
+    currency?: unknown
+  }
+
+  if (typeof amount === "number") {
+    if (typeof currency === "string" && currency) {
+      const phrase = toMajorUnits(amount, currency)
+      return { phrase, prompt: `Type the amount (${phrase}) in ${currency.toUpperCase()} to confirm` }
+    }
+    const phrase = String(amount)
+    return { phrase, prompt: `Type the amount in the smallest currency unit (${phrase}) to confirm` }
+  }
+
+  return { phrase: "CONFIRM", prompt: "Type CONFIRM to approve this live-mode payment" }
 }
 
 export function MCPApprovalRequestDisplay({ 
   approvalRequest, 
   onDecision, 
   disabled = false,
-  approvalStatus
+  approvalStatus,
+  serverName,
+  liveMode = false,
+  role,
 }: MCPApprovalRequestDisplayProps) {
   const [decision, setDecision] = useState<'approved' | 'denied' | null>(null)
+  const [confirmationInput, setConfirmationInput] = useState("")
+  const isStripe = approvalRequest.server_label === "stripe"
+  const isMutating = isStripe && isMutatingStripeTool(approvalRequest.name)
+  const needsTypedConfirmation = liveMode && isStripe && isStripePaymentTool(approvalRequest.name)
+  // The server refuses these approvals too; this only saves the round trip.
+  const canApprove = !role || isToolAllowed(role, approvalRequest.name, approvalRequest.server_label)
+
+  let parsedArgs: unknown
+  if (approvalRequest.arguments) {
+    try {
+      parsedArgs = JSON.parse(approvalRequest.arguments)
+    } catch {
+      parsedArgs = approvalRequest.arguments
+    }
+  }
+
+  const confirmation = needsTypedConfirmation ? getTypedConfirmation(parsedArgs) : undefined
+  const isConfirmed = !confirmation || confirmationInput.trim() === confirmation.phrase
 
   const handleApprove = () => {
+    if (!isConfirmed || !canApprove) return
     setDecision('approved')
     onDecision(true)
   }
@@ -81,20 +139,55 @@ export function MCPApprovalRequestDisplay({
           
           <div className="mt-2">
             <div className="font-medium mb-1">
-              Server: {approvalRequest.server_label || "Unknown Server"}
+              Server: {serverName ? `${serverName} (${approvalRequest.server_label})` : approvalRequest.server_label || "Unknown Server"}
             </div>
-            <div className="font-medium mb-1">
+            <div className="font-medium mb-1 flex items-center gap-2">
               Tool: {approvalRequest.name || "Unknown Tool"}
+              {isMutating && (
+                <span className="text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800">
+                  Modifies Stripe data
+                </span>
+              )}
+              {needsTypedConfirmation && (
+                <span className="text-xs px-2 py-0.5 rounded bg-red-100 text-red-700">
+                  Live payment
+                </span>
+              )}
             </div>
             
             {approvalRequest.arguments && (
               <div className="mt-2">
                 <div className="font-medium mb-1">Arguments:</div>
                 <pre className="bg-muted p-2 rounded text-xs overflow-x-auto whitespace-pre-wrap">
-                  {JSON.stringify(JSON.parse(approvalRequest.arguments || '{}'), null, 2)}
+                  {JSON.stringify(parsedArgs, null, 2)}
                 </pre>
               </div>
             )}
+
+            {!canApprove && approvalStatus === undefined && !decision && (
+              <div className="mt-3 flex items-center gap-2 text-muted-foreground">
+                <ShieldOff className="w-4 h-4" />
+                <span>
+                  Your role ({role?.name}) cannot approve {approvalRequest.name}. Deny it, or ask someone who can.
+                </span>
+              </div>
+            )}
+
+            {confirmation && canApprove && approvalStatus === undefined && !decision && !disabled && (
+              <div className="mt-3">
+                <label htmlFor={`confirm-${approvalRequest.id}`} className="font-medium mb-1 block">
+                  {confirmation.prompt}
+                </label>
+                <Input
+                  id={`confirm-${approvalRequest.id}`}
+                  value={confirmationInput}
+                  onChange={event => setConfirmationInput(event.target.value)}
+                  placeholder={confirmation.phrase}
+                  autoComplete="off"
+                  className="max-w-48"
+                />
+              </div>
+            )}
           </div>
         </div>
 
@@ -102,6 +195,8 @@ export function MCPApprovalRequestDisplay({
           <div className="flex gap-2">
             <Button
               onClick={handleApprove}
+              disabled={!isConfirmed || !canApprove}
+              title={canApprove ? undefined : `The ${role?.name} role cannot approve this tool`}
               size="sm"
               className="bg-green-600 hover:bg-green-700 text-white"
             >
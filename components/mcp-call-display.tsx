@@ -1,16 +1,28 @@
 "use client"
 
-import { useState } from "react"
-import { ChevronDown, ChevronRight, Network, Code, CheckCircle, XCircle } from "lucide-react"
+import { useMemo, useState } from "react"
+import { ChevronDown, ChevronRight, Network, Code, CheckCircle, XCircle, Braces, LayoutList } from "lucide-react"
 import { Button } from "./ui/button"
+import { StripeObjectDisplay, canRenderStripePayload } from "./stripe-object-display"
+import { extractStripePayload } from "@/lib/stripe-format"
 import type { ResponseOutputItem } from "openai/resources/responses/responses"
 
 interface MCPCallDisplayProps {
   mcpCall: ResponseOutputItem.McpCall
+  /** Display name of the registered server the call went to. */
+  serverName?: string
+  /** The Stripe account the call ran against. */
+  accountName?: string
 }
 
-export function MCPCallDisplay({ mcpCall }: MCPCallDisplayProps) {
+export function MCPCallDisplay({ mcpCall, serverName, accountName }: MCPCallDisplayProps) {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [showRawOutput, setShowRawOutput] = useState(false)
+
+  const stripePayload = useMemo(() => {
+    const payload = extractStripePayload(mcpCall.output)
+    return payload && canRenderStripePayload(payload) ? payload : undefined
+  }, [mcpCall.output])
 
   const getStatusIcon = () => {
     if (mcpCall.error) {
@@ -52,14 +64,20 @@ export function MCPCallDisplay({ mcpCall }: MCPCallDisplayProps) {
         )}
         <Network className="w-4 h-4" />
         <span>{mcpCall.name || "Unknown MCP Call"}</span>
-        <span className="text-xs opacity-75">({mcpCall.server_label || "Unknown Server"})</span>
+        <span className="text-xs opacity-75">({serverName ?? (mcpCall.server_label || "Unknown Server")})</span>
+        {accountName && (
+          <span className="text-xs px-1.5 py-0.5 rounded bg-muted text-muted-foreground truncate max-w-48">
+            {accountName}
+          </span>
+        )}
         {getStatusIcon()}
       </Button>
 
       {isExpanded && (
         <div className="mt-3 pl-6 text-sm space-y-3">
           <div className="text-xs opacity-75">
-            Server: {mcpCall.server_label || "Unknown Server"}
+            Server: {serverName ? `${serverName} (${mcpCall.server_label})` : mcpCall.server_label || "Unknown Server"}
+            {accountName && ` · Account: ${accountName}`}
           </div>
 
           {mcpCall.arguments && (
@@ -76,10 +94,27 @@ export function MCPCallDisplay({ mcpCall }: MCPCallDisplayProps) {
 
           {mcpCall.output && (
             <div>
-              <div className="font-semibold mb-1">Output:</div>
-              <pre className="bg-muted p-2 rounded text-xs overflow-x-auto">
-                {JSON.stringify(parsedOutput, null, 2)}
-              </pre>
+              <div className="font-semibold mb-1 flex items-center gap-2">
+                Output:
+                {stripePayload && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowRawOutput(!showRawOutput)}
+                    className="h-6 px-2 text-xs font-normal"
+                  >
+                    {showRawOutput ? <LayoutList className="w-3 h-3" /> : <Braces className="w-3 h-3" />}
+                    {showRawOutput ? "Formatted" : "Raw JSON"}
+                  </Button>
+                )}
+              </div>
+              {stripePayload && !showRawOutput ? (
+                <StripeObjectDisplay payload={stripePayload} />
+              ) : (
+                <pre className="bg-muted p-2 rounded text-xs overflow-x-auto">
+                  {JSON.stringify(parsedOutput, null, 2)}
+                </pre>
+              )}
             </div>
           )}
 
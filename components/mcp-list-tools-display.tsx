@@ -7,9 +7,11 @@ import type { ResponseOutputItem } from "openai/resources/responses/responses"
 
 interface MCPListToolsDisplayProps {
   item: ResponseOutputItem.McpListTools
+  /** Display name of the registered server the tools came from. */
+  serverName?: string
 }
 
-export function MCPListToolsDisplay({ item }: MCPListToolsDisplayProps) {
+export function MCPListToolsDisplay({ item, serverName }: MCPListToolsDisplayProps) {
   const [isExpanded, setIsExpanded] = useState(false)
 
   const tools = item.tools ?? []
@@ -29,7 +31,7 @@ export function MCPListToolsDisplay({ item }: MCPListToolsDisplayProps) {
         )}
         <List className="w-4 h-4" />
         <span>Available Tools</span>
-        <span className="text-xs opacity-75">({item.server_label || "Unknown server"})</span>
+        <span className="text-xs opacity-75">({serverName ?? (item.server_label || "Unknown server")})</span>
         <span className="text-xs px-2 py-1 rounded">{tools.length} tools</span>
       </Button>
 
@@ -0,0 +1,59 @@
+"use client"
+
+import { Server } from "lucide-react"
+import { Button } from "./ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover"
+import { Switch } from "./ui/switch"
+import type { McpServerInfo } from "@/lib/mcp-servers"
+
+interface MCPServersPanelProps {
+  servers: ReadonlyArray<McpServerInfo>
+  isEnabled: (label: string) => boolean
+  onToggle: (label: string, enabled: boolean) => void
+  disabled?: boolean
+}
+
+export function MCPServersPanel({ servers, isEnabled, onToggle, disabled = false }: MCPServersPanelProps) {
+  const enabledCount = servers.filter(server => isEnabled(server.label)).length
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground"
+          aria-label="Configure MCP servers"
+        >
+          <Server className="w-4 h-4" />
+          <span className="text-xs">{enabledCount}/{servers.length}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="text-sm font-semibold mb-3">MCP servers</div>
+        <div className="space-y-3">
+          {servers.map(server => (
+            <div key={server.label} className="flex items-start justify-between gap-3">
+              <div className="text-sm">
+                <div className="font-medium">
+                  {server.name} <span className="text-xs opacity-75">({server.label})</span>
+                </div>
+                {server.description && <div className="text-xs opacity-75">{server.description}</div>}
+                {!server.available && (
+                  <div className="text-xs text-red-600">Credentials are not configured on the server</div>
+                )}
+              </div>
+              <Switch
+                checked={isEnabled(server.label)}
+                onCheckedChange={checked => onToggle(server.label, checked)}
+                disabled={disabled || !server.available}
+                aria-label={`Enable ${server.name}`}
+              />
+            </div>
+          ))}
+          {servers.length === 0 && <div className="text-xs opacity-70">No MCP servers registered.</div>}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
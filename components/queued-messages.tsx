@@ -0,0 +1,79 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { EditMessageForm } from "@/components/edit-message-form"
+import { Clock, Pencil, Send, X } from "lucide-react"
+import type { QueuedMessage } from "@/hooks/use-responses"
+
+interface QueuedMessagesProps {
+  messages: ReadonlyArray<QueuedMessage>
+  onUpdate: (id: string, text: string) => void
+  onRemove: (id: string) => void
+  /** Interrupts the response in flight to send this message right away. */
+  onSendNow: (id: string) => void
+}
+
+/** Messages waiting for the current response, shown as pending user bubbles. */
+export function QueuedMessages({ messages, onUpdate, onRemove, onSendNow }: QueuedMessagesProps) {
+  const [editingId, setEditingId] = useState<string>()
+
+  return (
+    <>
+      {messages.map((message) =>
+        editingId === message.id ? (
+          <EditMessageForm
+            key={message.id}
+            initialText={message.text}
+            submitLabel="Save"
+            onCancel={() => setEditingId(undefined)}
+            onSubmit={(text) => {
+              setEditingId(undefined)
+              onUpdate(message.id, text)
+            }}
+          />
+        ) : (
+          <div key={message.id} className="flex justify-end">
+            <div className="max-w-[80%] flex flex-col items-end gap-1">
+              <div className="rounded-xl border border-dashed border-groq-orange/50 bg-groq-orange/5 px-4 py-3 text-sm whitespace-pre-wrap break-words">
+                {message.text}
+              </div>
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Clock className="w-3 h-3" />
+                <span className="mr-1">Queued</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => onSendNow(message.id)}
+                  aria-label="Interrupt and send now"
+                  title="Interrupt and send now"
+                >
+                  <Send className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => setEditingId(message.id)}
+                  aria-label="Edit queued message"
+                >
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-7"
+                  onClick={() => onRemove(message.id)}
+                  aria-label="Remove queued message"
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ),
+      )}
+    </>
+  )
+}
@@ -19,7 +19,11 @@ export function ReasoningDisplay({ reasoning }: ReasoningDisplayProps) {
       return JSON.stringify(part, null, 2)
     })
 
-    return (summary?.length ? summary : undefined)?.join("\n\n") ?? "No reasoning details provided."
+    // Models that stream raw reasoning text leave the summary empty
+    const content = reasoning.content?.map(part => part.text).filter(Boolean)
+    const parts = summary?.length ? summary : content
+
+    return parts?.length ? parts.join("\n\n") : "No reasoning details provided."
   }, [reasoning])
 
   if (text.length === 0) return null;
@@ -0,0 +1,157 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChatTranscript } from "@/components/chat-transcript"
+import { AlertTriangle, Play, RotateCcw, Square } from "lucide-react"
+import { useResponses } from "@/hooks/use-responses"
+import { parseStreamRecording, type StreamRecording } from "@/lib/stream-recording"
+
+const SPEEDS = [
+  { value: "1", label: "1×" },
+  { value: "2", label: "2×" },
+  { value: "5", label: "5×" },
+  { value: "20", label: "20×" },
+  { value: "Infinity", label: "Instant" },
+]
+
+interface ReplayPlayerProps {
+  recording: StreamRecording
+  speed: number
+  onRestart: () => void
+}
+
+/** Plays a recording into its own in-memory session; remount it to start over. */
+function ReplayPlayer({ recording, speed, onRestart }: ReplayPlayerProps) {
+  const { messages, status, error, replay, cancel } = useResponses()
+  const [started, setStarted] = useState(false)
+  const messagesEndRef = useRef<HTMLDivElement>(null)
+  const isPlaying = status === "in_progress"
+
+  // Stop the timers when the player is replaced or the page is left.
+  useEffect(() => cancel, [cancel])
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [messages])
+
+  const handlePlay = () => {
+    setStarted(true)
+    void replay(recording, { speed })
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        {isPlaying ? (
+          <Button variant="outline" size="sm" onClick={cancel}>
+            <Square className="w-3 h-3 fill-current" />
+            Stop
+          </Button>
+        ) : (
+          <Button size="sm" onClick={started ? onRestart : handlePlay}>
+            {started ? <RotateCcw className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+            {started ? "Restart" : "Play"}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-4 py-4">
+        <ChatTranscript messages={messages} status={status} error={error} />
+        <div ref={messagesEndRef} />
+      </div>
+    </>
+  )
+}
+
+interface ReplayViewerProps {
+  recordingId: string
+}
+
+export function ReplayViewer({ recordingId }: ReplayViewerProps) {
+  const [recording, setRecording] = useState<StreamRecording>()
+  const [loadError, setLoadError] = useState<string>()
+  const [speed, setSpeed] = useState("1")
+  const [run, setRun] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    setRecording(undefined)
+    setLoadError(undefined)
+
+    fetch(`/api/recordings/${encodeURIComponent(recordingId)}`)
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? "Recording not found" : `Could not load recording (${response.status})`)
+        }
+        return parseStreamRecording(await response.text())
+      })
+      .then(parsed => {
+        if (!cancelled) setRecording(parsed)
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setLoadError(error.message)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [recordingId])
+
+  const header = recording?.header
+  const duration = recording?.end?.t ?? recording?.events.at(-1)?.t ?? 0
+
+  return (
+    <div className="flex flex-col h-svh w-full max-w-4xl mx-auto p-4 gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-border pb-4">
+        <div className="space-y-1">
+          <h1 className="font-semibold">Replay {recordingId}</h1>
+          {header && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span>{new Date(header.startedAt).toLocaleString()}</span>
+              {header.model && <span>· {header.model}</span>}
+              <span>· {recording.events.length} events</span>
+              <span>· {(duration / 1000).toFixed(1)}s</span>
+              <Badge variant={recording.end?.outcome === "completed" ? "secondary" : "destructive"}>
+                {recording.end?.outcome ?? "incomplete"}
+              </Badge>
+            </div>
+          )}
+        </div>
+        <Select value={speed} onValueChange={value => {
+          setSpeed(value)
+          setRun(current => current + 1)
+        }}>
+          <SelectTrigger size="sm" className="w-28" aria-label="Playback speed">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPEEDS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loadError && (
+        <div className="border border-red-200 bg-red-50 text-red-700 rounded-lg p-4 text-sm flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-1" />
+          <div>{loadError}</div>
+        </div>
+      )}
+
+      {recording && (
+        <ReplayPlayer
+          key={run}
+          recording={recording}
+          speed={Number(speed)}
+          onRestart={() => setRun(current => current + 1)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+"use client"
+
+import { useState } from "react"
+import type React from "react"
+import { Check, Landmark, Plus, Trash2 } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover"
+import {
+  describeStripeAccount,
+  SERVER_KEY_ACCOUNT_NAME,
+  type NewStripeAccount,
+  type StripeAccountInfo,
+} from "@/lib/stripe-accounts"
+import type { StripeKeyInfo, StripeKeyMode } from "@/lib/stripe-keys"
+
+interface StripeAccountSwitcherProps {
+  accounts: ReadonlyArray<StripeAccountInfo>
+  activeAccount: StripeAccountInfo | undefined
+  /** The key configured on the server, offered when there is one. */
+  serverKey?: StripeKeyInfo
+  onSelect: (id: string | undefined) => void
+  onAdd: (account: NewStripeAccount) => Promise<void>
+  onRemove: (id: string) => Promise<void>
+  disabled?: boolean
+}
+
+function ModeBadge({ mode }: { mode: StripeKeyMode }) {
+  if (mode === "unknown") return null
+  return (
+    <span
+      className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${
+        mode === "live" ? "bg-red-600 text-white" : "bg-amber-100 text-amber-800"
+      }`}
+    >
+      {mode.toUpperCase()}
+    </span>
+  )
+}
+
+function AddAccountForm({ onAdd }: { onAdd: StripeAccountSwitcherProps["onAdd"] }) {
+  const [error, setError] = useState<string>()
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const form = event.currentTarget
+    const data = new FormData(form)
+    setSaving(true)
+    setError(undefined)
+    try {
+      await onAdd({
+        name: String(data.get("name") ?? ""),
+        secretKey: String(data.get("secretKey") ?? ""),
+        connectedAccountId: String(data.get("connectedAccountId") ?? ""),
+      })
+      form.reset()
+    } catch (error_) {
+      setError(error_ instanceof Error ? error_.message : "Could not save the account")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 border-t pt-3">
+      <div className="text-xs font-semibold">Add an account</div>
+      <Input name="name" placeholder="Name, e.g. EU platform" aria-label="Account name" required />
+      <Input
+        name="secretKey"
+        type="password"
+        placeholder="sk_test_… or rk_live_…"
+        aria-label="Secret key"
+        autoComplete="off"
+        required
+      />
+      <Input
+        name="connectedAccountId"
+        placeholder="Connected account (optional), acct_…"
+        aria-label="Connected account id"
+        autoComplete="off"
+      />
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs opacity-70">Keys are encrypted on the server and never shown again.</span>
+        <Button type="submit" size="sm" disabled={saving}>
+          <Plus className="w-3 h-3" />
+          Save
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+/** Picks the Stripe account chats run against: the server's key or one the user saved. */
+export function StripeAccountSwitcher({
+  accounts,
+  activeAccount,
+  serverKey,
+  onSelect,
+  onAdd,
+  onRemove,
+  disabled = false,
+}: StripeAccountSwitcherProps) {
+  const label = activeAccount
+    ? describeStripeAccount(activeAccount)
+    : serverKey?.configured === false
+      ? "No Stripe account"
+      : SERVER_KEY_ACCOUNT_NAME
+
+  const renderOption = (
+    key: string,
+    selected: boolean,
+    onClick: () => void,
+    title: string,
+    details: React.ReactNode,
+    mode: StripeKeyMode,
+    action?: React.ReactNode,
+  ) => (
+    <div key={key} className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={onClick}
+        disabled={disabled}
+        aria-pressed={selected}
+        className="flex-1 min-w-0 flex items-start gap-2 rounded-md px-2 py-1.5 text-left hover:bg-muted disabled:opacity-50"
+      >
+        <Check className={`w-4 h-4 mt-0.5 shrink-0 ${selected ? "" : "invisible"}`} />
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <span className="truncate">{title}</span>
+            <ModeBadge mode={mode} />
+          </div>
+          <div className="text-xs opacity-75 truncate">{details}</div>
+        </div>
+      </button>
+      {action}
+    </div>
+  )
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground max-w-48"
+          aria-label="Choose Stripe account"
+        >
+          <Landmark className="w-4 h-4" />
+          <span className="text-xs truncate">{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="text-sm font-semibold mb-3">Stripe account</div>
+        <div className="space-y-1 mb-3">
+          {serverKey?.configured &&
+            renderOption(
+              "server",
+              !activeAccount,
+              () => onSelect(undefined),
+              SERVER_KEY_ACCOUNT_NAME,
+              "STRIPE_SECRET_KEY configured on the server",
+              serverKey.mode,
+            )}
+          {accounts.map(account =>
+            renderOption(
+              account.id,
+              account.id === activeAccount?.id,
+              () => onSelect(account.id),
+              account.name,
+              <>
+                ••••{account.keyHint}
+                {account.restricted && " · restricted"}
+                {account.connectedAccountId && ` · Stripe-Account ${account.connectedAccountId}`}
+              </>,
+              account.mode,
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7 shrink-0"
+                onClick={() => void onRemove(account.id).catch(error => console.warn(error))}
+                disabled={disabled}
+                aria-label={`Remove ${account.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>,
+            ),
+          )}
+          {!serverKey?.configured && accounts.length === 0 && (
+            <div className="text-xs opacity-70">No Stripe key on the server. Add one of your own below.</div>
+          )}
+        </div>
+        <AddAccountForm onAdd={onAdd} />
+      </PopoverContent>
+    </Popover>
+  )
+}
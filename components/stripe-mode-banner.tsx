@@ -0,0 +1,53 @@
+"use client"
+
+import { AlertTriangle, FlaskConical, KeyRound } from "lucide-react"
+import type { StripeKeyInfo } from "@/lib/stripe-keys"
+
+interface StripeModeBannerProps {
+  stripe: StripeKeyInfo
+}
+
+/** Persistent strip telling the user which kind of Stripe key the server uses. */
+export function StripeModeBanner({ stripe }: StripeModeBannerProps) {
+  if (!stripe.configured) {
+    return (
+      <div className="flex items-center justify-center gap-2 px-4 py-1 text-xs font-medium bg-muted text-muted-foreground">
+        <KeyRound className="w-3 h-3" />
+        No Stripe key configured
+      </div>
+    )
+  }
+
+  const restricted = stripe.restricted ? " · restricted key" : ""
+
+  if (stripe.mode === "live") {
+    return (
+      <div
+        role="status"
+        className="flex items-center justify-center gap-2 px-4 py-1 text-xs font-semibold bg-red-600 text-white"
+      >
+        <AlertTriangle className="w-3 h-3" />
+        LIVE MODE · changes affect real customers and money{restricted}
+      </div>
+    )
+  }
+
+  if (stripe.mode === "test") {
+    return (
+      <div
+        role="status"
+        className="flex items-center justify-center gap-2 px-4 py-1 text-xs font-semibold bg-amber-100 text-amber-800"
+      >
+        <FlaskConical className="w-3 h-3" />
+        TEST MODE{restricted}
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center justify-center gap-2 px-4 py-1 text-xs font-medium bg-muted text-muted-foreground">
+      <KeyRound className="w-3 h-3" />
+      Unrecognized Stripe key format
+    </div>
+  )
+}
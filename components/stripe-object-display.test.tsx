@@ -0,0 +1,43 @@
+import { renderToStaticMarkup } from "react-dom/server"
+import { describe, expect, it } from "vitest"
+
+import { canRenderStripePayload, getStripeObjectRenderer, StripeObjectDisplay } from "./stripe-object-display"
+import type { StripeObjectPayload } from "@/lib/stripe-format"
+
+describe("StripeObjectDisplay", () => {
+  it("renders a card for a known object type", () => {
+    const payload: StripeObjectPayload = {
+      kind: "object",
+      object: { id: "cus_123", object: "customer", email: "jenny@example.com", livemode: false },
+    }
+
+    expect(canRenderStripePayload(payload)).toBe(true)
+    const html = renderToStaticMarkup(<StripeObjectDisplay payload={payload} />)
+    expect(html).toContain("jenny@example.com")
+    expect(html).toContain("https://dashboard.stripe.com/test/customers/cus_123")
+  })
+
+  it.each(["constructor", "toString", "__proto__", "hasOwnProperty"])(
+    "treats an object named %s as one without a renderer",
+    type => {
+      const single: StripeObjectPayload = { kind: "object", object: { id: "x_1", object: type } }
+      const list: StripeObjectPayload = { kind: "list", objects: [{ id: "x_1", object: type }], hasMore: false }
+
+      expect(getStripeObjectRenderer(type)).toBeUndefined()
+      expect(canRenderStripePayload(single)).toBe(false)
+      expect(canRenderStripePayload(list)).toBe(false)
+      expect(renderToStaticMarkup(<StripeObjectDisplay payload={single} />)).toBe("")
+      expect(renderToStaticMarkup(<StripeObjectDisplay payload={list} />)).toBe("")
+    },
+  )
+
+  it("shows a payment link URL as text unless it is https", () => {
+    const render = (url: string) =>
+      renderToStaticMarkup(
+        <StripeObjectDisplay payload={{ kind: "object", object: { id: "plink_1", object: "payment_link", url } }} />,
+      )
+
+    expect(render("https://buy.stripe.com/test_1")).toContain('href="https://buy.stripe.com/test_1"')
+    expect(render("javascript:alert(1)")).not.toContain("href=\"javascript")
+  })
+})
@@ -0,0 +1,375 @@
+"use client"
+
+import { useState } from "react"
+import type React from "react"
+import { Check, Copy, ExternalLink } from "lucide-react"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import { cn } from "@/lib/utils"
+import {
+  formatStripeAmount,
+  formatStripeTimestamp,
+  getStripeDashboardUrl,
+  type StripeObject,
+  type StripeObjectPayload,
+} from "@/lib/stripe-format"
+
+interface StripeField {
+  label: string
+  value: (object: StripeObject) => React.ReactNode
+  /** Show this field as a column when the object appears in a list. */
+  column?: boolean
+}
+
+interface StripeObjectRenderer {
+  name: string
+  title: (object: StripeObject) => React.ReactNode
+  status?: (object: StripeObject) => string | undefined
+  fields: StripeField[]
+}
+
+const text = (value: unknown): React.ReactNode =>
+  value === null || value === undefined || value === "" ? "—" : String(value)
+
+const yesNo = (value: unknown): string => (value ? "Yes" : "No")
+
+const stringField = (key: string) => (object: StripeObject) =>
+  typeof object[key] === "string" ? (object[key] as string) : undefined
+
+const statusField = stringField("status")
+
+const activeStatus = (object: StripeObject) => (object.active === false ? "inactive" : "active")
+
+/** Expanded references come back as objects; collapsed ones as ids. */
+const referenceId = (value: unknown): React.ReactNode => {
+  if (typeof value === "string") return <span className="font-mono text-xs">{value}</span>
+  if (value && typeof value === "object" && "id" in value) {
+    return <span className="font-mono text-xs">{String((value as { id: unknown }).id)}</span>
+  }
+  return "—"
+}
+
+const isHttpsUrl = (value: string): boolean => {
+  try {
+    return new URL(value).protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+/** Tool output is untrusted, so only https URLs become links; anything else, like `javascript:`, stays text. */
+const httpsLink = (value: unknown): React.ReactNode => {
+  if (typeof value !== "string" || !value) return "—"
+  if (!isHttpsUrl(value)) return <span className="break-all">{value}</span>
+  return (
+    <a href={value} target="_blank" rel="noopener noreferrer" className="underline break-all">
+      {value}
+    </a>
+  )
+}
+
+const priceInterval = (price: unknown): string => {
+  if (!price || typeof price !== "object") return ""
+  const recurring = (price as { recurring?: { interval?: string; interval_count?: number } | null }).recurring
+  if (!recurring?.interval) return ""
+  return recurring.interval_count && recurring.interval_count > 1
+    ? ` / ${recurring.interval_count} ${recurring.interval}s`
+    : ` / ${recurring.interval}`
+}
+
+const priceAmount = (price: unknown): string => {
+  if (!price || typeof price !== "object") return "—"
+  const { unit_amount, currency } = price as { unit_amount?: number | null; currency?: string }
+  if (typeof unit_amount !== "number") return "Custom"
+  return `${formatStripeAmount(unit_amount, currency)}${priceInterval(price)}`
+}
+
+const createdField: StripeField = { label: "Created", value: object => formatStripeTimestamp(object.created), column: true }
+
+/** Renderers keyed on the Stripe `object` field. */
+export const STRIPE_OBJECT_RENDERERS: Record<string, StripeObjectRenderer> = {
+  customer: {
+    name: "Customer",
+    title: object => text(object.name ?? object.email ?? object.id),
+    fields: [
+      { label: "Email", value: object => text(object.email), column: true },
+      { label: "Phone", value: object => text(object.phone) },
+      { label: "Balance", value: object => formatStripeAmount(object.balance, object.currency) },
+      createdField,
+    ],
+  },
+  invoice: {
+    name: "Invoice",
+    title: object => text(object.number ?? object.id),
+    status: statusField,
+    fields: [
+      { label: "Customer", value: object => referenceId(object.customer), column: true },
+      { label: "Amount due", value: object => formatStripeAmount(object.amount_due, object.currency), column: true },
+      { label: "Amount paid", value: object => formatStripeAmount(object.amount_paid, object.currency) },
+      { label: "Due", value: object => formatStripeTimestamp(object.due_date) },
+      createdField,
+    ],
+  },
+  subscription: {
+    name: "Subscription",
+    title: object => text(object.id),
+    status: statusField,
+    fields: [
+      { label: "Customer", value: object => referenceId(object.customer), column: true },
+      {
+        label: "Price",
+        value: object => {
+          const items = (object.items as { data?: Array<{ price?: unknown }> } | undefined)?.data ?? []
+          return items.length > 0 ? items.map(item => priceAmount(item.price)).join(", ") : "—"
+        },
+        column: true,
+      },
+      { label: "Cancels at period end", value: object => yesNo(object.cancel_at_period_end) },
+      createdField,
+    ],
+  },
+  payment_intent: {
+    name: "Payment",
+    title: object => formatStripeAmount(object.amount, object.currency),
+    status: statusField,
+    fields: [
+      { label: "Amount", value: object => formatStripeAmount(object.amount, object.currency), column: true },
+      { label: "Customer", value: object => referenceId(object.customer), column: true },
+      { label: "Description", value: object => text(object.description) },
+      createdField,
+    ],
+  },
+  charge: {
+    name: "Charge",
+    title: object => formatStripeAmount(object.amount, object.currency),
+    status: object => (object.refunded ? "refunded" : statusField(object)),
+    fields: [
+      { label: "Amount", value: object => formatStripeAmount(object.amount, object.currency), column: true },
+      { label: "Refunded", value: object => formatStripeAmount(object.amount_refunded, object.currency) },
+      { label: "Customer", value: object => referenceId(object.customer), column: true },
+      { label: "Payment intent", value: object => referenceId(object.payment_intent) },
+      createdField,
+    ],
+  },
+  refund: {
+    name: "Refund",
+    title: object => formatStripeAmount(object.amount, object.currency),
+    status: statusField,
+    fields: [
+      { label: "Amount", value: object => formatStripeAmount(object.amount, object.currency), column: true },
+      { label: "Charge", value: object => referenceId(object.charge), column: true },
+      { label: "Payment intent", value: object => referenceId(object.payment_intent) },
+      { label: "Reason", value: object => text(object.reason) },
+      createdField,
+    ],
+  },
+  product: {
+    name: "Product",
+    title: object => text(object.name ?? object.id),
+    status: activeStatus,
+    fields: [
+      { label: "Name", value: object => text(object.name), column: true },
+      { label: "Description", value: object => text(object.description) },
+      { label: "Default price", value: object => referenceId(object.default_price) },
+      createdField,
+    ],
+  },
+  price: {
+    name: "Price",
+    title: object => priceAmount(object),
+    status: activeStatus,
+    fields: [
+      { label: "Amount", value: object => priceAmount(object), column: true },
+      { label: "Product", value: object => referenceId(object.product), column: true },
+      { label: "Nickname", value: object => text(object.nickname) },
+      createdField,
+    ],
+  },
+  payment_link: {
+    name: "Payment link",
+    title: object => text(object.id),
+    status: activeStatus,
+    fields: [
+      {
+        label: "URL",
+        value: object => httpsLink(object.url),
+        column: true,
+      },
+    ],
+  },
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: "bg-green-100 text-green-800",
+  paid: "bg-green-100 text-green-800",
+  active: "bg-green-100 text-green-800",
+  trialing: "bg-blue-100 text-blue-800",
+  open: "bg-blue-100 text-blue-800",
+  draft: "bg-muted text-muted-foreground",
+  inactive: "bg-muted text-muted-foreground",
+  pending: "bg-amber-100 text-amber-800",
+  processing: "bg-amber-100 text-amber-800",
+  past_due: "bg-amber-100 text-amber-800",
+  incomplete: "bg-amber-100 text-amber-800",
+  refunded: "bg-purple-100 text-purple-800",
+  failed: "bg-red-100 text-red-700",
+  canceled: "bg-red-100 text-red-700",
+  uncollectible: "bg-red-100 text-red-700",
+  void: "bg-red-100 text-red-700",
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const style = STATUS_STYLES[status] ?? (status.startsWith("requires_") ? STATUS_STYLES.pending : undefined)
+  return (
+    <Badge variant="secondary" className={cn("capitalize", style)}>
+      {status.replace(/_/g, " ")}
+    </Badge>
+  )
+}
+
+function CopyIdButton({ id }: { id: string }) {
+  const [copied, setCopied] = useState(false)
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(id)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (error) {
+      console.warn("Failed to copy id", error)
+    }
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 font-mono text-xs">
+      {id}
+      <Button variant="ghost" size="icon" className="size-5" onClick={copy} aria-label={`Copy ${id}`}>
+        {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+      </Button>
+    </span>
+  )
+}
+
+function DashboardLink({ object }: { object: StripeObject }) {
+  const url = getStripeDashboardUrl(object)
+  if (!url) return null
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      aria-label="Open in Stripe Dashboard"
+    >
+      <ExternalLink className="w-3 h-3" />
+      Dashboard
+    </a>
+  )
+}
+
+function StripeObjectCard({ object, renderer }: { object: StripeObject; renderer: StripeObjectRenderer }) {
+  const status = renderer.status?.(object)
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2 bg-background">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs uppercase opacity-70">{renderer.name}</span>
+        <span className="font-semibold">{renderer.title(object)}</span>
+        {status && <StatusBadge status={status} />}
+        <span className="ml-auto">
+          <DashboardLink object={object} />
+        </span>
+      </div>
+      {object.id && <CopyIdButton id={object.id} />}
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+        {renderer.fields.map(field => (
+          <div key={field.label} className="contents">
+            <dt className="opacity-70">{field.label}</dt>
+            <dd>{field.value(object)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  )
+}
+
+function StripeObjectTable({
+  objects,
+  renderer,
+  hasMore,
+}: {
+  objects: StripeObject[]
+  renderer: StripeObjectRenderer
+  hasMore: boolean
+}) {
+  const columns = renderer.fields.filter(field => field.column)
+
+  return (
+    <div className="border rounded-lg bg-background">
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead>ID</TableHead>
+            {columns.map(column => (
+              <TableHead key={column.label}>{column.label}</TableHead>
+            ))}
+            {renderer.status && <TableHead>Status</TableHead>}
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {objects.map((object, index) => {
+            const status = renderer.status?.(object)
+            return (
+              <TableRow key={object.id ?? index}>
+                <TableCell>{object.id ? <CopyIdButton id={object.id} /> : "—"}</TableCell>
+                {columns.map(column => (
+                  <TableCell key={column.label}>{column.value(object)}</TableCell>
+                ))}
+                {renderer.status && <TableCell>{status && <StatusBadge status={status} />}</TableCell>}
+                <TableCell>
+                  <DashboardLink object={object} />
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+      <div className="px-2 py-1 text-xs opacity-70 border-t">
+        {objects.length} {renderer.name.toLowerCase()}
+        {objects.length === 1 ? "" : "s"}
+        {hasMore && " (more available)"}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * The renderer for a Stripe `object` type. Tool output is untrusted, so names
+ * like `constructor` must not reach the table's prototype.
+ */
+export const getStripeObjectRenderer = (type: string | undefined): StripeObjectRenderer | undefined =>
+  type !== undefined && Object.hasOwn(STRIPE_OBJECT_RENDERERS, type) ? STRIPE_OBJECT_RENDERERS[type] : undefined
+
+/** Whether the payload consists only of objects we have a renderer for. */
+export const canRenderStripePayload = (payload: StripeObjectPayload): boolean =>
+  payload.kind === "object"
+    ? getStripeObjectRenderer(payload.object.object) !== undefined
+    : payload.objects.length > 0 &&
+      payload.objects.every(object => object.object === payload.objects[0].object) &&
+      getStripeObjectRenderer(payload.objects[0].object) !== undefined
+
+interface StripeObjectDisplayProps {
+  payload: StripeObjectPayload
+}
+
+export function StripeObjectDisplay({ payload }: StripeObjectDisplayProps) {
+  if (payload.kind === "object") {
+    const renderer = getStripeObjectRenderer(payload.object.object)
+    return renderer ? <StripeObjectCard object={payload.object} renderer={renderer} /> : null
+  }
+
+  const renderer = getStripeObjectRenderer(payload.objects[0]?.object)
+  return renderer ? <StripeObjectTable objects={payload.objects} renderer={renderer} hasMore={payload.hasMore} /> : null
+}
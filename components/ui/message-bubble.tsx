@@ -1,4 +1,5 @@
 import { Card } from "@/components/ui/card"
+import type { ReactNode } from "react"
 import { User } from "lucide-react"
 import Image from "next/image"
 import ReactMarkdown from 'react-markdown';
@@ -10,9 +11,11 @@ interface MessageBubbleProps {
   content: string
   isStreaming?: boolean
   showIcon?: boolean
+  /** Controls shown under the bubble while it is hovered or focused. */
+  actions?: ReactNode
 }
 
-export function MessageBubble({ role, content, isStreaming = false, showIcon = true }: MessageBubbleProps) {
+export function MessageBubble({ role, content, isStreaming = false, showIcon = true, actions }: MessageBubbleProps) {
   return (
     <div className={`flex gap-3 ${role === "user" ? "justify-end" : "justify-start"}`}>
       {role === "assistant" && showIcon && (
@@ -24,19 +27,26 @@ export function MessageBubble({ role, content, isStreaming = false, showIcon = t
         <div className="w-8 h-8 shrink-0" />
       )}
 
-      <Card
-        className={`max-w-[80%] p-4 ${role === "user" ? "bg-groq-orange text-white" : "bg-card text-card-foreground border-groq-orange/20"
-          }`}
-      >
-        <div className="prose prose-sm max-w-none list-disc break-words">
-          <div className={`whitespace-pre-wrap leading-relaxed m-0 flex flex-col gap-2 ${role === "user" ? "text-white!" : ""}`}>
-            <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]}>
-              {content}
-            </ReactMarkdown>
-            {isStreaming && <span className="animate-pulse">▋</span>}
+      <div className={`group max-w-[80%] flex flex-col gap-1 ${role === "user" ? "items-end" : "items-start"}`}>
+        <Card
+          className={`p-4 ${role === "user" ? "bg-groq-orange text-white" : "bg-card text-card-foreground border-groq-orange/20"
+            }`}
+        >
+          <div className="prose prose-sm max-w-none list-disc break-words">
+            <div className={`whitespace-pre-wrap leading-relaxed m-0 flex flex-col gap-2 ${role === "user" ? "text-white!" : ""}`}>
+              <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]}>
+                {content}
+              </ReactMarkdown>
+              {isStreaming && <span className="animate-pulse">▋</span>}
+            </div>
           </div>
-        </div>
-      </Card>
+        </Card>
+        {actions && (
+          <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+            {actions}
+          </div>
+        )}
+      </div>
 
       {role === "user" && (
         <div className="flex items-center justify-center w-8 h-8 rounded-full bg-black/10 shrink-0">
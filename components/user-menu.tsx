@@ -0,0 +1,44 @@
+"use client"
+
+import Link from "next/link"
+import { ClipboardList, LogOut, User } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { AuthSession } from "@/lib/auth"
+
+interface UserMenuProps {
+  session: AuthSession | undefined
+  onSignOut: () => void
+}
+
+/**
+ * The signed-in user and their role, with a link to the audit log for roles
+ * that may read it and a sign-out button; hidden when sign-in is off.
+ */
+export function UserMenu({ session, onSignOut }: UserMenuProps) {
+  const user = session?.user
+  if (!user || session.provider === "none") return null
+
+  return (
+    <div className="flex items-center gap-2 px-2 py-1 text-sm">
+      <User className="w-4 h-4 shrink-0 text-muted-foreground" />
+      <div className="flex-1 min-w-0">
+        <div className="truncate font-medium">{user.name}</div>
+        {(user.email || session.role) && (
+          <div className="truncate text-xs text-muted-foreground">
+            {[user.email, session.role?.name].filter(Boolean).join(" · ")}
+          </div>
+        )}
+      </div>
+      {session.role?.audit && (
+        <Button variant="ghost" size="icon" className="size-7" asChild>
+          <Link href="/audit" aria-label="Audit log">
+            <ClipboardList className="w-4 h-4" />
+          </Link>
+        </Button>
+      )}
+      <Button variant="ghost" size="icon" className="size-7" onClick={onSignOut} aria-label="Sign out">
+        <LogOut className="w-4 h-4" />
+      </Button>
+    </div>
+  )
+}
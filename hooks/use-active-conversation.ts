@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { createConversationId, getUserStorageKey } from "@/lib/conversation-storage";
+
+const STORAGE_NAME = "active-conversation";
+
+export interface UseActiveConversationResult {
+    /** Undefined until the user is known and their stored id has been read on the client. */
+    conversationId: string | undefined;
+    selectConversation: (id: string) => void;
+    startNewConversation: () => void;
+}
+
+/**
+ * Remembers which conversation `userId` had open so a reload resumes it.
+ * Pass undefined while the signed-in user is loading.
+ */
+export const useActiveConversation = (userId: string | undefined): UseActiveConversationResult => {
+    const [conversationId, setConversationId] = useState<string>();
+
+    const activate = useCallback(
+        (id: string) => {
+            if (userId === undefined) return;
+            try {
+                window.localStorage.setItem(getUserStorageKey(userId, STORAGE_NAME), id);
+            } catch (error) {
+                console.warn("Failed to remember active conversation", error);
+            }
+            setConversationId(id);
+        },
+        [userId],
+    );
+
+    useEffect(() => {
+        if (userId === undefined) {
+            setConversationId(undefined);
+            return;
+        }
+        activate(window.localStorage.getItem(getUserStorageKey(userId, STORAGE_NAME)) ?? createConversationId());
+    }, [activate, userId]);
+
+    const startNewConversation = useCallback(() => {
+        activate(createConversationId());
+    }, [activate]);
+
+    return { conversationId, selectConversation: activate, startNewConversation };
+};
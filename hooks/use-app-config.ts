@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+
+import type { AppConfig } from "@/lib/app-config";
+
+const DEFAULT_ENDPOINT = "/api/config";
+
+/** Loads the public app configuration; undefined until it arrives. */
+export const useAppConfig = (endpoint: string = DEFAULT_ENDPOINT): AppConfig | undefined => {
+    const [config, setConfig] = useState<AppConfig>();
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(endpoint)
+            .then((response) => {
+                if (!response.ok) {
+                    throw new Error(`Failed to load app config: ${response.status} ${response.statusText}`);
+                }
+                return response.json() as Promise<AppConfig>;
+            })
+            .then((loaded) => {
+                if (!cancelled) setConfig(loaded);
+            })
+            .catch((error) => {
+                console.warn(error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [endpoint]);
+
+    return config;
+};
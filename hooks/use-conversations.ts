@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useState } from "react";
+
+import {
+    getDefaultConversationStorage,
+    type ConversationStorage,
+    type StoredConversationSummary,
+} from "@/lib/conversation-storage";
+import { getConversationManager } from "@/lib/conversations";
+
+export interface UseConversationsResult {
+    conversations: ReadonlyArray<StoredConversationSummary>;
+    rename: (id: string, title: string) => Promise<void>;
+    setPinned: (id: string, pinned: boolean) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+}
+
+const NO_CONVERSATIONS: ReadonlyArray<StoredConversationSummary> = [];
+
+/**
+ * Saved conversations, most recent first, shared with `useResponses`. Pass
+ * `null` while it is not yet known whose conversations to list.
+ */
+export const useConversations = (storage?: ConversationStorage | null): UseConversationsResult => {
+    const [defaultStorage] = useState(getDefaultConversationStorage);
+    const manager = useMemo(
+        () => (storage === null ? undefined : getConversationManager(storage ?? defaultStorage)),
+        [storage, defaultStorage],
+    );
+    const [conversations, setConversations] = useState(manager?.getSummaries() ?? NO_CONVERSATIONS);
+
+    useEffect(() => {
+        if (!manager) {
+            setConversations(NO_CONVERSATIONS);
+            return;
+        }
+        setConversations(manager.getSummaries());
+        return manager.subscribe((summaries) => {
+            setConversations(summaries);
+        });
+    }, [manager]);
+
+    return useMemo(
+        () => ({
+            conversations,
+            rename: async (id: string, title: string) => manager?.rename(id, title),
+            setPinned: async (id: string, pinned: boolean) => manager?.setPinned(id, pinned),
+            remove: async (id: string) => manager?.remove(id),
+        }),
+        [conversations, manager],
+    );
+};
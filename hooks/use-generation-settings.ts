@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { DEFAULT_GENERATION_SETTINGS, findModel, type GenerationSettings } from "@/lib/models";
+
+const STORAGE_KEY = "groq-stripe-chat:generation-settings";
+
+const readStoredSettings = (): GenerationSettings => {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_GENERATION_SETTINGS;
+        const stored = { ...DEFAULT_GENERATION_SETTINGS, ...(JSON.parse(raw) as Partial<GenerationSettings>) };
+        // Drop a model that has since been removed from the allowlist.
+        if (!findModel(stored.model)) {
+            stored.model = DEFAULT_GENERATION_SETTINGS.model;
+        }
+        return stored;
+    } catch {
+        return DEFAULT_GENERATION_SETTINGS;
+    }
+};
+
+export interface UseGenerationSettingsResult {
+    settings: GenerationSettings;
+    updateSettings: (patch: Partial<GenerationSettings>) => void;
+    resetSettings: () => void;
+}
+
+/** Generation settings persisted in localStorage across reloads. */
+export const useGenerationSettings = (): UseGenerationSettingsResult => {
+    const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+
+    useEffect(() => {
+        setSettings(readStoredSettings());
+    }, []);
+
+    const persist = useCallback((next: GenerationSettings) => {
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        } catch (error) {
+            console.warn("Failed to persist generation settings", error);
+        }
+    }, []);
+
+    const updateSettings = useCallback(
+        (patch: Partial<GenerationSettings>) => {
+            setSettings((current) => {
+                const next = { ...current, ...patch };
+                persist(next);
+                return next;
+            });
+        },
+        [persist],
+    );
+
+    const resetSettings = useCallback(() => {
+        window.localStorage.removeItem(STORAGE_KEY);
+        setSettings(DEFAULT_GENERATION_SETTINGS);
+    }, []);
+
+    return { settings, updateSettings, resetSettings };
+};
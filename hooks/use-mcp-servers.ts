@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import type { McpServerInfo } from "@/lib/mcp-servers";
+
+const DEFAULT_ENDPOINT = "/api/mcp-servers";
+const NO_LABELS: ReadonlyArray<string> = [];
+
+export interface UseMcpServersResult {
+    servers: ReadonlyArray<McpServerInfo>;
+    /** Labels currently switched on, or undefined until the registry has loaded. */
+    enabledLabels: ReadonlyArray<string> | undefined;
+    isEnabled: (label: string) => boolean;
+    setEnabled: (label: string, enabled: boolean) => void;
+}
+
+/**
+ * The registered MCP servers and which are switched on. Servers listed in
+ * `credentialedLabels` have a credential from elsewhere, such as a saved
+ * Stripe account, and count as available without one on the server.
+ */
+export const useMcpServers = (
+    endpoint: string = DEFAULT_ENDPOINT,
+    credentialedLabels: ReadonlyArray<string> = NO_LABELS,
+): UseMcpServersResult => {
+    const [servers, setServers] = useState<McpServerInfo[]>([]);
+    const [overrides, setOverrides] = useState<Record<string, boolean>>({});
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(endpoint)
+            .then((response) => {
+                if (!response.ok) {
+                    throw new Error(`Failed to load MCP servers: ${response.status} ${response.statusText}`);
+                }
+                return response.json() as Promise<{ servers: McpServerInfo[] }>;
+            })
+            .then(({ servers: loadedServers }) => {
+                if (cancelled) return;
+                setServers(loadedServers);
+                setLoaded(true);
+            })
+            .catch((error) => {
+                console.warn(error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [endpoint]);
+
+    const availableServers = useMemo(
+        () =>
+            servers.map((server) =>
+                !server.available && credentialedLabels.includes(server.label) ? { ...server, available: true } : server,
+            ),
+        [servers, credentialedLabels],
+    );
+
+    const isEnabled = useCallback(
+        (label: string) => {
+            const server = availableServers.find((candidate) => candidate.label === label);
+            if (!server?.available) return false;
+            return overrides[label] ?? server.enabled;
+        },
+        [availableServers, overrides],
+    );
+
+    const setEnabled = useCallback((label: string, enabled: boolean) => {
+        setOverrides((current) => ({ ...current, [label]: enabled }));
+    }, []);
+
+    const enabledLabels = useMemo(
+        () =>
+            loaded ? availableServers.filter((server) => isEnabled(server.label)).map((server) => server.label) : undefined,
+        [loaded, availableServers, isEnabled],
+    );
+
+    return { servers: availableServers, enabledLabels, isEnabled, setEnabled };
+};
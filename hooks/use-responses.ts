@@ -1,14 +1,34 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type {
-    ResponseErrorEvent,
     ResponseInputItem,
+    ResponseOutputItem,
     ResponseStreamEvent,
 } from "openai/resources/responses/responses";
 
+import type { BranchPointInfo } from "@/lib/conversation-branches";
+import {
+    createConversationId,
+    getDefaultConversationStorage,
+    type ConversationStorage,
+} from "@/lib/conversation-storage";
+import { getConversationManager } from "@/lib/conversations";
+import { toChatErrorEvent, type UpstreamFailure } from "@/lib/chat-errors";
+import {
+    APPROVAL_REQUEST_NOT_FOUND,
+    getStreamResumeUrl,
+    PREVIOUS_RESPONSE_NOT_FOUND,
+    STREAM_ID_HEADER,
+    type ChatRequestBody,
+} from "@/lib/chat-request";
+import { toInputItems, toViewMessage, toViewMessages, type ChatViewMessage } from "@/lib/message-mapping";
+import { DEFAULT_GENERATION_SETTINGS, findModel, toGenerationParams, type GenerationSettings } from "@/lib/models";
 import {
     ResponseSession,
     type ResponseSessionMessage,
 } from "@/lib/responses";
+import { decodeServerSentEvents } from "@/lib/sse";
+import { replayStreamRecording, type ReplayOptions, type StreamRecording } from "@/lib/stream-recording";
+import { STRIPE_ACCOUNT_ID_METADATA, STRIPE_ACCOUNT_NAME_METADATA } from "@/lib/stripe-accounts";
 
 const DEFAULT_ENDPOINT = "/api/chat";
 
@@ -18,231 +38,698 @@ const createUserMessage = (text: string): ResponseInputItem => ({
     content: text,
 });
 
+const createQueuedMessageId = (): string =>
+    `queued_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
 type UseResponsesSnapshot = ReturnType<ResponseSession["getSnapshot"]>;
 
+/** A user message waiting for the response in flight to complete. */
+export interface QueuedMessage {
+    id: string;
+    text: string;
+}
+
+export interface SendMessageOptions {
+    /** Cancel the response in flight and send right away instead of queueing. */
+    interrupt?: boolean;
+}
+
 export interface UseResponsesResult {
-    messages: ReadonlyArray<ResponseInputItem>;
+    messages: ReadonlyArray<ChatViewMessage>;
     status: UseResponsesSnapshot["status"];
     error: UseResponsesSnapshot["error"];
-    sendMessage: (text: string) => Promise<void>;
+    /** Approval requests the user has not approved or denied yet. */
+    pendingApprovals: ReadonlyArray<ResponseOutputItem.McpApprovalRequest>;
+    /**
+     * Sends a user message. While a response is streaming the message is
+     * queued and sent once that response completes.
+     */
+    sendMessage: (text: string, options?: SendMessageOptions) => Promise<void>;
+    /** Messages waiting to be sent, oldest first. */
+    queuedMessages: ReadonlyArray<QueuedMessage>;
+    updateQueuedMessage: (id: string, text: string) => void;
+    removeQueuedMessage: (id: string) => void;
+    /** Takes a message out of the queue and sends it, cancelling the response in flight. */
+    sendQueuedMessageNow: (id: string) => Promise<void>;
     sendMcpApprovalResponse: (approvalRequestId: string, approve: boolean) => Promise<void>;
     cancel: () => void;
+    /**
+     * Drops the answer to the last user message and asks for a new one. The
+     * dropped answer is kept in `previousVariants`.
+     */
+    regenerate: () => Promise<void>;
+    /**
+     * Clears the error, drops whatever the failed response produced after the
+     * last input, and sends that input again.
+     */
+    retryFromError: () => Promise<void>;
+    /**
+     * Earlier answers to the last user message that `regenerate()` replaced,
+     * oldest first. Kept in memory until the next user message.
+     */
+    previousVariants: ReadonlyArray<ReadonlyArray<ChatViewMessage>>;
+    /**
+     * Rewrites the user message at `index` of `messages` on a new branch and
+     * asks for an answer to it. The previous version stays in `branches`.
+     */
+    editMessage: (index: number, text: string) => Promise<void>;
+    /** User messages that have more than one version, by index in `messages`. */
+    branches: ReadonlyArray<BranchPointInfo>;
+    /** Shows another version of the conversation from the message at `index` on. */
+    switchBranch: (index: number, branch: number) => Promise<void>;
+    /**
+     * Plays a recorded `/api/chat` stream into the conversation instead of
+     * calling the endpoint. `cancel()` stops playback.
+     */
+    replay: (recording: StreamRecording, options?: Omit<ReplayOptions, "signal">) => Promise<void>;
 }
 
-export interface UseResponsesOptions {
+export interface UseResponsesOptions extends Partial<GenerationSettings> {
     /** Optional override for the server endpoint streaming OpenAI events. */
     endpoint?: string;
+    /**
+     * Labels of the MCP servers to attach to each request. When omitted the
+     * server registry's defaults apply.
+     */
+    servers?: ReadonlyArray<string>;
+    /** Id of a saved Stripe account to use instead of the server's key. */
+    stripeAccount?: string;
+    /** How that account, or the server's key, is shown; kept with each turn that uses it. */
+    stripeAccountName?: string;
+    /**
+     * Persists the transcript under this id and rehydrates it on mount. Without
+     * an id the conversation lives only as long as the component.
+     */
+    conversationId?: string;
+    /** Where conversations are persisted. Defaults to localStorage. */
+    storage?: ConversationStorage;
+    /**
+     * `full` replays the whole transcript on every turn. `previous_response`
+     * sends only new inputs plus `previous_response_id`, falling back to a
+     * full replay when the upstream no longer has the response.
+     */
+    historyMode?: "full" | "previous_response";
 }
 
-const transformMessage = (message: ResponseSessionMessage): ResponseInputItem | undefined => {
-    if (message.kind === "input" || message.kind === "output") {
-        if (message.item.type === "reasoning") {
-            const hasContent = message.item.content?.some((m) => m.text !== "");
-            if (!hasContent) {
-                return;
-            }
-            return {
-                type: "message",
-                role: "assistant",
-                content: `<reasoning>${message.item.content?.map((m) => m.text).join(" ")}</reasoning>`,
-            }
+const getPendingApprovals = (
+    messages: ReadonlyArray<ResponseSessionMessage>,
+): ResponseOutputItem.McpApprovalRequest[] => {
+    const respondedIds = new Set<string>();
+    messages.forEach((msg) => {
+        if (msg.kind === "input" && msg.item.type === "mcp_approval_response") {
+            respondedIds.add(msg.item.approval_request_id);
         }
+    });
 
-        if (message.item.type === "message" && message.item.role === "assistant") {
-            return {
-                type: "message",
-                role: "assistant",
-                content: (message.item.content as any).map((m: any) => m.text).join(" "),
-            }
+    const pending: ResponseOutputItem.McpApprovalRequest[] = [];
+    messages.forEach((msg) => {
+        if (msg.kind === "output" && msg.item.type === "mcp_approval_request" && !respondedIds.has(msg.item.id)) {
+            pending.push(msg.item);
         }
+    });
+    return pending;
+}
+
+const findLastIndex = (
+    messages: ReadonlyArray<ResponseSessionMessage>,
+    predicate: (message: ResponseSessionMessage) => boolean,
+): number => {
+    for (let index = messages.length - 1; index >= 0; index--) {
+        if (predicate(messages[index])) return index;
+    }
+    return -1;
+}
+
+const isUserMessage = (message: ResponseSessionMessage): boolean =>
+    message.kind === "input" && "role" in message.item && message.item.role === "user";
 
-        return message.item;
+interface TurnVariants {
+    conversationId: string;
+    variants: ReadonlyArray<ChatViewMessage>[];
+}
+
+const NO_VARIANTS: ReadonlyArray<ReadonlyArray<ChatViewMessage>> = [];
+const NO_QUEUED_MESSAGES: ReadonlyArray<QueuedMessage> = [];
+
+type HistoryPayload = Pick<ChatRequestBody, "messages" | "previous_response_id" | "store">;
+
+/**
+ * Inputs to send for the next turn. When chaining, only the inputs added after
+ * the last completed response are sent along with its id; otherwise the whole
+ * transcript is replayed.
+ */
+const buildHistoryPayload = (
+    session: ResponseSession,
+    chainResponses: boolean,
+    includeReasoning: boolean,
+): HistoryPayload => {
+    const messages = session.getMessages();
+    const previous = session.getResponse();
+
+    if (chainResponses && previous?.id && previous.status === "completed") {
+        let firstNew = messages.length;
+        while (firstNew > 0 && messages[firstNew - 1].kind === "input") {
+            firstNew--;
+        }
+        const newInputs = messages.slice(firstNew).map((message) => message.item as ResponseInputItem);
+        if (firstNew > 0 && newInputs.length > 0) {
+            return { messages: newInputs, previous_response_id: previous.id, store: true };
+        }
     }
 
-    // Fallback for unknown message types
     return {
-        type: "message",
-        role: "user",
-        content: "",
+        messages: toInputItems(messages, { includeReasoning }),
+        store: chainResponses || undefined,
     };
 }
 
+/** A failure seen by the hook itself rather than reported in the stream. */
+class ChatRequestError extends Error {
+    public constructor(public readonly failure: UpstreamFailure) {
+        super(failure.message);
+        this.name = "ChatRequestError";
+    }
+}
+
+const MAX_RESUME_ATTEMPTS = 5;
+const RESUME_BACKOFF_MS = 500;
+const MAX_RESUME_BACKOFF_MS = 8000;
+
+const waitForRetry = (ms: number, signal: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException("Resume aborted", "AbortError"));
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+const TERMINAL_EVENT_TYPES = new Set<ResponseStreamEvent["type"]>([
+    "response.completed",
+    "response.failed",
+    "response.incomplete",
+    "error",
+]);
+
+interface EventStreamSource {
+    body: ReadableStream<Uint8Array>;
+    /** Buffered stream behind the response; without one a drop cannot be resumed. */
+    resumeUrl?: string;
+    signal: AbortSignal;
+}
+
+/**
+ * Feeds SSE `data:` events into the session until the stream ends. When the
+ * connection drops mid-response it reconnects with backoff, asking for the
+ * events after the last sequence number the session applied and skipping any
+ * it has already seen.
+ */
+const readEventStream = async (
+    { body, resumeUrl, signal }: EventStreamSource,
+    session: ResponseSession,
+): Promise<{ previousResponseRejected: boolean }> => {
+    let previousResponseRejected = false;
+    const handle = (event: ResponseStreamEvent) => {
+        if (event.type === "error" && event.code === PREVIOUS_RESPONSE_NOT_FOUND) {
+            previousResponseRejected = true;
+            return;
+        }
+        session.handleEvent(event);
+    };
+
+    let current: ReadableStream<Uint8Array> | undefined = body;
+    let resumeAfter: number | undefined;
+    let attempts = 0;
+    let finished = false;
+    let applied = false;
+
+    while (true) {
+        let dropped: unknown;
+        let received = 0;
+        if (current) {
+            try {
+                for await (const message of decodeServerSentEvents(current)) {
+                    attempts = 0;
+                    const id = message.id === "" ? NaN : Number(message.id);
+                    if (resumeAfter !== undefined && id <= resumeAfter) continue;
+                    if (message.data === "[DONE]") continue;
+                    received++;
+                    try {
+                        const event = JSON.parse(message.data) as ResponseStreamEvent;
+                        finished ||= TERMINAL_EVENT_TYPES.has(event.type);
+                        applied = true;
+                        handle(event);
+                    } catch (parseError) {
+                        console.warn("Failed to parse stream event", parseError, { data: message.data });
+                    }
+                }
+            } catch (error) {
+                if (signal.aborted) throw error;
+                dropped = error;
+            }
+
+            // A clean end before the response finished means something between
+            // us and the server cut the connection. A resume that brings nothing
+            // new means the server has nothing more to send.
+            if (!dropped && (finished || (resumeAfter !== undefined && received === 0))) break;
+        }
+
+        if (!resumeUrl || attempts >= MAX_RESUME_ATTEMPTS) {
+            if (dropped) throw dropped;
+            break;
+        }
+
+        attempts++;
+        await waitForRetry(Math.min(RESUME_BACKOFF_MS * 2 ** (attempts - 1), MAX_RESUME_BACKOFF_MS), signal);
+
+        // Until this stream's response.created arrives the session still
+        // holds the previous response's numbering.
+        resumeAfter = applied ? session.getLastSequenceNumber() : -1;
+        current = undefined;
+        let resumed: globalThis.Response;
+        try {
+            resumed = await fetch(resumeUrl, {
+                headers: { "Last-Event-ID": String(resumeAfter) },
+                signal,
+            });
+        } catch (error) {
+            if (signal.aborted) throw error;
+            continue;
+        }
+        if (resumed.status === 404) {
+            throw new ChatRequestError({
+                message: "The connection dropped and the response is no longer available to resume",
+                code: "network",
+            });
+        }
+        if (resumed.ok && resumed.body) {
+            current = resumed.body;
+        }
+    }
+
+    return { previousResponseRejected };
+}
+
 export const useResponses = (options?: UseResponsesOptions): UseResponsesResult => {
     const endpoint = options?.endpoint ?? DEFAULT_ENDPOINT;
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
 
-    const sessionRef = useRef<ResponseSession>();
-    if (!sessionRef.current) {
-        sessionRef.current = new ResponseSession();
-    }
+    const [defaultStorage] = useState(getDefaultConversationStorage);
+    const manager = useMemo(
+        () => getConversationManager(options?.storage ?? defaultStorage),
+        [options?.storage, defaultStorage],
+    );
+
+    // Without a conversation id the transcript is kept in memory only.
+    const [ephemeralId] = useState(createConversationId);
+    const conversationId = options?.conversationId ?? ephemeralId;
+    const persist = options?.conversationId !== undefined;
+    const conversationIdRef = useRef(conversationId);
+    conversationIdRef.current = conversationId;
+
+    const [session, setSession] = useState(() => manager.peek(conversationId) ?? new ResponseSession());
 
     const [{ messages, status, error }, setSnapshot] = useState<UseResponsesSnapshot>(
-        sessionRef.current.getSnapshot(),
+        session.getSnapshot(),
     );
-    const transformedMessages = useMemo(() => messages.map(transformMessage).filter(message => message !== undefined), [messages]);
+    const viewMessages = useMemo(() => toViewMessages(messages), [messages]);
+    const pendingApprovals = useMemo(() => getPendingApprovals(messages), [messages]);
+
+    const [turnVariants, setTurnVariants] = useState<TurnVariants>();
+    const previousVariants =
+        turnVariants?.conversationId === conversationId ? turnVariants.variants : NO_VARIANTS;
 
-    const abortRef = useRef<AbortController | null>(null);
-    const streamingRef = useRef(false);
+    // Branches only change along with the transcript, so follow its snapshots.
+    const branches = useMemo(
+        () => manager.getBranches(conversationId)?.getBranchPoints() ?? [],
+        [manager, conversationId, messages],
+    );
 
     useEffect(() => {
-        const session = sessionRef.current!;
+        let cancelled = false;
+        const cached = manager.peek(conversationId);
+        if (cached) {
+            setSession(cached);
+            return;
+        }
+
+        // Show an empty transcript rather than the previous thread while loading.
+        const placeholder = new ResponseSession();
+        setSession(placeholder);
+
+        void manager.open(conversationId, { persist }).then((loaded) => {
+            if (cancelled) return;
+            setSession(loaded);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [manager, conversationId, persist]);
+
+    useEffect(() => {
+        setSnapshot(session.getSnapshot());
         const unsubscribe = session.on("change", (snapshot) => {
             setSnapshot(snapshot);
         });
         return unsubscribe;
-    }, []);
+    }, [session]);
 
-    const cancel = useCallback(() => {
-        const controller = abortRef.current;
-        if (controller) {
-            controller.abort();
-            abortRef.current = null;
-            streamingRef.current = false;
+    // Resume URLs of in-flight chat streams, by conversation.
+    const activeStreamsRef = useRef(new Map<string, string | undefined>());
+
+    /** Generation outlives the request so it can be resumed; stop it explicitly. */
+    const stopServerStream = useCallback((id: string) => {
+        const resumeUrl = activeStreamsRef.current.get(id);
+        activeStreamsRef.current.delete(id);
+        if (resumeUrl) {
+            void fetch(resumeUrl, { method: "DELETE", keepalive: true }).catch(() => undefined);
         }
     }, []);
 
-    const sendMessage = useCallback(
-        async (text: string, skipEmptyCheck = false) => {
-            if (!text.trim() && !skipEmptyCheck) return;
+    // Messages typed while a response streams, by conversation.
+    const queuesRef = useRef(new Map<string, ReadonlyArray<QueuedMessage>>());
+    const [queuedMessages, setQueuedMessages] = useState(NO_QUEUED_MESSAGES);
 
-            const session = sessionRef.current!;
+    useEffect(() => {
+        setQueuedMessages(queuesRef.current.get(conversationId) ?? NO_QUEUED_MESSAGES);
+    }, [conversationId]);
+
+    const updateQueue = useCallback(
+        (id: string, update: (queue: ReadonlyArray<QueuedMessage>) => ReadonlyArray<QueuedMessage>) => {
+            const next = update(queuesRef.current.get(id) ?? NO_QUEUED_MESSAGES);
+            if (next.length > 0) {
+                queuesRef.current.set(id, next);
+            } else {
+                queuesRef.current.delete(id);
+            }
+            if (id === conversationIdRef.current) {
+                setQueuedMessages(next.length > 0 ? next : NO_QUEUED_MESSAGES);
+            }
+        },
+        [],
+    );
 
-            if (streamingRef.current) {
-                cancel();
+    const cancel = useCallback(() => {
+        const id = conversationIdRef.current;
+        if (!manager.isStreaming(id)) return;
+        manager.cancelStream(id);
+        stopServerStream(id);
+        // The aborted fetch delivers nothing more, so close the response here.
+        manager.peek(id)?.cancel();
+    }, [manager, stopServerStream]);
+
+    /** Streams the next turn, after adding `text` as a user message unless it is empty. */
+    const streamTurn = useCallback(
+        async (text: string, id: string = conversationIdRef.current) => {
+            const session = await manager.open(id, { persist });
+
+            if (manager.isStreaming(id)) {
+                manager.cancelStream(id);
+                stopServerStream(id);
+                session.cancel();
             }
 
             if (text.trim()) {
+                setTurnVariants(undefined);
                 const userMessage = createUserMessage(text.trim());
                 session.addInput(userMessage);
             }
 
-            const controller = new AbortController();
-            abortRef.current = controller;
-            streamingRef.current = true;
-
-            try {
-                const payloadInputs = session
-                    .getMessages()
-                    .map(transformMessage);
-
-                const response = await fetch(endpoint, {
-                    method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({ messages: payloadInputs }),
-                    signal: controller.signal,
+            const { stripeAccount, stripeAccountName } = optionsRef.current ?? {};
+            if (stripeAccountName !== undefined) {
+                session.setPendingInputMetadata({
+                    [STRIPE_ACCOUNT_NAME_METADATA]: stripeAccountName,
+                    ...(stripeAccount ? { [STRIPE_ACCOUNT_ID_METADATA]: stripeAccount } : {}),
                 });
+            }
 
-                if (!response.ok || !response.body) {
-                    throw new Error(`Streaming request failed: ${response.status} ${response.statusText}`);
-                }
-
-                const reader = response.body.getReader();
-                const decoder = new TextDecoder();
-                let buffer = "";
+            const controller = manager.beginStream(id);
+            let chainResponses = optionsRef.current?.historyMode === "previous_response";
 
+            try {
                 while (true) {
-                    const { value, done } = await reader.read();
-                    if (done) break;
-
-                    buffer += decoder.decode(value, { stream: true });
-
-                    let newlineIndex: number;
-                    while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
-                        const line = buffer.slice(0, newlineIndex).trim();
-                        buffer = buffer.slice(newlineIndex + 1);
-                        if (!line) continue;
-                        if (line.startsWith(":")) continue; // comment line in SSE
-
-                        let data = line;
-                        if (data.startsWith("data:")) {
-                            data = data.slice(5).trim();
-                        }
-
-                        if (!data || data === "[DONE]") {
+                    const model = findModel(optionsRef.current?.model ?? DEFAULT_GENERATION_SETTINGS.model);
+                    const history = buildHistoryPayload(session, chainResponses, model?.reasoning ?? false);
+                    const body: ChatRequestBody = {
+                        ...history,
+                        servers: optionsRef.current?.servers,
+                        stripe_account: optionsRef.current?.stripeAccount,
+                        ...toGenerationParams(optionsRef.current ?? {}),
+                    };
+
+                    const response = await fetch(endpoint, {
+                        method: "POST",
+                        headers: {
+                            "Content-Type": "application/json",
+                        },
+                        body: JSON.stringify(body),
+                        signal: controller.signal,
+                    });
+
+                    if (!response.ok || !response.body) {
+                        const details = await response
+                            .json()
+                            .then((body: { error?: { message?: string; type?: string; code?: string } }) => body.error)
+                            .catch(() => undefined);
+                        // The server lost track of the approval request the chained
+                        // turn answers; the full transcript carries it, so replay once.
+                        if (details?.code === APPROVAL_REQUEST_NOT_FOUND && history.previous_response_id) {
+                            chainResponses = false;
                             continue;
                         }
-
-                        try {
-                            const parsed = JSON.parse(data) as ResponseStreamEvent;
-                            session.handleEvent(parsed);
-                        } catch (parseError) {
-                            console.warn("Failed to parse stream event", parseError, { data });
-                        }
+                        throw new ChatRequestError({
+                            message: details?.message ?? `Streaming request failed: ${response.status} ${response.statusText}`,
+                            status: response.status,
+                            headers: response.headers,
+                            code: details?.code ?? details?.type,
+                        });
                     }
-                }
-
-                buffer += decoder.decode(new Uint8Array(), { stream: false });
 
-                if (buffer.trim() && buffer.trim() !== "[DONE]") {
-                    try {
-                        const parsed = JSON.parse(buffer.trim()) as ResponseStreamEvent;
-                        session.handleEvent(parsed);
-                    } catch (parseError) {
-                        console.warn("Failed to parse trailing stream event", parseError, { buffer });
+                    const streamId = response.headers.get(STREAM_ID_HEADER);
+                    const resumeUrl = streamId ? getStreamResumeUrl(endpoint, streamId) : undefined;
+                    activeStreamsRef.current.set(id, resumeUrl);
+                    const { previousResponseRejected } = await readEventStream(
+                        { body: response.body, resumeUrl, signal: controller.signal },
+                        session,
+                    );
+
+                    // The upstream forgot the chained response: replay the whole transcript once.
+                    if (previousResponseRejected && history.previous_response_id) {
+                        chainResponses = false;
+                        continue;
                     }
+                    break;
                 }
             } catch (error_) {
                 if ((error_ as Error).name === "AbortError") {
                     return;
                 }
 
-                const failure: ResponseErrorEvent = {
-                    type: "error",
-                    message: error_ instanceof Error ? error_.message : "Streaming request failed",
-                    sequence_number: 0,
-                    code: "stream_error",
-                    param: null,
-                };
-                sessionRef.current!.handleEvent(failure);
+                // Anything else that escapes is fetch failing to reach the server.
+                const failure: UpstreamFailure =
+                    error_ instanceof ChatRequestError
+                        ? error_.failure
+                        : { message: error_ instanceof Error ? error_.message : "Streaming request failed", code: "network" };
+                session.handleEvent(toChatErrorEvent(failure, session.getLastSequenceNumber() + 1));
             } finally {
-                streamingRef.current = false;
-                if (abortRef.current === controller) {
-                    abortRef.current = null;
+                manager.endStream(id, controller);
+                if (!manager.isStreaming(id)) {
+                    activeStreamsRef.current.delete(id);
                 }
             }
+
+            // A completed turn hands over to the next queued message. After a
+            // failure or a cancel the queue waits for the user.
+            if (
+                manager.isStreaming(id) ||
+                session.getStatus() !== "completed" ||
+                getPendingApprovals(session.getMessages()).length > 0
+            ) {
+                return;
+            }
+            const [next] = queuesRef.current.get(id) ?? NO_QUEUED_MESSAGES;
+            if (next) {
+                updateQueue(id, (queue) => queue.slice(1));
+                void streamTurn(next.text, id);
+            }
+        },
+        [manager, persist, endpoint, stopServerStream, updateQueue],
+    );
+
+    const sendMessage = useCallback(
+        async (text: string, sendOptions?: SendMessageOptions) => {
+            const trimmed = text.trim();
+            if (!trimmed) return;
+
+            const id = conversationIdRef.current;
+            if (manager.isStreaming(id) && !sendOptions?.interrupt) {
+                updateQueue(id, (queue) => [...queue, { id: createQueuedMessageId(), text: trimmed }]);
+                return;
+            }
+            await streamTurn(trimmed, id);
+        },
+        [manager, streamTurn, updateQueue],
+    );
+
+    const updateQueuedMessage = useCallback(
+        (queuedId: string, text: string) => {
+            const trimmed = text.trim();
+            updateQueue(conversationIdRef.current, (queue) =>
+                trimmed
+                    ? queue.map((queued) => (queued.id === queuedId ? { ...queued, text: trimmed } : queued))
+                    : queue.filter((queued) => queued.id !== queuedId),
+            );
+        },
+        [updateQueue],
+    );
+
+    const removeQueuedMessage = useCallback(
+        (queuedId: string) => {
+            updateQueue(conversationIdRef.current, (queue) => queue.filter((queued) => queued.id !== queuedId));
+        },
+        [updateQueue],
+    );
+
+    const sendQueuedMessageNow = useCallback(
+        async (queuedId: string) => {
+            const id = conversationIdRef.current;
+            const queued = queuesRef.current.get(id)?.find((candidate) => candidate.id === queuedId);
+            if (!queued) return;
+            updateQueue(id, (queue) => queue.filter((candidate) => candidate.id !== queuedId));
+            await streamTurn(queued.text, id);
         },
-        [cancel, endpoint],
+        [streamTurn, updateQueue],
+    );
+
+    const regenerate = useCallback(async () => {
+        const id = conversationIdRef.current;
+        if (manager.isStreaming(id)) return;
+        const session = await manager.open(id, { persist });
+        const lastUserIndex = findLastIndex(session.getMessages(), isUserMessage);
+        if (lastUserIndex < 0) return;
+
+        // Read before the resend stamps the current account on the question.
+        const question = session.getMessages()[lastUserIndex];
+        const askedWith = question.kind === "input" ? question.metadata : undefined;
+        const removed = session.truncateAfter(lastUserIndex);
+        if (removed.some((message) => message.kind === "output")) {
+            // Keys continue from the kept prefix so a variant renders after it unchanged.
+            const variant = removed.map((message, offset) =>
+                toViewMessage(message, lastUserIndex + 1 + offset, askedWith),
+            );
+            setTurnVariants((current) => ({
+                conversationId: id,
+                variants: [...(current?.conversationId === id ? current.variants : []), variant],
+            }));
+        }
+        await streamTurn("");
+    }, [manager, persist, streamTurn]);
+
+    const retryFromError = useCallback(async () => {
+        const id = conversationIdRef.current;
+        if (manager.isStreaming(id)) return;
+        const session = await manager.open(id, { persist });
+        // The last input may be an approval response; retrying from it keeps
+        // the approvals the user already gave.
+        const lastInputIndex = findLastIndex(session.getMessages(), (message) => message.kind === "input");
+        if (lastInputIndex < 0) return;
+
+        session.truncateAfter(lastInputIndex);
+        session.clearError();
+        await streamTurn("");
+    }, [manager, persist, streamTurn]);
+
+    const editMessage = useCallback(
+        async (index: number, text: string) => {
+            if (!text.trim()) return;
+            const id = conversationIdRef.current;
+            await manager.open(id, { persist });
+            cancel();
+            manager.getBranches(id)?.edit(index, createUserMessage(text.trim()));
+            setTurnVariants(undefined);
+            await streamTurn("");
+        },
+        [manager, persist, cancel, streamTurn],
+    );
+
+    const switchBranch = useCallback(
+        async (index: number, branch: number) => {
+            const id = conversationIdRef.current;
+            if (manager.isStreaming(id)) return;
+            await manager.open(id, { persist });
+            manager.getBranches(id)?.switchTo(index, branch);
+            setTurnVariants(undefined);
+        },
+        [manager, persist],
     );
 
     const sendMcpApprovalResponse = useCallback(
         async (approvalRequestId: string, approve: boolean) => {
-            const session = sessionRef.current!;
+            const id = conversationIdRef.current;
+            const session = await manager.open(id, { persist });
             session.addApprovalResponse(approvalRequestId, approve);
 
             // Check if all pending approvals have been handled after this response
             const updatedMessages = session.getMessages();
-            const approvalRequests = updatedMessages.filter(
-                (msg): msg is ResponseSessionMessage =>
-                    msg.kind === "output" && msg.item.type === "mcp_approval_request"
-            ) as Array<{ item: { id: string } }>;
-
-            const approvalResponses = updatedMessages.filter(
-                (msg): msg is ResponseSessionMessage =>
-                    msg.kind === "input" && msg.item.type === "mcp_approval_response"
-            ) as Array<{ item: ResponseInputItem.McpApprovalResponse }>;
-
-            const respondedIds = new Set(approvalResponses.map(resp => resp.item.approval_request_id));
-            const remainingPendingIds = approvalRequests
-                .map(req => req.item.id)
-                .filter(id => !respondedIds.has(id));
+            const remainingPending = getPendingApprovals(updatedMessages);
+            const hasApprovalResponses = updatedMessages.some(
+                (msg) => msg.kind === "input" && msg.item.type === "mcp_approval_response",
+            );
 
             // If no pending approvals remain and we're not currently streaming, auto-send
-            if (remainingPendingIds.length === 0 && !streamingRef.current && approvalResponses.length > 0) {
+            if (remainingPending.length === 0 && !manager.isStreaming(id) && hasApprovalResponses) {
                 // Send without user input - just the updated messages with approval responses
-                void sendMessage("", true);
+                void streamTurn("");
             }
         },
-        [sendMessage],
+        [manager, persist, streamTurn],
     );
 
+    const replay = useCallback(
+        async (recording: StreamRecording, replayOptions?: Omit<ReplayOptions, "signal">) => {
+            const id = conversationIdRef.current;
+            const session = await manager.open(id, { persist });
+
+            if (manager.isStreaming(id)) {
+                manager.cancelStream(id);
+            }
+
+            const controller = manager.beginStream(id);
+            try {
+                await replayStreamRecording(recording, session, { ...replayOptions, signal: controller.signal });
+            } catch (error_) {
+                if ((error_ as Error).name !== "AbortError") throw error_;
+            } finally {
+                manager.endStream(id, controller);
+            }
+        },
+        [manager, persist],
+    );
 
     return {
-        messages: transformedMessages,
+        messages: viewMessages,
         status,
         error,
+        pendingApprovals,
         sendMessage,
+        queuedMessages,
+        updateQueuedMessage,
+        removeQueuedMessage,
+        sendQueuedMessageNow,
         sendMcpApprovalResponse,
         cancel,
+        regenerate,
+        retryFromError,
+        previousVariants,
+        editMessage,
+        branches,
+        switchBranch,
+        replay,
     };
 };
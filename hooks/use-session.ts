@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+
+import type { AuthSession } from "@/lib/auth";
+
+const DEFAULT_ENDPOINT = "/api/auth/session";
+const LOGOUT_ENDPOINT = "/api/auth/logout";
+
+export interface UseSessionResult {
+    /** Undefined until it arrives. */
+    session: AuthSession | undefined;
+    signOut: () => Promise<void>;
+}
+
+/** Loads who is signed in, and signs them out. */
+export const useSession = (endpoint: string = DEFAULT_ENDPOINT): UseSessionResult => {
+    const [session, setSession] = useState<AuthSession>();
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(endpoint)
+            .then((response) => {
+                if (!response.ok) {
+                    throw new Error(`Failed to load session: ${response.status} ${response.statusText}`);
+                }
+                return response.json() as Promise<AuthSession>;
+            })
+            .then((loaded) => {
+                if (!cancelled) setSession(loaded);
+            })
+            .catch((error) => {
+                console.warn(error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [endpoint]);
+
+    const signOut = useCallback(async () => {
+        await fetch(LOGOUT_ENDPOINT, { method: "POST" }).catch((error) => {
+            console.warn("Failed to sign out", error);
+        });
+        window.location.assign("/login");
+    }, []);
+
+    return { session, signOut };
+};
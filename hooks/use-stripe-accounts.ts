@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import type { NewStripeAccount, StripeAccountInfo } from "@/lib/stripe-accounts";
+
+const DEFAULT_ENDPOINT = "/api/stripe-accounts";
+const STORAGE_KEY = "groq-stripe-chat:stripe-account";
+
+export interface UseStripeAccountsResult {
+    accounts: ReadonlyArray<StripeAccountInfo>;
+    /** The saved account chats use, or undefined for the server's own key. */
+    activeAccount: StripeAccountInfo | undefined;
+    selectAccount: (id: string | undefined) => void;
+    /** Saves an account and makes it active. Rejects with the server's message. */
+    addAccount: (account: NewStripeAccount) => Promise<void>;
+    removeAccount: (id: string) => Promise<void>;
+}
+
+const readError = async (response: Response, fallback: string): Promise<Error> => {
+    const body = (await response.json().catch(() => undefined)) as { error?: { message?: string } } | undefined;
+    return new Error(body?.error?.message ?? `${fallback}: ${response.status} ${response.statusText}`);
+};
+
+/** The signed-in user's saved Stripe accounts and which one is active in this browser. */
+export const useStripeAccounts = (endpoint: string = DEFAULT_ENDPOINT): UseStripeAccountsResult => {
+    const [accounts, setAccounts] = useState<StripeAccountInfo[]>([]);
+    const [activeId, setActiveId] = useState<string>();
+
+    useEffect(() => {
+        setActiveId(window.localStorage.getItem(STORAGE_KEY) ?? undefined);
+
+        let cancelled = false;
+        fetch(endpoint)
+            .then(async (response) => {
+                if (!response.ok) throw await readError(response, "Failed to load Stripe accounts");
+                return response.json() as Promise<{ accounts: StripeAccountInfo[] }>;
+            })
+            .then(({ accounts: loaded }) => {
+                if (!cancelled) setAccounts(loaded);
+            })
+            .catch((error) => {
+                console.warn(error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [endpoint]);
+
+    const selectAccount = useCallback((id: string | undefined) => {
+        try {
+            if (id) {
+                window.localStorage.setItem(STORAGE_KEY, id);
+            } else {
+                window.localStorage.removeItem(STORAGE_KEY);
+            }
+        } catch (error) {
+            console.warn("Failed to remember Stripe account", error);
+        }
+        setActiveId(id);
+    }, []);
+
+    const addAccount = useCallback(
+        async (account: NewStripeAccount) => {
+            const response = await fetch(endpoint, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(account),
+            });
+            if (!response.ok) throw await readError(response, "Failed to save Stripe account");
+            const { account: saved } = (await response.json()) as { account: StripeAccountInfo };
+            setAccounts((current) => [...current, saved]);
+            selectAccount(saved.id);
+        },
+        [endpoint, selectAccount],
+    );
+
+    const removeAccount = useCallback(
+        async (id: string) => {
+            const response = await fetch(`${endpoint}/${encodeURIComponent(id)}`, { method: "DELETE" });
+            if (!response.ok && response.status !== 404) {
+                throw await readError(response, "Failed to remove Stripe account");
+            }
+            setAccounts((current) => current.filter((account) => account.id !== id));
+            if (id === activeId) selectAccount(undefined);
+        },
+        [endpoint, activeId, selectAccount],
+    );
+
+    // A remembered id may belong to an account removed elsewhere or to another user.
+    const activeAccount = useMemo(() => accounts.find((account) => account.id === activeId), [accounts, activeId]);
+
+    return { accounts, activeAccount, selectAccount, addAccount, removeAccount };
+};
@@ -0,0 +1,19 @@
+/**
+ * Public, non-secret configuration served by `/api/config`.
+ */
+
+import { loadServerRegistry } from "@/lib/mcp-servers";
+import { detectStripeKey, type StripeKeyInfo } from "@/lib/stripe-keys";
+
+export interface AppConfig {
+    stripe: StripeKeyInfo;
+}
+
+const DEFAULT_STRIPE_KEY_ENV = "STRIPE_SECRET_KEY";
+
+export function getAppConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+    const stripe = loadServerRegistry(env).find((server) => server.label === "stripe");
+    return {
+        stripe: detectStripeKey(env[stripe?.auth?.env ?? DEFAULT_STRIPE_KEY_ENV]),
+    };
+}
@@ -0,0 +1,110 @@
+/**
+ * Default audit log store: an append-only JSON Lines file.
+ *
+ * Entries are only ever appended, and each carries a SHA-256 hash over the
+ * previous entry's hash and its own content, so an edited or deleted line
+ * breaks the chain from that point on. The file defaults to
+ * `.data/audit/audit.jsonl` and can be moved with `AUDIT_LOG_FILE`.
+ */
+
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+import {
+    matchesAuditFilter,
+    type AuditEntry,
+    type AuditFilter,
+    type AuditLogStore,
+    type NewAuditEntry,
+} from "@/lib/audit-log";
+
+/** Hash of the (absent) entry before the first one. */
+const GENESIS_HASH = "0".repeat(64);
+
+const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException)?.code === "ENOENT";
+
+const createAuditId = (): string => `aud_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+export function computeAuditHash(previousHash: string, entry: Omit<AuditEntry, "hash">): string {
+    return createHash("sha256").update(previousHash).update(JSON.stringify(entry)).digest("hex");
+}
+
+export class FileAuditLogStore implements AuditLogStore {
+    private lastHash: Promise<string> | undefined;
+    private pending: Promise<unknown> = Promise.resolve();
+
+    public constructor(private readonly file: string) {}
+
+    public append(entry: NewAuditEntry): Promise<AuditEntry> {
+        // One append at a time, so each entry hashes over the one before it.
+        const appended = this.pending.then(async () => {
+            const previousHash = await this.getLastHash();
+            const withId = { id: createAuditId(), ...entry };
+            const complete: AuditEntry = { ...withId, hash: computeAuditHash(previousHash, withId) };
+            await mkdir(path.dirname(this.file), { recursive: true });
+            await appendFile(this.file, `${JSON.stringify(complete)}\n`, { encoding: "utf8", mode: 0o600 });
+            this.lastHash = Promise.resolve(complete.hash);
+            return complete;
+        }).catch((error) => {
+            // Re-read the chain's end next time rather than trust a failed write.
+            this.lastHash = undefined;
+            throw error;
+        });
+        this.pending = appended.catch(() => undefined);
+        return appended;
+    }
+
+    public async query(filter: AuditFilter): Promise<AuditEntry[]> {
+        const entries = await this.readAll();
+        const matches: AuditEntry[] = [];
+        for (let index = entries.length - 1; index >= 0; index -= 1) {
+            if (!matchesAuditFilter(entries[index], filter)) continue;
+            matches.push(entries[index]);
+            if (filter.limit !== undefined && matches.length >= filter.limit) break;
+        }
+        return matches;
+    }
+
+    public async verify(): Promise<boolean> {
+        let previousHash = GENESIS_HASH;
+        for (const { hash, ...entry } of await this.readAll()) {
+            if (computeAuditHash(previousHash, entry) !== hash) return false;
+            previousHash = hash;
+        }
+        return true;
+    }
+
+    private getLastHash(): Promise<string> {
+        this.lastHash ??= this.readAll().then((entries) => entries.at(-1)?.hash ?? GENESIS_HASH);
+        return this.lastHash;
+    }
+
+    private async readAll(): Promise<AuditEntry[]> {
+        let text: string;
+        try {
+            text = await readFile(this.file, "utf8");
+        } catch (error) {
+            if (isMissing(error)) return [];
+            throw error;
+        }
+        return text
+            .split("\n")
+            .filter(Boolean)
+            .map((line) => JSON.parse(line) as AuditEntry);
+    }
+}
+
+let store: AuditLogStore | undefined;
+
+export function getAuditLogStore(env: NodeJS.ProcessEnv = process.env): AuditLogStore {
+    if (!store) {
+        store = new FileAuditLogStore(path.resolve(process.cwd(), env.AUDIT_LOG_FILE ?? ".data/audit/audit.jsonl"));
+    }
+    return store;
+}
+
+/** Swaps the store the chat route writes to, e.g. for a database table or a log pipeline. */
+export function setAuditLogStore(next: AuditLogStore): void {
+    store = next;
+}
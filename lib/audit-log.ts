@@ -0,0 +1,280 @@
+/**
+ * Audit trail of MCP tool activity: who asked for, approved and ran which
+ * tool, against which Stripe account, and with what result.
+ *
+ * The chat route feeds every forwarded stream event to an `AuditRecorder`,
+ * which appends entries to an `AuditLogStore`. The default store is an
+ * append-only file (see `lib/audit-log-file.ts`); call `setAuditLogStore`
+ * there to write somewhere else. Types and the CSV export live here so the
+ * `/audit` page can share them.
+ */
+
+import type {
+    ResponseInputItem,
+    ResponseOutputItem,
+    ResponseStreamEvent,
+} from "openai/resources/responses/responses";
+
+import type { AuthUser } from "@/lib/auth";
+
+export type AuditAction = "approval_request" | "approval_response" | "mcp_call";
+
+export type AuditOutcome = "requested" | "approved" | "denied" | "completed" | "failed";
+
+export interface NewAuditEntry {
+    /** Milliseconds since the epoch, when the server saw the action. */
+    timestamp: number;
+    action: AuditAction;
+    outcome: AuditOutcome;
+    userId: string;
+    userName: string;
+    serverLabel: string;
+    tool: string;
+    /** Saved Stripe account the call used; absent for the server's key. */
+    accountId?: string;
+    /** Label of the Stripe account, for Stripe tools. */
+    accountName?: string;
+    connectedAccountId?: string;
+    /** JSON arguments the tool was, or was asked to be, called with. */
+    arguments?: string;
+    output?: string;
+    error?: string;
+    approvalRequestId?: string;
+    /** Who approved the call, for approved calls and approval responses. */
+    approverId?: string;
+    /** Upstream response the action belongs to. */
+    responseId?: string;
+    streamId?: string;
+}
+
+export interface AuditEntry extends NewAuditEntry {
+    id: string;
+    /** Chains each entry to the one before it so edits and deletions show. */
+    hash: string;
+}
+
+export interface AuditFilter {
+    userId?: string;
+    tool?: string;
+    action?: AuditAction;
+    accountName?: string;
+    /** Inclusive bounds in milliseconds since the epoch. */
+    from?: number;
+    to?: number;
+    limit?: number;
+}
+
+export interface AuditLogStore {
+    append(entry: NewAuditEntry): Promise<AuditEntry>;
+    /** Matching entries, newest first. */
+    query(filter: AuditFilter): Promise<AuditEntry[]>;
+    /** Whether the log is unaltered, when the store can tell. */
+    verify?(): Promise<boolean>;
+}
+
+/** The Stripe account a request runs against. */
+export interface AuditAccount {
+    id?: string;
+    name: string;
+    connectedAccountId?: string;
+    /** Server label the account's key is used for. */
+    serverLabel: string;
+}
+
+const ACTIONS = new Set<string>(["approval_request", "approval_response", "mcp_call"]);
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 10_000;
+/** Longest tool output kept in an entry. */
+const MAX_OUTPUT_LENGTH = 4_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseTime = (value: string | null, endOfDay: boolean): number | undefined => {
+    if (!value) return undefined;
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) return undefined;
+    // A bare date as the upper bound includes that whole day.
+    return endOfDay && DATE_ONLY.test(value) ? time + DAY_MS - 1 : time;
+};
+
+/** Reads a filter from `/api/audit` query parameters; unknown values are ignored. */
+export function parseAuditFilter(params: URLSearchParams): AuditFilter {
+    const action = params.get("action");
+    const limit = Number(params.get("limit"));
+    return {
+        ...(params.get("user") ? { userId: params.get("user")!.trim() } : {}),
+        ...(params.get("tool") ? { tool: params.get("tool")!.trim() } : {}),
+        ...(params.get("account") ? { accountName: params.get("account")!.trim() } : {}),
+        ...(action && ACTIONS.has(action) ? { action: action as AuditAction } : {}),
+        from: parseTime(params.get("from"), false),
+        to: parseTime(params.get("to"), true),
+        limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT,
+    };
+}
+
+const includesText = (value: string | undefined, search: string | undefined): boolean =>
+    !search || (value ?? "").toLowerCase().includes(search.toLowerCase());
+
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+    return (
+        (!filter.action || entry.action === filter.action) &&
+        includesText(entry.userId, filter.userId) &&
+        includesText(entry.tool, filter.tool) &&
+        includesText(entry.accountName, filter.accountName) &&
+        (filter.from === undefined || entry.timestamp >= filter.from) &&
+        (filter.to === undefined || entry.timestamp <= filter.to)
+    );
+}
+
+const CSV_COLUMNS: ReadonlyArray<keyof AuditEntry> = [
+    "timestamp",
+    "action",
+    "outcome",
+    "userId",
+    "userName",
+    "serverLabel",
+    "tool",
+    "accountName",
+    "accountId",
+    "connectedAccountId",
+    "arguments",
+    "output",
+    "error",
+    "approvalRequestId",
+    "approverId",
+    "responseId",
+    "streamId",
+    "id",
+    "hash",
+];
+
+const toCsvField = (value: unknown): string => {
+    let text = value === undefined || value === null ? "" : String(value);
+    // Keep spreadsheets from evaluating user-controlled text as a formula.
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toAuditCsv(entries: ReadonlyArray<AuditEntry>): string {
+    const rows = entries.map((entry) =>
+        CSV_COLUMNS.map((column) =>
+            toCsvField(column === "timestamp" ? new Date(entry.timestamp).toISOString() : entry[column]),
+        ).join(","),
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+const truncate = (value: string | null | undefined): string | undefined =>
+    value ? (value.length > MAX_OUTPUT_LENGTH ? `${value.slice(0, MAX_OUTPUT_LENGTH)}…` : value) : undefined;
+
+/**
+ * Approval responses a request carries for the first time. Earlier ones are
+ * replayed with the full history, but new inputs always come last.
+ */
+const newApprovalResponses = (input: ReadonlyArray<ResponseInputItem>): ResponseInputItem.McpApprovalResponse[] => {
+    const responses: ResponseInputItem.McpApprovalResponse[] = [];
+    for (let index = input.length - 1; index >= 0; index -= 1) {
+        const item = input[index];
+        if (item.type !== "mcp_approval_response") break;
+        responses.unshift(item);
+    }
+    return responses;
+};
+
+/**
+ * Turns one chat request into audit entries: the approvals it carries, and
+ * the approval requests and MCP calls in the upstream stream. Appends run in
+ * the background; a failing store is logged rather than breaking the chat.
+ */
+export class AuditRecorder {
+    private responseId: string | undefined;
+    private readonly approvals = new Map<string, boolean>();
+
+    public constructor(
+        private readonly store: AuditLogStore,
+        private readonly user: AuthUser,
+        private readonly account: AuditAccount | undefined,
+        private readonly streamId: string | undefined,
+    ) {}
+
+    /**
+     * Records the user's new approval responses. `lookupTool` names the tool
+     * behind an approval request id when it is known.
+     */
+    public recordApprovals(
+        input: ReadonlyArray<ResponseInputItem>,
+        lookupTool: (approvalRequestId: string) => { name: string; serverLabel?: string } | undefined,
+    ): void {
+        newApprovalResponses(input).forEach((response) => {
+            this.approvals.set(response.approval_request_id, response.approve);
+            const request = lookupTool(response.approval_request_id);
+            this.append({
+                action: "approval_response",
+                outcome: response.approve ? "approved" : "denied",
+                serverLabel: request?.serverLabel ?? "",
+                tool: request?.name ?? "",
+                approvalRequestId: response.approval_request_id,
+                approverId: this.user.id,
+            });
+        });
+    }
+
+    public record(event: ResponseStreamEvent): void {
+        if (event.type === "response.created") {
+            this.responseId = event.response.id;
+            return;
+        }
+        if (event.type !== "response.output_item.done") return;
+
+        const item = event.item as ResponseOutputItem;
+        if (item.type === "mcp_approval_request") {
+            this.append({
+                action: "approval_request",
+                outcome: "requested",
+                serverLabel: item.server_label,
+                tool: item.name,
+                arguments: item.arguments,
+                approvalRequestId: item.id,
+            });
+        } else if (item.type === "mcp_call") {
+            // Newer upstreams link a call to the approval it ran under; the SDK types predate it.
+            const approvalRequestId = (item as { approval_request_id?: string | null }).approval_request_id ?? undefined;
+            const approved = approvalRequestId !== undefined && this.approvals.get(approvalRequestId) === true;
+            this.append({
+                action: "mcp_call",
+                outcome: item.error ? "failed" : "completed",
+                serverLabel: item.server_label,
+                tool: item.name,
+                arguments: item.arguments,
+                output: truncate(item.output),
+                error: truncate(item.error),
+                ...(approvalRequestId ? { approvalRequestId } : {}),
+                ...(approved ? { approverId: this.user.id } : {}),
+            });
+        }
+    }
+
+    private append(
+        entry: Omit<NewAuditEntry, "timestamp" | "userId" | "userName" | "responseId" | "streamId">,
+    ): void {
+        const account = this.account && entry.serverLabel === this.account.serverLabel ? this.account : undefined;
+        const complete: NewAuditEntry = {
+            timestamp: Date.now(),
+            ...entry,
+            userId: this.user.id,
+            userName: this.user.name,
+            ...(account
+                ? {
+                      accountName: account.name,
+                      ...(account.id ? { accountId: account.id } : {}),
+                      ...(account.connectedAccountId ? { connectedAccountId: account.connectedAccountId } : {}),
+                  }
+                : {}),
+            ...(this.responseId ? { responseId: this.responseId } : {}),
+            ...(this.streamId ? { streamId: this.streamId } : {}),
+        };
+        this.store.append(complete).catch((error) => {
+            console.error("Could not write audit entry:", error, complete);
+        });
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Users for the `credentials` auth provider.
+ *
+ * `AUTH_USERS` lists them as comma-separated `username:hash` pairs, where each
+ * hash is `scrypt$<salt>$<key>` as produced by `hashPassword`. Server-only.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+import type { AuthUser } from "@/lib/auth";
+
+const KEY_LENGTH = 32;
+const USERNAME_PATTERN = /^[a-zA-Z0-9._@-]{1,64}$/;
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await deriveKey(password, salt);
+    return `scrypt$${salt.toString("base64url")}$${key.toString("base64url")}`;
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+    const [scheme, salt, expected] = hash.split("$");
+    if (scheme !== "scrypt" || !salt || !expected) return false;
+    const expectedKey = Buffer.from(expected, "base64url");
+    const key = await deriveKey(password, Buffer.from(salt, "base64url"));
+    return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+}
+
+/** Password hashes by username. Malformed entries are skipped with a warning. */
+export function parseAuthUsers(value: string | undefined): Map<string, string> {
+    const users = new Map<string, string>();
+    (value ?? "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .forEach((entry) => {
+            const separator = entry.indexOf(":");
+            const username = separator < 0 ? entry : entry.slice(0, separator);
+            const hash = entry.slice(separator + 1);
+            if (separator < 0 || !USERNAME_PATTERN.test(username) || !hash.startsWith("scrypt$")) {
+                console.warn(`Ignoring malformed AUTH_USERS entry for ${JSON.stringify(username)}`);
+                return;
+            }
+            users.set(username, hash);
+        });
+    return users;
+}
+
+// Checked against when the username is unknown, so the response time does
+// not reveal which usernames exist.
+let decoyHash: Promise<string> | undefined;
+
+const getDecoyHash = (): Promise<string> => {
+    decoyHash ??= hashPassword(randomBytes(16).toString("base64url"));
+    return decoyHash;
+};
+
+export async function authenticateCredentials(
+    username: string,
+    password: string,
+    env: NodeJS.ProcessEnv = process.env,
+): Promise<AuthUser | undefined> {
+    const hash = parseAuthUsers(env.AUTH_USERS).get(username);
+    if (!hash) {
+        await verifyPassword(password, await getDecoyHash());
+        return undefined;
+    }
+    if (!(await verifyPassword(password, hash))) return undefined;
+    return { id: `credentials:${username}`, name: username, provider: "credentials" };
+}
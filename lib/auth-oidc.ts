@@ -0,0 +1,194 @@
+/**
+ * Sign-in through an OpenID Connect issuer for the `oidc` auth provider.
+ *
+ * Uses the authorization code flow with PKCE. The issuer comes from
+ * `AUTH_OIDC_ISSUER` (its discovery document supplies the endpoints), the
+ * client from `AUTH_OIDC_CLIENT_ID` and the optional
+ * `AUTH_OIDC_CLIENT_SECRET`. The user's identity is read from the userinfo
+ * endpoint with the access token, so ID tokens need not be verified here.
+ */
+
+import {
+    createRandomToken,
+    sha256Base64Url,
+    signToken,
+    verifyToken,
+    AuthConfigurationError,
+    type AuthUser,
+} from "@/lib/auth";
+
+/** Cookie holding the signed state of a sign-in in progress. */
+export const OIDC_STATE_COOKIE = "chat_oidc_state";
+export const OIDC_STATE_TTL_SECONDS = 10 * 60;
+
+const DEFAULT_SCOPES = "openid profile email";
+
+/** The issuer refused or botched a step of the sign-in. */
+export class OidcError extends Error {
+    public constructor(message: string) {
+        super(message);
+        this.name = "OidcError";
+    }
+}
+
+export interface OidcConfig {
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    scopes: string;
+}
+
+interface OidcMetadata {
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint: string;
+}
+
+interface OidcState {
+    state: string;
+    verifier: string;
+    next: string;
+}
+
+export function getOidcConfig(env: NodeJS.ProcessEnv = process.env): OidcConfig {
+    const issuer = env.AUTH_OIDC_ISSUER?.replace(/\/+$/, "");
+    const clientId = env.AUTH_OIDC_CLIENT_ID;
+    if (!issuer || !clientId) {
+        throw new AuthConfigurationError("AUTH_OIDC_ISSUER and AUTH_OIDC_CLIENT_ID are required for the oidc provider");
+    }
+    return {
+        issuer,
+        clientId,
+        clientSecret: env.AUTH_OIDC_CLIENT_SECRET || undefined,
+        scopes: env.AUTH_OIDC_SCOPES || DEFAULT_SCOPES,
+    };
+}
+
+const metadataCache = new Map<string, Promise<OidcMetadata>>();
+
+const discover = (issuer: string): Promise<OidcMetadata> => {
+    let metadata = metadataCache.get(issuer);
+    if (!metadata) {
+        metadata = fetch(`${issuer}/.well-known/openid-configuration`)
+            .then(async (response) => {
+                if (!response.ok) {
+                    throw new OidcError(`OIDC discovery failed: ${response.status} ${response.statusText}`);
+                }
+                const document = (await response.json()) as Partial<OidcMetadata>;
+                if (!document.authorization_endpoint || !document.token_endpoint || !document.userinfo_endpoint) {
+                    throw new OidcError("The issuer's discovery document is missing an endpoint");
+                }
+                return document as OidcMetadata;
+            })
+            .catch((error) => {
+                metadataCache.delete(issuer);
+                throw error;
+            });
+        metadataCache.set(issuer, metadata);
+    }
+    return metadata;
+};
+
+/**
+ * Where to send the browser to sign in, and the signed state to keep in
+ * `OIDC_STATE_COOKIE` until the issuer redirects back to `redirectUri`.
+ */
+export async function createAuthorizationRequest(
+    redirectUri: string,
+    next: string,
+    env: NodeJS.ProcessEnv = process.env,
+): Promise<{ url: string; stateToken: string }> {
+    const config = getOidcConfig(env);
+    const metadata = await discover(config.issuer);
+    const state: OidcState = { state: createRandomToken(), verifier: createRandomToken(), next };
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", config.clientId);
+    url.searchParams.set("redirect_uri", redirectUri);
+    url.searchParams.set("scope", config.scopes);
+    url.searchParams.set("state", state.state);
+    url.searchParams.set("code_challenge", await sha256Base64Url(state.verifier));
+    url.searchParams.set("code_challenge_method", "S256");
+
+    return { url: url.toString(), stateToken: await signToken(state, OIDC_STATE_TTL_SECONDS, env) };
+}
+
+/**
+ * Finishes a sign-in from the issuer's redirect: checks `state`, redeems the
+ * code and reads the user. Returns the user and the path to go back to.
+ */
+export async function completeAuthorization(
+    callbackUrl: URL,
+    stateToken: string | undefined,
+    redirectUri: string,
+    env: NodeJS.ProcessEnv = process.env,
+): Promise<{ user: AuthUser; next: string }> {
+    const issuerError = callbackUrl.searchParams.get("error");
+    if (issuerError) {
+        throw new OidcError(callbackUrl.searchParams.get("error_description") ?? issuerError);
+    }
+
+    const saved = stateToken ? await verifyToken<OidcState>(stateToken, env) : undefined;
+    const code = callbackUrl.searchParams.get("code");
+    if (!saved || !code || callbackUrl.searchParams.get("state") !== saved.state) {
+        throw new OidcError("The sign-in expired or did not start here; try again");
+    }
+
+    const config = getOidcConfig(env);
+    const metadata = await discover(config.issuer);
+    const form = new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectUri,
+        client_id: config.clientId,
+        code_verifier: saved.verifier,
+    });
+    if (config.clientSecret) form.set("client_secret", config.clientSecret);
+
+    const tokenResponse = await fetch(metadata.token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+        body: form,
+    });
+    const tokens = (await tokenResponse.json().catch(() => ({}))) as { access_token?: string; error?: string };
+    if (!tokenResponse.ok || !tokens.access_token) {
+        throw new OidcError(`The issuer did not issue a token: ${tokens.error ?? tokenResponse.status}`);
+    }
+
+    const userinfoResponse = await fetch(metadata.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: "application/json" },
+    });
+    if (!userinfoResponse.ok) {
+        throw new OidcError(`Could not read the user from the issuer: ${userinfoResponse.status}`);
+    }
+    const claims = (await userinfoResponse.json()) as {
+        sub?: string;
+        name?: string;
+        preferred_username?: string;
+        email?: string;
+        email_verified?: boolean;
+    };
+    if (!claims.sub) {
+        throw new OidcError("The issuer returned a user without a subject");
+    }
+
+    // Roles can be assigned by email, so only take one the issuer vouches for.
+    const email = claims.email_verified === true ? claims.email : undefined;
+
+    return {
+        user: {
+            id: `oidc:${claims.sub}`,
+            name: claims.name ?? claims.preferred_username ?? claims.email ?? claims.sub,
+            ...(email ? { email } : {}),
+            provider: "oidc",
+        },
+        next: saved.next,
+    };
+}
+
+/** The callback the issuer redirects to; `AUTH_URL` overrides the request's origin behind proxies. */
+export function getOidcRedirectUri(req: Request, env: NodeJS.ProcessEnv = process.env): string {
+    const origin = env.AUTH_URL?.replace(/\/+$/, "") || new URL(req.url).origin;
+    return `${origin}/api/auth/oidc/callback`;
+}
@@ -0,0 +1,209 @@
+/**
+ * Sign-in sessions for the chat app.
+ *
+ * `AUTH_PROVIDER` picks how people sign in: `credentials` checks the users in
+ * `AUTH_USERS`, `oidc` redirects to an OpenID Connect issuer, and `dev` lets
+ * anyone sign in under a name of their choosing (outside production only,
+ * and the default there). `none` turns sign-in off. A production deployment
+ * without a provider refuses every protected request rather than run open.
+ *
+ * A signed-in user carries an HMAC-signed session cookie. Everything here
+ * runs on Web Crypto so the middleware can verify sessions on the edge.
+ */
+
+import type { UserRole } from "@/lib/roles";
+
+export type AuthProviderName = "credentials" | "oidc" | "dev" | "none";
+
+export interface AuthUser {
+    /** Stable id prefixed with the provider, e.g. `credentials:alice` or `oidc:<sub>`. */
+    id: string;
+    name: string;
+    /** Only set when the provider has verified it, since roles can be assigned by email. */
+    email?: string;
+    provider: AuthProviderName;
+}
+
+/** What `/api/auth/session` answers. */
+export interface AuthSession {
+    provider: AuthProviderName;
+    user: AuthUser | null;
+    /** What the user may do with MCP tools; null when nobody is signed in. */
+    role: UserRole | null;
+}
+
+/** The deployment's auth settings are missing or contradictory. */
+export class AuthConfigurationError extends Error {
+    public constructor(message: string) {
+        super(message);
+        this.name = "AuthConfigurationError";
+    }
+}
+
+export const SESSION_COOKIE = "chat_session";
+
+/** Who owns everything when sign-in is off. */
+export const ANONYMOUS_USER: AuthUser = { id: "anonymous", name: "Anonymous", provider: "none" };
+
+const PROVIDERS = new Set<string>(["credentials", "oidc", "dev", "none"]);
+const DEFAULT_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+const MIN_SECRET_LENGTH = 32;
+const DEVELOPMENT_SECRET = "development-only-secret-do-not-use-in-production";
+
+const isProduction = (env: NodeJS.ProcessEnv): boolean => env.NODE_ENV === "production";
+
+export function getAuthProvider(env: NodeJS.ProcessEnv = process.env): AuthProviderName {
+    const value = env.AUTH_PROVIDER?.trim().toLowerCase();
+    if (!value) {
+        if (isProduction(env)) {
+            throw new AuthConfigurationError("AUTH_PROVIDER is not set; choose credentials, oidc or none");
+        }
+        return "dev";
+    }
+    if (!PROVIDERS.has(value)) {
+        throw new AuthConfigurationError(`Unknown AUTH_PROVIDER: ${JSON.stringify(value)}`);
+    }
+    if (value === "dev" && isProduction(env)) {
+        throw new AuthConfigurationError("The dev auth provider cannot be used in production");
+    }
+    return value as AuthProviderName;
+}
+
+const getAuthSecret = (env: NodeJS.ProcessEnv): string => {
+    const secret = env.AUTH_SECRET;
+    if (secret && secret.length >= MIN_SECRET_LENGTH) return secret;
+    if (secret || isProduction(env)) {
+        throw new AuthConfigurationError(`AUTH_SECRET must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+    return DEVELOPMENT_SECRET;
+};
+
+export function getSessionTtlSeconds(env: NodeJS.ProcessEnv = process.env): number {
+    return Number(env.AUTH_SESSION_TTL_SECONDS) || DEFAULT_SESSION_TTL_SECONDS;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = "";
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/** URL-safe random string, e.g. for OAuth `state` and PKCE verifiers. */
+export function createRandomToken(byteLength = 32): string {
+    return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/** Base64url SHA-256 of `value`, as PKCE's S256 challenge wants. */
+export async function sha256Base64Url(value: string): Promise<string> {
+    return toBase64Url(new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(value))));
+}
+
+const importSigningKey = (env: NodeJS.ProcessEnv): Promise<CryptoKey> =>
+    crypto.subtle.importKey("raw", encoder.encode(getAuthSecret(env)), { name: "HMAC", hash: "SHA-256" }, false, [
+        "sign",
+        "verify",
+    ]);
+
+/**
+ * Signs `payload` into a `<body>.<signature>` token that expires after
+ * `ttlSeconds`.
+ */
+export async function signToken(
+    payload: object,
+    ttlSeconds: number,
+    env: NodeJS.ProcessEnv = process.env,
+    now = Date.now(),
+): Promise<string> {
+    const body = toBase64Url(encoder.encode(JSON.stringify({ ...payload, exp: Math.floor(now / 1000) + ttlSeconds })));
+    const signature = await crypto.subtle.sign("HMAC", await importSigningKey(env), encoder.encode(body));
+    return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The payload of a token from `signToken`, or undefined when it is forged, malformed or expired. */
+export async function verifyToken<T extends object>(
+    token: string,
+    env: NodeJS.ProcessEnv = process.env,
+    now = Date.now(),
+): Promise<T | undefined> {
+    const [body, signature, extra] = token.split(".");
+    if (!body || !signature || extra !== undefined) return undefined;
+
+    try {
+        const valid = await crypto.subtle.verify(
+            "HMAC",
+            await importSigningKey(env),
+            fromBase64Url(signature),
+            encoder.encode(body),
+        );
+        if (!valid) return undefined;
+        const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as T & { exp?: unknown };
+        if (typeof payload.exp !== "number" || payload.exp * 1000 <= now) return undefined;
+        return payload;
+    } catch (error) {
+        if (error instanceof AuthConfigurationError) throw error;
+        return undefined;
+    }
+}
+
+export function createSessionToken(user: AuthUser, env: NodeJS.ProcessEnv = process.env): Promise<string> {
+    const { id, name, email, provider } = user;
+    return signToken({ id, name, email, provider }, getSessionTtlSeconds(env), env);
+}
+
+/** Reads one cookie out of a `Cookie` header. */
+export function readCookie(header: string | null, name: string): string | undefined {
+    if (!header) return undefined;
+    for (const part of header.split(";")) {
+        const separator = part.indexOf("=");
+        if (separator < 0 || part.slice(0, separator).trim() !== name) continue;
+        try {
+            return decodeURIComponent(part.slice(separator + 1).trim());
+        } catch {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+/** A `Set-Cookie` value; pass a `maxAge` of 0 to delete the cookie. */
+export function serializeCookie(
+    name: string,
+    value: string,
+    maxAge: number,
+    env: NodeJS.ProcessEnv = process.env,
+): string {
+    const attributes = [`${name}=${encodeURIComponent(value)}`, "Path=/", "HttpOnly", "SameSite=Lax", `Max-Age=${maxAge}`];
+    if (isProduction(env)) attributes.push("Secure");
+    return attributes.join("; ");
+}
+
+/**
+ * The signed-in user behind a request, `ANONYMOUS_USER` when sign-in is off,
+ * or undefined. Sessions from a different provider than the configured one
+ * are ignored.
+ */
+export async function getRequestUser(req: Request, env: NodeJS.ProcessEnv = process.env): Promise<AuthUser | undefined> {
+    const provider = getAuthProvider(env);
+    if (provider === "none") return ANONYMOUS_USER;
+
+    const token = readCookie(req.headers.get("cookie"), SESSION_COOKIE);
+    if (!token) return undefined;
+    const session = await verifyToken<AuthUser>(token, env);
+    if (!session || session.provider !== provider || typeof session.id !== "string") return undefined;
+    return { id: session.id, name: session.name, provider: session.provider, ...(session.email ? { email: session.email } : {}) };
+}
+
+/** `next` if it is a path on this site, so sign-in cannot redirect elsewhere. */
+export function getSafeRedirectPath(next: string | null | undefined): string {
+    if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) return "/";
+    return next;
+}
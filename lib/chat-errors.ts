@@ -0,0 +1,185 @@
+/**
+ * Error categories for failed chat turns.
+ *
+ * The route turns upstream failures into `error` stream events whose `code`
+ * is a category, with any retry delay or HTTP status alongside. Error codes
+ * that come straight from the upstream, and failures the browser hits on
+ * its own, are read through the same `getChatErrorInfo`, so the UI handles
+ * one set of categories.
+ */
+
+import type { ResponseErrorEvent } from "openai/resources/responses/responses";
+
+export type ChatErrorCategory =
+    | "auth"
+    | "signed_out"
+    | "forbidden"
+    | "rate_limit"
+    | "upstream_unavailable"
+    | "mcp_auth"
+    | "mcp_tool_error"
+    | "context_length"
+    | "invalid_request"
+    | "network"
+    | "unknown";
+
+/** An `error` stream event carrying a category as its `code`. */
+export interface ChatErrorEvent extends ResponseErrorEvent {
+    code: ChatErrorCategory;
+    /** HTTP status the upstream answered with, when there was one. */
+    status?: number;
+    /** Seconds to wait before retrying, from the upstream's rate-limit headers. */
+    retry_after?: number;
+}
+
+export interface ChatErrorInfo {
+    category: ChatErrorCategory;
+    message: string;
+    status?: number;
+    retryAfter?: number;
+}
+
+const CATEGORIES = new Set<string>([
+    "auth",
+    "signed_out",
+    "forbidden",
+    "rate_limit",
+    "upstream_unavailable",
+    "mcp_auth",
+    "mcp_tool_error",
+    "context_length",
+    "invalid_request",
+    "network",
+    "unknown",
+]);
+
+/** Upstream error codes we know, by category. */
+const UPSTREAM_CODES: Record<string, ChatErrorCategory> = {
+    // Our own routes answer this when the session cookie is missing or expired.
+    unauthorized: "signed_out",
+    // Our chat route, when a saved Stripe key cannot be decrypted.
+    credentials_misconfigured: "mcp_auth",
+    invalid_api_key: "auth",
+    authentication_error: "auth",
+    permission_denied: "auth",
+    rate_limit_exceeded: "rate_limit",
+    rate_limit_error: "rate_limit",
+    insufficient_quota: "rate_limit",
+    context_length_exceeded: "context_length",
+    tool_use_failed: "mcp_tool_error",
+    server_error: "upstream_unavailable",
+    service_unavailable: "upstream_unavailable",
+    overloaded: "upstream_unavailable",
+    invalid_request_error: "invalid_request",
+};
+
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|context window|maximum context|too many tokens|reduce the length/i;
+const MCP_PATTERN = /\bmcp\b|server_label|tool server/i;
+const AUTH_PATTERN = /\b(401|403)\b|unauthori[sz]ed|forbidden|invalid api key|authenticat|credential/i;
+const TOOL_FAILURE_PATTERN = /tool[_ ]?(call|use)?[_ ]?(failed|error)|failed to call tool|mcp.*(error|failed)/i;
+
+/** The category for an upstream or legacy error code, if we recognise it. */
+const categorizeCode = (code: string | null | undefined): ChatErrorCategory | undefined => {
+    if (!code) return undefined;
+    if (CATEGORIES.has(code)) return code as ChatErrorCategory;
+    return UPSTREAM_CODES[code];
+};
+
+const categorizeMessage = (message: string): ChatErrorCategory | undefined => {
+    if (CONTEXT_LENGTH_PATTERN.test(message)) return "context_length";
+    if (MCP_PATTERN.test(message) && AUTH_PATTERN.test(message)) return "mcp_auth";
+    if (TOOL_FAILURE_PATTERN.test(message)) return "mcp_tool_error";
+    return undefined;
+};
+
+const categorizeStatus = (status: number | undefined): ChatErrorCategory | undefined => {
+    if (status === undefined) return undefined;
+    if (status === 401 || status === 403) return "auth";
+    if (status === 424) return "mcp_tool_error";
+    if (status === 429) return "rate_limit";
+    if (status === 413) return "context_length";
+    if (status >= 500) return "upstream_unavailable";
+    if (status >= 400) return "invalid_request";
+    return undefined;
+};
+
+/** Parses Groq-style durations (`"2m59.56s"`, `"7.66s"`, `"120ms"`) into seconds. */
+export function parseDurationSeconds(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+
+    const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+    let seconds = 0;
+    let matched = false;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(trimmed))) {
+        matched = true;
+        const amount = Number(match[1]);
+        seconds += match[2] === "ms" ? amount / 1000 : match[2] === "h" ? amount * 3600 : match[2] === "m" ? amount * 60 : amount;
+    }
+    return matched ? seconds : undefined;
+}
+
+/**
+ * Seconds until a rate-limited request may be retried, from `retry-after`
+ * (seconds or an HTTP date), `retry-after-ms`, or Groq's
+ * `x-ratelimit-reset-*` headers.
+ */
+export function getRetryAfterSeconds(headers: Headers | undefined, now = Date.now()): number | undefined {
+    if (!headers) return undefined;
+
+    const millis = Number(headers.get("retry-after-ms"));
+    if (millis > 0) return Math.ceil(millis / 1000);
+
+    const retryAfter = headers.get("retry-after");
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - now) / 1000));
+    }
+
+    const resets = ["x-ratelimit-reset-requests", "x-ratelimit-reset-tokens"]
+        .map((name) => parseDurationSeconds(headers.get(name)))
+        .filter((seconds): seconds is number => seconds !== undefined);
+    return resets.length > 0 ? Math.ceil(Math.max(...resets)) : undefined;
+}
+
+/** The parts of an SDK `APIError` (or any HTTP failure) we classify on. */
+export interface UpstreamFailure {
+    message: string;
+    status?: number;
+    headers?: Headers;
+    code?: string | null;
+}
+
+export function categorizeFailure({ message, status, code }: UpstreamFailure): ChatErrorCategory {
+    return categorizeCode(code) ?? categorizeMessage(message) ?? categorizeStatus(status) ?? "unknown";
+}
+
+/** Builds the stream event the route sends for a failed upstream call. */
+export function toChatErrorEvent(failure: UpstreamFailure, sequenceNumber: number): ChatErrorEvent {
+    const category = categorizeFailure(failure);
+    const retryAfter = category === "rate_limit" ? getRetryAfterSeconds(failure.headers) : undefined;
+    return {
+        type: "error",
+        code: category,
+        message: failure.message,
+        param: null,
+        sequence_number: sequenceNumber,
+        ...(failure.status !== undefined ? { status: failure.status } : {}),
+        ...(retryAfter !== undefined ? { retry_after: retryAfter } : {}),
+    };
+}
+
+/** Reads the category and retry details from any error event. */
+export function getChatErrorInfo(error: ResponseErrorEvent): ChatErrorInfo {
+    const { status, retry_after: retryAfter } = error as Partial<ChatErrorEvent>;
+    return {
+        category: categorizeFailure({ message: error.message, status, code: error.code }),
+        message: error.message,
+        ...(typeof status === "number" ? { status } : {}),
+        ...(typeof retryAfter === "number" ? { retryAfter } : {}),
+    };
+}
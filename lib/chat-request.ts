@@ -0,0 +1,49 @@
+/**
+ * Shape of the JSON body the client POSTs to `/api/chat`.
+ */
+
+import type { ResponseInputItem } from "openai/resources/responses/responses";
+
+import type { GenerationParams } from "@/lib/models";
+
+export interface ChatRequestBody extends GenerationParams {
+    /**
+     * The full transcript, or only the inputs added since
+     * `previous_response_id` when that is set.
+     */
+    messages: ResponseInputItem[];
+    /** Labels of the MCP servers to attach. */
+    servers?: ReadonlyArray<string>;
+    /** Saved Stripe account to use instead of the server's `STRIPE_SECRET_KEY`. */
+    stripe_account?: string;
+    /** Continue from a stored upstream response instead of replaying history. */
+    previous_response_id?: string;
+    /** Ask the upstream to store the response so a later turn can chain from it. */
+    store?: boolean;
+}
+
+/**
+ * Error code the route emits when the upstream does not know
+ * `previous_response_id`; the client then replays the full history.
+ */
+export const PREVIOUS_RESPONSE_NOT_FOUND = "previous_response_not_found";
+
+/**
+ * Error code of the 403 the route answers when it no longer remembers the
+ * approval request behind an approval, e.g. after a restart or on another
+ * instance. Replaying the full history includes the request, so the client
+ * retries that way.
+ */
+export const APPROVAL_REQUEST_NOT_FOUND = "approval_request_not_found";
+
+/**
+ * Response header naming the buffered stream behind a `/api/chat` response.
+ * After a dropped connection the client GETs `getStreamResumeUrl()` with a
+ * `Last-Event-ID` header to pick up where it left off.
+ */
+export const STREAM_ID_HEADER = "X-Stream-Id";
+
+/** Where a buffered stream is resumed (GET) or cancelled (DELETE). */
+export function getStreamResumeUrl(endpoint: string, streamId: string): string {
+    return `${endpoint.replace(/\/+$/, "")}/streams/${encodeURIComponent(streamId)}`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Alternative versions of a conversation, created by editing an earlier user
+ * message.
+ *
+ * The ResponseSession always holds the active path as its flat transcript. A
+ * branch point marks a user message on that path where other versions of the
+ * conversation diverge, and keeps those versions from that message on.
+ * Switching swaps the session's tail for a stored one. Branch points further
+ * down an inactive branch are stored with it, so the whole tree is kept.
+ */
+
+import type { ResponseInputItem } from "openai/resources/responses/responses";
+
+import type { ResponseSession, ResponseSessionMessage } from "@/lib/responses";
+
+export interface ConversationBranch {
+    /** The transcript from the branch point's message on. */
+    messages: ResponseSessionMessage[];
+    /** Branch points further down this branch. */
+    points: BranchPoint[];
+}
+
+export interface BranchPoint {
+    /** Index of the user message the branches diverge at. */
+    index: number;
+    /** The branch the session currently holds. */
+    active: number;
+    /** Every version from `index` on, oldest first; the active one is null because it lives in the session. */
+    branches: (ConversationBranch | null)[];
+}
+
+export interface SerializedConversationBranches {
+    version: 1;
+    /** Branch points on the active path. */
+    points: BranchPoint[];
+}
+
+/** What the UI needs to page through the versions of one message. */
+export interface BranchPointInfo {
+    index: number;
+    active: number;
+    count: number;
+}
+
+const SERIALIZATION_VERSION = 1;
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+const byIndex = (a: BranchPoint, b: BranchPoint) => a.index - b.index;
+
+export class ConversationBranches {
+    private points: BranchPoint[] = [];
+
+    public constructor(
+        private readonly session: ResponseSession,
+        data?: SerializedConversationBranches,
+    ) {
+        if (!data) return;
+        if (data.version !== SERIALIZATION_VERSION) {
+            throw new Error(`Unsupported conversation branches serialization version: ${data.version}`);
+        }
+        this.points = clone(data.points).sort(byIndex);
+    }
+
+    /** Branch points on the active path, by index. */
+    public getBranchPoints(): BranchPointInfo[] {
+        this.prune();
+        return this.points.map(({ index, active, branches }) => ({ index, active, count: branches.length }));
+    }
+
+    public hasBranches(): boolean {
+        this.prune();
+        return this.points.length > 0;
+    }
+
+    /**
+     * Replaces the user message at `index` with `input` on a new branch. The
+     * current version from that message on is kept as an inactive branch.
+     * The session is left ready to request an answer to the new message.
+     */
+    public edit(index: number, input: ResponseInputItem): void {
+        this.prune();
+        const message = this.session.getMessages()[index];
+        if (!message || message.kind !== "input" || !("role" in message.item) || message.item.role !== "user") {
+            throw new RangeError(`No user message at index ${index}`);
+        }
+
+        let point = this.points.find((candidate) => candidate.index === index);
+        if (!point) {
+            point = { index, active: 0, branches: [null] };
+            this.points.push(point);
+            this.points.sort(byIndex);
+        }
+
+        point.branches[point.active] = this.detachFrom(index);
+        point.branches.push(null);
+        point.active = point.branches.length - 1;
+        this.session.addInput(input);
+    }
+
+    /** Makes `branch` of the branch point at `index` the active path. */
+    public switchTo(index: number, branch: number): void {
+        this.prune();
+        const point = this.points.find((candidate) => candidate.index === index);
+        if (!point) {
+            throw new RangeError(`No branch point at index ${index}`);
+        }
+        if (branch === point.active) return;
+        const target = point.branches[branch];
+        if (!target) {
+            throw new RangeError(`Branch ${branch} does not exist at index ${index}`);
+        }
+
+        point.branches[point.active] = this.detachFrom(index);
+        point.branches[branch] = null;
+        point.active = branch;
+        this.session.appendMessages(target.messages);
+        this.points.push(...target.points);
+        this.points.sort(byIndex);
+    }
+
+    public toJSON(): SerializedConversationBranches {
+        this.prune();
+        return clone({ version: SERIALIZATION_VERSION, points: this.points });
+    }
+
+    /** Takes the session's transcript from `index` on, with its branch points. */
+    private detachFrom(index: number): ConversationBranch {
+        const messages = this.session.truncateAfter(index - 1);
+        const points = this.points.filter((point) => point.index > index);
+        this.points = this.points.filter((point) => point.index <= index);
+        return { messages, points };
+    }
+
+    // Truncating the session directly, as regenerate does, can leave points
+    // past its end; their other branches have nothing to attach to.
+    private prune(): void {
+        const length = this.session.getMessages().length;
+        this.points = this.points.filter((point) => point.index < length);
+    }
+}
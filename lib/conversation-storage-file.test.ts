@@ -0,0 +1,44 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { FileConversationStorage } from "@/lib/conversation-storage-file";
+import type { StoredConversation } from "@/lib/conversation-storage";
+import { ResponseSession } from "@/lib/responses";
+
+const createConversation = (updatedAt: number): StoredConversation => ({
+    id: "conv_1",
+    updatedAt,
+    session: new ResponseSession({ inputs: [{ role: "user", content: `message ${updatedAt}` }] }).toJSON(),
+});
+
+describe("FileConversationStorage", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), "conversations-"));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it("applies concurrent saves of one conversation in order", async () => {
+        const storage = new FileConversationStorage(directory);
+
+        await Promise.all(Array.from({ length: 20 }, (_, index) => storage.save(createConversation(index))));
+
+        expect((await storage.load("conv_1"))?.updatedAt).toBe(19);
+        expect(await readdir(directory)).toEqual(["conv_1.json"]);
+    });
+
+    it("removes a conversation after the saves queued before it", async () => {
+        const storage = new FileConversationStorage(directory);
+
+        await Promise.all([storage.save(createConversation(1)), storage.remove("conv_1")]);
+
+        expect(await storage.load("conv_1")).toBeUndefined();
+    });
+});
@@ -0,0 +1,103 @@
+/**
+ * Server-side conversation store writing one JSON file per conversation.
+ *
+ * Used by the `/api/conversations` routes when the client is configured with
+ * `NEXT_PUBLIC_CONVERSATION_STORAGE=server`. The directory defaults to
+ * `.data/conversations` and can be moved with `CONVERSATION_STORE_DIR`.
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile, rename } from "node:fs/promises";
+import path from "node:path";
+
+import {
+    assertConversationId,
+    toConversationSummary,
+    type ConversationStorage,
+    type StoredConversation,
+    type StoredConversationSummary,
+} from "@/lib/conversation-storage";
+
+const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException)?.code === "ENOENT";
+
+export class FileConversationStorage implements ConversationStorage {
+    /** The last queued write to each conversation's file. */
+    private readonly pending = new Map<string, Promise<unknown>>();
+
+    public constructor(private readonly directory: string) {}
+
+    public async load(id: string): Promise<StoredConversation | undefined> {
+        try {
+            return JSON.parse(await readFile(this.fileFor(id), "utf8")) as StoredConversation;
+        } catch (error) {
+            if (isMissing(error)) return undefined;
+            throw error;
+        }
+    }
+
+    public async save(conversation: StoredConversation): Promise<void> {
+        const file = this.fileFor(conversation.id);
+        await this.serialize(conversation.id, async () => {
+            await mkdir(this.directory, { recursive: true });
+            // Write then rename so readers never see a half-written file.
+            const temp = `${file}.${randomUUID()}.tmp`;
+            await writeFile(temp, JSON.stringify(conversation), "utf8");
+            await rename(temp, file);
+        });
+    }
+
+    public async remove(id: string): Promise<void> {
+        const file = this.fileFor(id);
+        await this.serialize(id, () => rm(file, { force: true }));
+    }
+
+    public async list(): Promise<StoredConversationSummary[]> {
+        let entries: string[];
+        try {
+            entries = await readdir(this.directory);
+        } catch (error) {
+            if (isMissing(error)) return [];
+            throw error;
+        }
+
+        const summaries = await Promise.all(
+            entries
+                .filter((entry) => entry.endsWith(".json"))
+                .map(async (entry) => {
+                    const stored = await this.load(entry.slice(0, -".json".length)).catch(() => undefined);
+                    return stored ? toConversationSummary(stored) : undefined;
+                }),
+        );
+
+        return summaries
+            .filter((summary): summary is StoredConversationSummary => summary !== undefined)
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    /** Runs one write of the conversation's file at a time, in the order they were asked for. */
+    private serialize<T>(id: string, write: () => Promise<T>): Promise<T> {
+        const written = (this.pending.get(id) ?? Promise.resolve()).then(write);
+        const settled = written.catch(() => undefined);
+        this.pending.set(id, settled);
+        void settled.then(() => {
+            if (this.pending.get(id) === settled) this.pending.delete(id);
+        });
+        return written;
+    }
+
+    private fileFor(id: string): string {
+        assertConversationId(id);
+        return path.join(this.directory, `${id}.json`);
+    }
+}
+
+let defaultStorage: FileConversationStorage | undefined;
+
+export function getServerConversationStorage(): ConversationStorage {
+    if (!defaultStorage) {
+        defaultStorage = new FileConversationStorage(
+            path.resolve(process.cwd(), process.env.CONVERSATION_STORE_DIR ?? ".data/conversations"),
+        );
+    }
+    return defaultStorage;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { InvalidConversationError, parseStoredConversation } from "@/lib/conversation-storage";
+import { ResponseSession } from "@/lib/responses";
+
+const createConversation = (overrides: Record<string, unknown> = {}) => {
+    const session = new ResponseSession({ inputs: [{ role: "user", content: "hi" }] });
+    return { id: "conv_1", updatedAt: 1_700_000_000_000, session: session.toJSON(), ...overrides };
+};
+
+const paramOf = (raw: unknown): string | undefined => {
+    try {
+        parseStoredConversation(raw, "conv_1");
+        return undefined;
+    } catch (error) {
+        if (error instanceof InvalidConversationError) return error.param;
+        throw error;
+    }
+};
+
+describe("parseStoredConversation", () => {
+    it("keeps the stored fields and drops the rest", () => {
+        const raw = createConversation({ title: "Refunds", pinned: true, ownerId: "dev:mallory", extra: 1 });
+
+        const parsed = parseStoredConversation(raw, "conv_1");
+        expect(parsed).toEqual({
+            id: "conv_1",
+            updatedAt: 1_700_000_000_000,
+            title: "Refunds",
+            pinned: true,
+            session: raw.session,
+        });
+    });
+
+    it("rejects bodies that are not a conversation", () => {
+        expect(paramOf(undefined)).toBe("id");
+        expect(paramOf([])).toBe("id");
+        expect(paramOf(createConversation({ id: "conv_2" }))).toBe("id");
+        expect(paramOf(createConversation({ session: { version: 2, status: "idle", messages: [] } }))).toBe("session");
+        expect(paramOf(createConversation({ session: { version: 1, status: "idle", messages: [{ kind: "x" }] } }))).toBe(
+            "session",
+        );
+        expect(paramOf(createConversation({ updatedAt: "yesterday" }))).toBe("updatedAt");
+        expect(paramOf(createConversation({ pinned: "yes" }))).toBe("pinned");
+        expect(paramOf(createConversation({ stripe: { mode: "sandbox" } }))).toBe("stripe");
+        expect(paramOf(createConversation({ branches: { version: 1 } }))).toBe("branches");
+    });
+});
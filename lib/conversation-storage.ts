@@ -0,0 +1,248 @@
+/**
+ * Storage adapters for persisted conversations.
+ *
+ * A conversation is a serialized ResponseSession plus bookkeeping. Adapters are
+ * async so browser storage, the `/api/conversations` routes and server-side
+ * stores share one interface.
+ */
+
+import { ANONYMOUS_USER } from "@/lib/auth";
+import type { SerializedConversationBranches } from "@/lib/conversation-branches";
+import type { SerializedResponseSession } from "@/lib/responses";
+
+/** Stripe account a conversation worked against, as far as the transcript shows. */
+export interface ConversationStripeContext {
+    accountId?: string;
+    mode?: "test" | "live";
+}
+
+export interface StoredConversation {
+    id: string;
+    updatedAt: number;
+    /** Title chosen by the user; takes precedence over `autoTitle`. */
+    title?: string;
+    /** Title derived from the first user message. */
+    autoTitle?: string;
+    pinned?: boolean;
+    /** User who created the conversation; set by the server store. */
+    ownerId?: string;
+    stripe?: ConversationStripeContext;
+    session: SerializedResponseSession;
+    /** Other versions of the transcript, from edits to earlier user messages. */
+    branches?: SerializedConversationBranches;
+}
+
+export type StoredConversationSummary = Omit<StoredConversation, "session" | "branches">;
+
+export function toConversationSummary({
+    session: _session,
+    branches: _branches,
+    ...summary
+}: StoredConversation): StoredConversationSummary {
+    return summary;
+}
+
+/** Conversations saved before sign-in existed belong to the anonymous user. */
+export function isConversationOwner(conversation: Pick<StoredConversation, "ownerId">, userId: string): boolean {
+    return (conversation.ownerId ?? ANONYMOUS_USER.id) === userId;
+}
+
+/** A conversation sent to be saved does not have the stored shape. */
+export class InvalidConversationError extends Error {
+    public constructor(message: string, public readonly param: string) {
+        super(message);
+        this.name = "InvalidConversationError";
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+const isSessionMessage = (value: unknown): boolean =>
+    isRecord(value) && (value.kind === "input" || value.kind === "output") && isRecord(value.item);
+
+const isSerializedSession = (value: unknown): value is SerializedResponseSession =>
+    isRecord(value) &&
+    value.version === 1 &&
+    isString(value.status) &&
+    Array.isArray(value.messages) &&
+    value.messages.every(isSessionMessage);
+
+const isSerializedBranches = (value: unknown): value is SerializedConversationBranches =>
+    isRecord(value) && value.version === 1 && Array.isArray(value.points);
+
+const isStripeContext = (value: unknown): value is ConversationStripeContext =>
+    isRecord(value) &&
+    (value.accountId === undefined || isString(value.accountId)) &&
+    (value.mode === undefined || value.mode === "test" || value.mode === "live");
+
+const isTimestamp = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/** `value` when it is unset or passes `check`; otherwise `param` is rejected. */
+const optionalField = <T>(value: unknown, check: (value: unknown) => value is T, param: string): T | undefined => {
+    if (value === undefined || check(value)) return value;
+    throw new InvalidConversationError(`${param} is not valid`, param);
+};
+
+/**
+ * Checks a conversation received from a client against the stored shape,
+ * throwing `InvalidConversationError`. Only known fields are kept, and
+ * `ownerId` is left for the server to set.
+ */
+export function parseStoredConversation(raw: unknown, id: string): StoredConversation {
+    if (!isRecord(raw) || raw.id !== id) {
+        throw new InvalidConversationError("Body must be a conversation with a matching id", "id");
+    }
+    if (!isSerializedSession(raw.session)) {
+        throw new InvalidConversationError("session must be a serialized ResponseSession", "session");
+    }
+
+    const conversation: StoredConversation = {
+        id,
+        updatedAt: optionalField(raw.updatedAt, isTimestamp, "updatedAt") ?? Date.now(),
+        session: raw.session,
+    };
+    const title = optionalField(raw.title, isString, "title");
+    if (title !== undefined) conversation.title = title;
+    const autoTitle = optionalField(raw.autoTitle, isString, "autoTitle");
+    if (autoTitle !== undefined) conversation.autoTitle = autoTitle;
+    const pinned = optionalField(raw.pinned, isBoolean, "pinned");
+    if (pinned !== undefined) conversation.pinned = pinned;
+    const stripe = optionalField(raw.stripe, isStripeContext, "stripe");
+    if (stripe !== undefined) conversation.stripe = stripe;
+    const branches = optionalField(raw.branches, isSerializedBranches, "branches");
+    if (branches !== undefined) conversation.branches = branches;
+    return conversation;
+}
+
+export interface ConversationStorage {
+    load(id: string): Promise<StoredConversation | undefined>;
+    save(conversation: StoredConversation): Promise<void>;
+    remove(id: string): Promise<void>;
+    list(): Promise<StoredConversationSummary[]>;
+}
+
+const CONVERSATION_ID_PATTERN = /^[a-zA-Z0-9_-]{1,128}$/;
+
+/** Guards adapters that turn ids into keys, paths or URLs. */
+export function assertConversationId(id: string): void {
+    if (!CONVERSATION_ID_PATTERN.test(id)) {
+        throw new Error(`Invalid conversation id: ${JSON.stringify(id)}`);
+    }
+}
+
+export function createConversationId(): string {
+    return `conv_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+const byMostRecent = (a: StoredConversationSummary, b: StoredConversationSummary) => b.updatedAt - a.updatedAt;
+
+/**
+ * localStorage key for one user's `name`, so people sharing a browser do not
+ * see each other's threads. The anonymous user keeps the keys written before
+ * sign-in existed.
+ */
+export function getUserStorageKey(userId: string, name: string): string {
+    return userId === ANONYMOUS_USER.id
+        ? `groq-stripe-chat:${name}`
+        : `groq-stripe-chat:user:${encodeURIComponent(userId)}:${name}`;
+}
+
+/** Keeps conversations in `window.localStorage`, one key per conversation. */
+export class LocalStorageConversationStorage implements ConversationStorage {
+    public constructor(private readonly prefix = getUserStorageKey(ANONYMOUS_USER.id, "conversation:")) {}
+
+    public async load(id: string): Promise<StoredConversation | undefined> {
+        assertConversationId(id);
+        const raw = window.localStorage.getItem(this.prefix + id);
+        return raw ? (JSON.parse(raw) as StoredConversation) : undefined;
+    }
+
+    public async save(conversation: StoredConversation): Promise<void> {
+        assertConversationId(conversation.id);
+        window.localStorage.setItem(this.prefix + conversation.id, JSON.stringify(conversation));
+    }
+
+    public async remove(id: string): Promise<void> {
+        assertConversationId(id);
+        window.localStorage.removeItem(this.prefix + id);
+    }
+
+    public async list(): Promise<StoredConversationSummary[]> {
+        const summaries: StoredConversationSummary[] = [];
+        for (let index = 0; index < window.localStorage.length; index++) {
+            const key = window.localStorage.key(index);
+            if (!key?.startsWith(this.prefix)) continue;
+            try {
+                const stored = JSON.parse(window.localStorage.getItem(key) ?? "") as StoredConversation;
+                summaries.push(toConversationSummary(stored));
+            } catch {
+                // Skip entries written by an incompatible version.
+            }
+        }
+        return summaries.sort(byMostRecent);
+    }
+}
+
+/** Talks to the `/api/conversations` routes, which use a server-side store. */
+export class HttpConversationStorage implements ConversationStorage {
+    public constructor(private readonly endpoint = "/api/conversations") {}
+
+    public async load(id: string): Promise<StoredConversation | undefined> {
+        assertConversationId(id);
+        const response = await fetch(`${this.endpoint}/${id}`);
+        if (response.status === 404) return undefined;
+        await this.assertOk(response, "load");
+        return (await response.json()) as StoredConversation;
+    }
+
+    public async save(conversation: StoredConversation): Promise<void> {
+        assertConversationId(conversation.id);
+        const response = await fetch(`${this.endpoint}/${conversation.id}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(conversation),
+        });
+        await this.assertOk(response, "save");
+    }
+
+    public async remove(id: string): Promise<void> {
+        assertConversationId(id);
+        const response = await fetch(`${this.endpoint}/${id}`, { method: "DELETE" });
+        await this.assertOk(response, "delete");
+    }
+
+    public async list(): Promise<StoredConversationSummary[]> {
+        const response = await fetch(this.endpoint);
+        await this.assertOk(response, "list");
+        const { conversations } = (await response.json()) as { conversations: StoredConversationSummary[] };
+        return conversations;
+    }
+
+    private async assertOk(response: Response, action: string): Promise<void> {
+        if (!response.ok) {
+            throw new Error(`Failed to ${action} conversation: ${response.status} ${response.statusText}`);
+        }
+    }
+}
+
+const defaultStorages = new Map<string, ConversationStorage>();
+
+/**
+ * Browser default for `userId`, shared by every hook: their localStorage
+ * keys, or the server store when `NEXT_PUBLIC_CONVERSATION_STORAGE=server`.
+ */
+export function getDefaultConversationStorage(userId: string = ANONYMOUS_USER.id): ConversationStorage {
+    let storage = defaultStorages.get(userId);
+    if (!storage) {
+        storage =
+            process.env.NEXT_PUBLIC_CONVERSATION_STORAGE === "server"
+                ? new HttpConversationStorage()
+                : new LocalStorageConversationStorage(getUserStorageKey(userId, "conversation:"));
+        defaultStorages.set(userId, storage);
+    }
+    return storage;
+}
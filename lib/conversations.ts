@@ -0,0 +1,297 @@
+/**
+ * Keeps one ResponseSession per conversation alive across thread switches.
+ *
+ * The manager owns session instances, their in-flight stream controllers and
+ * their persistence, so a response keeps streaming (and saving) into its own
+ * thread while the UI shows another one.
+ */
+
+import type { ResponseOutputItem } from "openai/resources/responses/responses";
+
+import { ConversationBranches, type SerializedConversationBranches } from "@/lib/conversation-branches";
+import {
+    toConversationSummary,
+    type ConversationStorage,
+    type ConversationStripeContext,
+    type StoredConversation,
+    type StoredConversationSummary,
+} from "@/lib/conversation-storage";
+import { ResponseSession, type ResponseSessionMessage } from "@/lib/responses";
+
+const SAVE_DEBOUNCE_MS = 500;
+const TITLE_MAX_LENGTH = 60;
+
+type ConversationMeta = Omit<StoredConversationSummary, "id">;
+
+interface ManagedConversation {
+    id: string;
+    persist: boolean;
+    meta: ConversationMeta;
+    session?: ResponseSession;
+    branches?: ConversationBranches;
+    loading?: Promise<ResponseSession>;
+    controller?: AbortController;
+    saveTimer?: ReturnType<typeof setTimeout>;
+    unsubscribe?: () => void;
+}
+
+export interface OpenConversationOptions {
+    /** Ephemeral conversations are never written to storage. */
+    persist?: boolean;
+}
+
+/** Title derived from the first user message, shortened for the sidebar. */
+export function deriveConversationTitle(messages: ReadonlyArray<ResponseSessionMessage>): string | undefined {
+    for (const message of messages) {
+        if (message.kind !== "input" || message.item.type !== "message" || message.item.role !== "user") continue;
+        const content = message.item.content;
+        const text = (
+            typeof content === "string"
+                ? content
+                : content.map((part) => (part.type === "input_text" ? part.text : "")).join(" ")
+        )
+            .replace(/\s+/g, " ")
+            .trim();
+        if (!text) continue;
+        return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : text;
+    }
+    return undefined;
+}
+
+/**
+ * Reads the Stripe account id and live/test mode from MCP call outputs, which
+ * carry `acct_` ids and `livemode` flags.
+ */
+export function deriveStripeContext(
+    messages: ReadonlyArray<ResponseSessionMessage>,
+): ConversationStripeContext | undefined {
+    const context: ConversationStripeContext = {};
+
+    messages.forEach((message) => {
+        if (message.kind !== "output" || message.item.type !== "mcp_call") return;
+        const call = message.item as ResponseOutputItem.McpCall;
+        if (call.server_label !== "stripe" || !call.output) return;
+
+        const accountMatch = call.output.match(/"(?:account_)?id"\s*:\s*"(acct_[A-Za-z0-9]+)"/);
+        if (accountMatch && call.name === "get_stripe_account_info") {
+            context.accountId = accountMatch[1];
+        }
+        const modeMatch = call.output.match(/"livemode"\s*:\s*(true|false)/);
+        if (modeMatch) {
+            context.mode = modeMatch[1] === "true" ? "live" : "test";
+        }
+    });
+
+    return context.accountId || context.mode ? context : undefined;
+}
+
+export class ConversationManager {
+    private readonly conversations = new Map<string, ManagedConversation>();
+    private readonly listeners = new Set<(summaries: ReadonlyArray<StoredConversationSummary>) => void>();
+    private summaries: StoredConversationSummary[] = [];
+    private summariesLoaded?: Promise<void>;
+
+    public constructor(private readonly storage: ConversationStorage) {}
+
+    /** Returns the live session if it is already loaded. */
+    public peek(id: string): ResponseSession | undefined {
+        return this.conversations.get(id)?.session;
+    }
+
+    /** Loads (once) and returns the session for a conversation. */
+    public open(id: string, options: OpenConversationOptions = {}): Promise<ResponseSession> {
+        const entry = this.ensureEntry(id, options.persist ?? true);
+        if (entry.session) return Promise.resolve(entry.session);
+        if (entry.loading) return entry.loading;
+
+        const load = entry.persist
+            ? this.storage.load(id).catch((error) => {
+                  console.warn("Failed to load conversation", id, error);
+                  return undefined;
+              })
+            : Promise.resolve(undefined);
+
+        entry.loading = load.then((stored) => {
+            if (stored) {
+                entry.meta = toConversationSummary(stored);
+            }
+            const session = stored ? ResponseSession.fromJSON(stored.session) : new ResponseSession();
+            this.attach(entry, session, stored?.branches);
+            entry.loading = undefined;
+            return session;
+        });
+        return entry.loading;
+    }
+
+    /** Branches of a conversation opened with `open()`. */
+    public getBranches(id: string): ConversationBranches | undefined {
+        return this.conversations.get(id)?.branches;
+    }
+
+    public isStreaming(id: string): boolean {
+        return this.conversations.get(id)?.controller !== undefined;
+    }
+
+    /** Registers a new stream for a conversation, aborting any previous one. */
+    public beginStream(id: string): AbortController {
+        const entry = this.ensureEntry(id, true);
+        entry.controller?.abort();
+        entry.controller = new AbortController();
+        return entry.controller;
+    }
+
+    public endStream(id: string, controller: AbortController): void {
+        const entry = this.conversations.get(id);
+        if (entry?.controller === controller) {
+            entry.controller = undefined;
+        }
+    }
+
+    public cancelStream(id: string): void {
+        const entry = this.conversations.get(id);
+        if (!entry?.controller) return;
+        entry.controller.abort();
+        entry.controller = undefined;
+    }
+
+    public subscribe(listener: (summaries: ReadonlyArray<StoredConversationSummary>) => void): () => void {
+        this.listeners.add(listener);
+        void this.loadSummaries();
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    public getSummaries(): ReadonlyArray<StoredConversationSummary> {
+        return this.summaries;
+    }
+
+    public async rename(id: string, title: string): Promise<void> {
+        const trimmed = title.trim();
+        await this.updateMeta(id, { title: trimmed || undefined });
+    }
+
+    public async setPinned(id: string, pinned: boolean): Promise<void> {
+        await this.updateMeta(id, { pinned });
+    }
+
+    public async remove(id: string): Promise<void> {
+        const entry = this.conversations.get(id);
+        if (entry) {
+            entry.controller?.abort();
+            if (entry.saveTimer !== undefined) clearTimeout(entry.saveTimer);
+            entry.unsubscribe?.();
+            this.conversations.delete(id);
+        }
+        await this.storage.remove(id);
+        this.setSummaries(this.summaries.filter((summary) => summary.id !== id));
+    }
+
+    private ensureEntry(id: string, persist: boolean): ManagedConversation {
+        let entry = this.conversations.get(id);
+        if (!entry) {
+            entry = { id, persist, meta: { updatedAt: Date.now() } };
+            this.conversations.set(id, entry);
+        }
+        return entry;
+    }
+
+    private attach(
+        entry: ManagedConversation,
+        session: ResponseSession,
+        branches?: SerializedConversationBranches,
+    ): void {
+        entry.session = session;
+        entry.branches = new ConversationBranches(session, branches);
+        if (!entry.persist) return;
+        entry.unsubscribe = session.on("change", () => {
+            if (entry.saveTimer === undefined) {
+                entry.saveTimer = setTimeout(() => {
+                    entry.saveTimer = undefined;
+                    void this.save(entry, true);
+                }, SAVE_DEBOUNCE_MS);
+            }
+        });
+    }
+
+    private async save(entry: ManagedConversation, touched: boolean): Promise<void> {
+        const session = entry.session;
+        if (!session || session.getMessages().length === 0) return;
+
+        const messages = session.getMessages();
+        entry.meta = {
+            ...entry.meta,
+            updatedAt: touched ? Date.now() : entry.meta.updatedAt,
+            autoTitle: deriveConversationTitle(messages) ?? entry.meta.autoTitle,
+            stripe: deriveStripeContext(messages) ?? entry.meta.stripe,
+        };
+
+        const conversation: StoredConversation = {
+            ...entry.meta,
+            id: entry.id,
+            session: session.toJSON(),
+            ...(entry.branches?.hasBranches() ? { branches: entry.branches.toJSON() } : {}),
+        };
+        try {
+            await this.storage.save(conversation);
+            this.upsertSummary(toConversationSummary(conversation));
+        } catch (error) {
+            console.warn("Failed to save conversation", entry.id, error);
+        }
+    }
+
+    private async updateMeta(id: string, patch: Partial<ConversationMeta>): Promise<void> {
+        const entry = this.conversations.get(id);
+        if (entry?.session) {
+            entry.meta = { ...entry.meta, ...patch };
+            await this.save(entry, false);
+            return;
+        }
+
+        const stored = await this.storage.load(id);
+        if (!stored) return;
+        const updated = { ...stored, ...patch };
+        await this.storage.save(updated);
+        this.upsertSummary(toConversationSummary(updated));
+    }
+
+    private loadSummaries(): Promise<void> {
+        if (!this.summariesLoaded) {
+            this.summariesLoaded = this.storage
+                .list()
+                .then((summaries) => {
+                    // Keep entries saved while the list was loading.
+                    const known = new Set(this.summaries.map((summary) => summary.id));
+                    this.setSummaries([...this.summaries, ...summaries.filter((summary) => !known.has(summary.id))]);
+                })
+                .catch((error) => {
+                    this.summariesLoaded = undefined;
+                    console.warn("Failed to list conversations", error);
+                });
+        }
+        return this.summariesLoaded;
+    }
+
+    private upsertSummary(summary: StoredConversationSummary): void {
+        this.setSummaries([summary, ...this.summaries.filter((candidate) => candidate.id !== summary.id)]);
+    }
+
+    private setSummaries(summaries: StoredConversationSummary[]): void {
+        this.summaries = summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+        this.listeners.forEach((listener) => {
+            listener(this.summaries);
+        });
+    }
+}
+
+const managers = new WeakMap<ConversationStorage, ConversationManager>();
+
+/** One manager per storage adapter, shared by every hook using that adapter. */
+export function getConversationManager(storage: ConversationStorage): ConversationManager {
+    let manager = managers.get(storage);
+    if (!manager) {
+        manager = new ConversationManager(storage);
+        managers.set(storage, manager);
+    }
+    return manager;
+}
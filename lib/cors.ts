@@ -0,0 +1,38 @@
+/**
+ * Cross-origin access to the API routes.
+ *
+ * Same-origin requests need no headers. Other origins must be listed in
+ * `CORS_ALLOWED_ORIGINS` (comma-separated, e.g. `https://app.example.com`);
+ * because requests carry the session cookie, the wildcard is never sent.
+ */
+
+const ALLOWED_HEADERS = "Content-Type, Last-Event-ID";
+const EXPOSED_HEADERS = "X-Stream-Id, X-Recording-Id, Retry-After";
+const ALLOWED_METHODS = "GET, POST, PUT, DELETE, OPTIONS";
+
+export function getAllowedOrigins(env: NodeJS.ProcessEnv = process.env): string[] {
+    return (env.CORS_ALLOWED_ORIGINS ?? "")
+        .split(",")
+        .map((origin) => origin.trim().replace(/\/+$/, ""))
+        .filter(Boolean);
+}
+
+export function isOriginAllowed(origin: string, env: NodeJS.ProcessEnv = process.env): boolean {
+    return getAllowedOrigins(env).includes(origin);
+}
+
+/**
+ * Headers granting `origin` access, or undefined when there is no origin or
+ * it is not allowed.
+ */
+export function getCorsHeaders(origin: string | null, env: NodeJS.ProcessEnv = process.env): Headers | undefined {
+    if (!origin || !isOriginAllowed(origin, env)) return undefined;
+    return new Headers({
+        "Access-Control-Allow-Origin": origin,
+        "Access-Control-Allow-Credentials": "true",
+        "Access-Control-Allow-Headers": ALLOWED_HEADERS,
+        "Access-Control-Allow-Methods": ALLOWED_METHODS,
+        "Access-Control-Expose-Headers": EXPOSED_HEADERS,
+        "Vary": "Origin",
+    });
+}
@@ -0,0 +1,32 @@
+import type { ResponseInputItem } from "openai/resources/responses/responses";
+import { describe, expect, it } from "vitest";
+
+import { findForbiddenApproval } from "@/lib/mcp-approval";
+import type { UserRole } from "@/lib/roles";
+
+const support: UserRole = { name: "support", tools: ["list_customers"] };
+
+const approvalOf = (id: string, serverLabel: string, name: string): ResponseInputItem[] => [
+    { type: "mcp_approval_request", id, server_label: serverLabel, name, arguments: "{}" },
+    { type: "mcp_approval_response", approval_request_id: id, approve: true },
+];
+
+describe("findForbiddenApproval", () => {
+    it("refuses a Stripe tool outside the role", () => {
+        expect(findForbiddenApproval(approvalOf("mcpr_1", "stripe", "create_refund"), support)).toEqual({
+            approvalRequestId: "mcpr_1",
+            toolName: "create_refund",
+        });
+    });
+
+    it("allows tools on servers roles do not cover", () => {
+        expect(findForbiddenApproval(approvalOf("mcpr_2", "docs", "create_refund"), support)).toBeUndefined();
+    });
+
+    it("refuses an approval whose request it cannot find", () => {
+        const input: ResponseInputItem[] = [
+            { type: "mcp_approval_response", approval_request_id: "mcpr_unknown", approve: true },
+        ];
+        expect(findForbiddenApproval(input, support)).toEqual({ approvalRequestId: "mcpr_unknown", toolName: undefined });
+    });
+});
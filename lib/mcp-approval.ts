@@ -0,0 +1,222 @@
+/**
+ * Approval policy for MCP tool calls.
+ *
+ * The policy decides, per tool, whether the Responses API should pause for an
+ * `mcp_approval_request` before running it. Defaults live in
+ * `config/mcp-approval.json`; a deployment can point `MCP_APPROVAL_CONFIG` at
+ * its own file or list tool names in `MCP_APPROVAL_ALWAYS` / `MCP_APPROVAL_NEVER`.
+ *
+ * Approval requests the upstream raises are remembered, so an approval sent
+ * back later can be checked against the tool it would run.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { ResponseInputItem, ResponseOutputItem, Tool } from "openai/resources/responses/responses";
+
+import defaultConfig from "@/config/mcp-approval.json";
+import { ALL_TOOLS, isToolAllowed, type UserRole } from "@/lib/roles";
+import { classifyStripeTool, STRIPE_MCP_TOOLS, type StripeToolAccess } from "@/lib/stripe-tools";
+
+export type ApprovalMode = "always" | "never";
+
+export interface McpApprovalPolicy {
+    /** Mode applied to tools classified as read-only. */
+    read_only: ApprovalMode;
+    /** Mode applied to tools that create, update, cancel or refund. */
+    mutating: ApprovalMode;
+    /** Per-tool overrides, taking precedence over the classification. */
+    tools: Record<string, ApprovalMode>;
+}
+
+export type McpRequireApproval = NonNullable<Tool.Mcp["require_approval"]>;
+
+const isApprovalMode = (value: unknown): value is ApprovalMode => value === "always" || value === "never";
+
+const parseToolList = (value: string | undefined): string[] =>
+    (value ?? "")
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean);
+
+/** Validates a (partial) policy object, throwing on unknown modes. */
+export function parseApprovalPolicy(raw: unknown, source: string): Partial<McpApprovalPolicy> {
+    if (!raw || typeof raw !== "object") {
+        throw new Error(`Invalid MCP approval policy in ${source}: expected an object`);
+    }
+    const input = raw as Record<string, unknown>;
+    const policy: Partial<McpApprovalPolicy> = {};
+
+    (["read_only", "mutating"] as const).forEach((key) => {
+        if (input[key] === undefined) return;
+        if (!isApprovalMode(input[key])) {
+            throw new Error(`Invalid MCP approval policy in ${source}: "${key}" must be "always" or "never"`);
+        }
+        policy[key] = input[key];
+    });
+
+    if (input.tools !== undefined) {
+        if (!input.tools || typeof input.tools !== "object") {
+            throw new Error(`Invalid MCP approval policy in ${source}: "tools" must be an object`);
+        }
+        policy.tools = {};
+        Object.entries(input.tools as Record<string, unknown>).forEach(([name, mode]) => {
+            if (!isApprovalMode(mode)) {
+                throw new Error(`Invalid MCP approval policy in ${source}: tool "${name}" must be "always" or "never"`);
+            }
+            policy.tools![name] = mode;
+        });
+    }
+
+    return policy;
+}
+
+export function mergeApprovalPolicy(
+    base: McpApprovalPolicy,
+    override: Partial<McpApprovalPolicy>,
+): McpApprovalPolicy {
+    return {
+        read_only: override.read_only ?? base.read_only,
+        mutating: override.mutating ?? base.mutating,
+        tools: { ...base.tools, ...override.tools },
+    };
+}
+
+let cachedPolicy: McpApprovalPolicy | undefined;
+
+/** Loads the deployment policy once per process. */
+export function loadApprovalPolicy(env: NodeJS.ProcessEnv = process.env): McpApprovalPolicy {
+    if (cachedPolicy && env === process.env) return cachedPolicy;
+
+    let policy = mergeApprovalPolicy(
+        { read_only: "never", mutating: "always", tools: {} },
+        parseApprovalPolicy(defaultConfig, "config/mcp-approval.json"),
+    );
+
+    if (env.MCP_APPROVAL_CONFIG) {
+        const file = path.resolve(process.cwd(), env.MCP_APPROVAL_CONFIG);
+        const raw = JSON.parse(readFileSync(file, "utf8")) as unknown;
+        policy = mergeApprovalPolicy(policy, parseApprovalPolicy(raw, file));
+    }
+
+    const tools = { ...policy.tools };
+    parseToolList(env.MCP_APPROVAL_ALWAYS).forEach((name) => {
+        tools[name] = "always";
+    });
+    parseToolList(env.MCP_APPROVAL_NEVER).forEach((name) => {
+        tools[name] = "never";
+    });
+    policy = { ...policy, tools };
+
+    if (env === process.env) {
+        cachedPolicy = policy;
+    }
+    return policy;
+}
+
+/**
+ * Tightens a policy for a live-mode Stripe key: every mutating tool asks for
+ * approval, whatever the configured defaults or overrides say.
+ */
+export function enforceLiveModeApproval(
+    policy: McpApprovalPolicy,
+    classify: (name: string) => StripeToolAccess = classifyStripeTool,
+): McpApprovalPolicy {
+    const tools = Object.fromEntries(
+        Object.entries(policy.tools).filter(([name, mode]) => mode === "always" || classify(name) === "read_only"),
+    );
+    return { ...policy, mutating: "always", tools };
+}
+
+export function resolveApprovalMode(
+    policy: McpApprovalPolicy,
+    toolName: string,
+    classify: (name: string) => StripeToolAccess = classifyStripeTool,
+): ApprovalMode {
+    return policy.tools[toolName] ?? policy[classify(toolName)];
+}
+
+/**
+ * Builds the Responses API `require_approval` filter for the given tool names.
+ * Tools outside the list fall back to the upstream default, which asks for approval.
+ */
+export function buildRequireApproval(
+    policy: McpApprovalPolicy,
+    toolNames: ReadonlyArray<string> = Object.keys(STRIPE_MCP_TOOLS),
+): McpRequireApproval {
+    const names = new Set([...toolNames, ...Object.keys(policy.tools)]);
+    const always: string[] = [];
+    const never: string[] = [];
+
+    names.forEach((name) => {
+        (resolveApprovalMode(policy, name) === "always" ? always : never).push(name);
+    });
+
+    const filter: Tool.Mcp.McpToolApprovalFilter = {};
+    if (always.length) filter.always = { tool_names: always };
+    if (never.length) filter.never = { tool_names: never };
+    return filter;
+}
+
+const MAX_ISSUED_APPROVAL_REQUESTS = 10_000;
+
+export interface IssuedApprovalRequest {
+    name: string;
+    serverLabel: string;
+}
+
+/** Approval requests streamed from this process, by request id. */
+const issuedApprovalRequests = new Map<string, IssuedApprovalRequest>();
+
+export function recordApprovalRequest(request: ResponseOutputItem.McpApprovalRequest): void {
+    issuedApprovalRequests.delete(request.id);
+    issuedApprovalRequests.set(request.id, { name: request.name, serverLabel: request.server_label });
+    if (issuedApprovalRequests.size > MAX_ISSUED_APPROVAL_REQUESTS) {
+        const oldest = issuedApprovalRequests.keys().next().value;
+        if (oldest !== undefined) issuedApprovalRequests.delete(oldest);
+    }
+}
+
+/**
+ * The tool an approval request asks to run: the remembered request, or for
+ * ones streamed before this process started, the request replayed in `input`.
+ */
+export function findApprovalRequest(
+    approvalRequestId: string,
+    input: ReadonlyArray<ResponseInputItem> = [],
+): IssuedApprovalRequest | undefined {
+    const issued = issuedApprovalRequests.get(approvalRequestId);
+    if (issued) return issued;
+    for (const item of input) {
+        if (item.type === "mcp_approval_request" && item.id === approvalRequestId) {
+            return { name: item.name, serverLabel: item.server_label };
+        }
+    }
+    return undefined;
+}
+
+export interface ForbiddenApproval {
+    approvalRequestId: string;
+    /** Undefined when the request is neither remembered nor in the input. */
+    toolName?: string;
+}
+
+/**
+ * The first approval in `input` that `role` may not give. Denials are always
+ * allowed, and an approval whose tool cannot be told is refused.
+ */
+export function findForbiddenApproval(
+    input: ReadonlyArray<ResponseInputItem>,
+    role: UserRole,
+): ForbiddenApproval | undefined {
+    if (role.tools === ALL_TOOLS) return undefined;
+
+    for (const item of input) {
+        if (item.type !== "mcp_approval_response" || !item.approve) continue;
+        const request = findApprovalRequest(item.approval_request_id, input);
+        if (!request || !isToolAllowed(role, request.name, request.serverLabel)) {
+            return { approvalRequestId: item.approval_request_id, toolName: request?.name };
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,27 @@
+import type { Tool } from "openai/resources/responses/responses";
+import { describe, expect, it } from "vitest";
+
+import { restrictMcpTools } from "@/lib/mcp-servers";
+import { ALL_TOOLS, type UserRole } from "@/lib/roles";
+
+const stripe: Tool.Mcp = { type: "mcp", server_label: "stripe", server_url: "https://mcp.stripe.com" };
+const docs: Tool.Mcp = { type: "mcp", server_label: "docs", server_url: "https://docs.example.com/mcp" };
+
+const support: UserRole = { name: "support", tools: ["list_customers", "retrieve_balance"] };
+
+describe("restrictMcpTools", () => {
+    it("limits only the Stripe server in a mixed server list", () => {
+        expect(restrictMcpTools([stripe, docs], support)).toEqual([
+            { ...stripe, allowed_tools: ["list_customers", "retrieve_balance"] },
+            docs,
+        ]);
+    });
+
+    it("drops the Stripe server but keeps the others for a role without tools", () => {
+        expect(restrictMcpTools([docs, stripe], { name: "viewer", tools: [] })).toEqual([docs]);
+    });
+
+    it("leaves every server alone for a role with all tools", () => {
+        expect(restrictMcpTools([stripe, docs], { name: "admin", tools: ALL_TOOLS })).toEqual([stripe, docs]);
+    });
+});
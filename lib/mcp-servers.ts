@@ -0,0 +1,233 @@
+/**
+ * Registry of MCP servers the chat route can attach to a conversation.
+ *
+ * Servers are declared in `config/mcp-servers.json` (or the file named by
+ * `MCP_SERVERS_CONFIG`). Credentials are resolved from the environment on the
+ * server only; the client sees the public `McpServerInfo` view.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import type { Tool } from "openai/resources/responses/responses";
+
+import defaultServers from "@/config/mcp-servers.json";
+import {
+    buildRequireApproval,
+    enforceLiveModeApproval,
+    loadApprovalPolicy,
+    type ApprovalMode,
+    type McpApprovalPolicy,
+    type McpRequireApproval,
+} from "@/lib/mcp-approval";
+import { ALL_TOOLS, type UserRole } from "@/lib/roles";
+import { STRIPE_SERVER_LABEL } from "@/lib/stripe-accounts";
+import { isLiveStripeKey } from "@/lib/stripe-keys";
+
+export interface McpServerAuth {
+    /** Environment variable holding the credential. */
+    env: string;
+    /** Header to send the credential in. Defaults to `Authorization`. */
+    header?: string;
+    /** Optional scheme prefix, e.g. `Bearer`. */
+    scheme?: string;
+}
+
+export interface McpServerConfig {
+    label: string;
+    name?: string;
+    description?: string;
+    url: string;
+    /** Environment variable that, when set, replaces `url` (e.g. to point at a local mock). */
+    urlEnv?: string;
+    auth?: McpServerAuth;
+    /**
+     * `policy` applies the deployment approval policy (see `lib/mcp-approval.ts`);
+     * `always` / `never` apply to every tool on the server.
+     */
+    approval?: ApprovalMode | "policy";
+    /** Whether the server is attached when the client does not choose. */
+    enabled?: boolean;
+}
+
+/** Client-safe view of a registered server. */
+export interface McpServerInfo {
+    label: string;
+    name: string;
+    description?: string;
+    enabled: boolean;
+    /** False when the server's credential is missing from the environment. */
+    available: boolean;
+}
+
+const LABEL_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export function parseServerRegistry(raw: unknown, source: string): McpServerConfig[] {
+    if (!Array.isArray(raw)) {
+        throw new Error(`Invalid MCP server registry in ${source}: expected an array`);
+    }
+
+    const seen = new Set<string>();
+    return raw.map((entry, index) => {
+        const server = entry as Partial<McpServerConfig> | null;
+        if (!server || typeof server.label !== "string" || !LABEL_PATTERN.test(server.label)) {
+            throw new Error(`Invalid MCP server registry in ${source}: entry ${index} needs a label of letters, digits, "_" or "-"`);
+        }
+        if (seen.has(server.label)) {
+            throw new Error(`Invalid MCP server registry in ${source}: duplicate label "${server.label}"`);
+        }
+        if (typeof server.url !== "string" || !server.url) {
+            throw new Error(`Invalid MCP server registry in ${source}: server "${server.label}" needs a url`);
+        }
+        if (server.urlEnv !== undefined && typeof server.urlEnv !== "string") {
+            throw new Error(`Invalid MCP server registry in ${source}: server "${server.label}" urlEnv must be a string`);
+        }
+        if (server.auth && typeof server.auth.env !== "string") {
+            throw new Error(`Invalid MCP server registry in ${source}: server "${server.label}" auth needs an env name`);
+        }
+        if (server.approval !== undefined && !["always", "never", "policy"].includes(server.approval)) {
+            throw new Error(`Invalid MCP server registry in ${source}: server "${server.label}" has unknown approval "${server.approval}"`);
+        }
+        seen.add(server.label);
+        return server as McpServerConfig;
+    });
+}
+
+let cachedRegistry: McpServerConfig[] | undefined;
+
+/** Loads the server registry once per process. */
+export function loadServerRegistry(env: NodeJS.ProcessEnv = process.env): McpServerConfig[] {
+    if (cachedRegistry && env === process.env) return cachedRegistry;
+
+    let registry: McpServerConfig[];
+    if (env.MCP_SERVERS_CONFIG) {
+        const file = path.resolve(process.cwd(), env.MCP_SERVERS_CONFIG);
+        registry = parseServerRegistry(JSON.parse(readFileSync(file, "utf8")), file);
+    } else {
+        registry = parseServerRegistry(defaultServers, "config/mcp-servers.json");
+    }
+
+    if (env === process.env) {
+        cachedRegistry = registry;
+    }
+    return registry;
+}
+
+/**
+ * A credential supplied for one request, used instead of the server's
+ * environment variable, e.g. a Stripe key the user saved.
+ */
+export interface McpServerCredential {
+    secret: string;
+    /** Extra headers to send, e.g. `Stripe-Account`. */
+    headers?: Record<string, string>;
+}
+
+const hasCredential = (server: McpServerConfig, env: NodeJS.ProcessEnv): boolean =>
+    !server.auth || Boolean(env[server.auth.env]);
+
+export function toServerInfo(server: McpServerConfig, env: NodeJS.ProcessEnv = process.env): McpServerInfo {
+    return {
+        label: server.label,
+        name: server.name ?? server.label,
+        description: server.description,
+        enabled: server.enabled ?? true,
+        available: hasCredential(server, env),
+    };
+}
+
+/**
+ * Picks the servers for a request. When the client sends no selection the
+ * registry's `enabled` flags apply; unknown labels are ignored.
+ */
+export function selectServers(
+    registry: ReadonlyArray<McpServerConfig>,
+    requested?: ReadonlyArray<string>,
+): McpServerConfig[] {
+    if (!requested) {
+        return registry.filter((server) => server.enabled ?? true);
+    }
+    const wanted = new Set(requested);
+    return registry.filter((server) => wanted.has(server.label));
+}
+
+/**
+ * Resolves `require_approval` for a server. A live-mode Stripe credential
+ * overrides any configuration that would let mutating tools run unattended.
+ */
+function resolveRequireApproval(
+    server: McpServerConfig,
+    env: NodeJS.ProcessEnv,
+    credential?: McpServerCredential,
+): McpRequireApproval {
+    const approval = server.approval ?? "always";
+    const liveMode = server.auth !== undefined && isLiveStripeKey(credential?.secret ?? env[server.auth.env]);
+
+    if (approval === "always") return "always";
+    if (!liveMode) {
+        return approval === "policy" ? buildRequireApproval(loadApprovalPolicy(env)) : approval;
+    }
+
+    const policy: McpApprovalPolicy =
+        approval === "policy" ? loadApprovalPolicy(env) : { read_only: "never", mutating: "never", tools: {} };
+    return buildRequireApproval(enforceLiveModeApproval(policy));
+}
+
+export function buildMcpTool(
+    server: McpServerConfig,
+    env: NodeJS.ProcessEnv = process.env,
+    credential?: McpServerCredential,
+): Tool.Mcp {
+    const tool: Tool.Mcp = {
+        type: "mcp",
+        server_label: server.label,
+        server_url: (server.urlEnv && env[server.urlEnv]) || server.url,
+        require_approval: resolveRequireApproval(server, env, credential),
+    };
+
+    if (server.description) {
+        tool.server_description = server.description;
+    }
+
+    if (server.auth) {
+        const secret = credential?.secret ?? env[server.auth.env] ?? "";
+        tool.headers = {
+            ...credential?.headers,
+            [server.auth.header ?? "Authorization"]: server.auth.scheme ? `${server.auth.scheme} ${secret}` : secret,
+        };
+    }
+
+    return tool;
+}
+
+/**
+ * Builds the `tools` array for the servers that have credentials, either
+ * configured in the environment or passed in `credentials` by label.
+ */
+export function buildMcpTools(
+    servers: ReadonlyArray<McpServerConfig>,
+    env: NodeJS.ProcessEnv = process.env,
+    credentials: ReadonlyMap<string, McpServerCredential> = new Map(),
+): Tool.Mcp[] {
+    return servers.flatMap((server) => {
+        const credential = credentials.get(server.label);
+        if (!credential && !hasCredential(server, env)) {
+            console.warn(`Skipping MCP server "${server.label}": ${server.auth?.env} is not set`);
+            return [];
+        }
+        return [buildMcpTool(server, env, credential)];
+    });
+}
+
+/**
+ * Limits the Stripe server to what `role` may call through its
+ * `allowed_tools` filter, dropping it for a role without any tools. Role
+ * tool lists name Stripe tools, so other servers are left as they are.
+ */
+export function restrictMcpTools(tools: ReadonlyArray<Tool.Mcp>, role: UserRole): Tool.Mcp[] {
+    if (role.tools === ALL_TOOLS) return [...tools];
+    const allowed = [...role.tools];
+    return tools.flatMap((tool) => {
+        if (tool.server_label !== STRIPE_SERVER_LABEL) return [tool];
+        return allowed.length === 0 ? [] : [{ ...tool, allowed_tools: allowed }];
+    });
+}
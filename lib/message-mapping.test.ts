@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { toViewMessages } from "@/lib/message-mapping";
+import { ResponseSession } from "@/lib/responses";
+
+const mcpCall = (id: string, outputIndex: number) => ({
+    kind: "output" as const,
+    outputIndex,
+    events: [],
+    item: { id, type: "mcp_call" as const, name: "list_customers", server_label: "stripe", arguments: "{}" },
+});
+
+describe("toViewMessages", () => {
+    it("labels outputs with the metadata their turn was sent with", () => {
+        const session = new ResponseSession();
+        session.addInput({ role: "user", content: "list customers" });
+        session.setPendingInputMetadata({ stripe_account_name: "Acme (test)" });
+        session.appendMessages([mcpCall("mcp_1", 0)]);
+        session.addInput({ role: "user", content: "again" });
+        session.setPendingInputMetadata({ stripe_account_name: "Globex (live)" });
+        session.appendMessages([mcpCall("mcp_2", 0)]);
+
+        const accounts = toViewMessages(session.getMessages()).map(
+            (message) => message.requestMetadata?.stripe_account_name,
+        );
+        expect(accounts).toEqual([undefined, "Acme (test)", undefined, "Globex (live)"]);
+    });
+
+    it("leaves outputs of turns sent without metadata unlabelled", () => {
+        const session = new ResponseSession();
+        session.addInput({ role: "user", content: "list customers" });
+        session.appendMessages([mcpCall("mcp_1", 0)]);
+        session.addInput({ role: "user", content: "again" });
+        session.setPendingInputMetadata({ stripe_account_name: "Acme (test)" });
+
+        expect(toViewMessages(session.getMessages())[1].requestMetadata).toBeUndefined();
+        expect(session.getMessages()[0]).not.toHaveProperty("metadata");
+    });
+});
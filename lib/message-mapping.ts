@@ -0,0 +1,144 @@
+/**
+ * Maps session messages to the two shapes the app needs: input items for the
+ * next upstream request, and view-models for the chat transcript.
+ *
+ * Keeping the directions separate means the UI never has to parse what was
+ * sent upstream, and upstream items keep their ids, summaries and encrypted
+ * reasoning content.
+ */
+
+import type {
+    ResponseInputItem,
+    ResponseOutputItem,
+    ResponseOutputMessage,
+    ResponseReasoningItem,
+} from "openai/resources/responses/responses";
+
+import type { ResponseSessionMessage } from "@/lib/responses";
+
+export interface InputMappingOptions {
+    /**
+     * Send reasoning items back to the model. Only models that accept
+     * reasoning input should get them; for others they are dropped.
+     */
+    includeReasoning: boolean;
+}
+
+const hasReasoningText = (item: ResponseReasoningItem): boolean =>
+    Boolean(item.encrypted_content) ||
+    item.summary.some((part) => part.text !== "") ||
+    (item.content ?? []).some((part) => part.text !== "");
+
+const outputMessageText = (message: ResponseOutputMessage): string =>
+    message.content.map((part) => (part.type === "output_text" ? part.text : "")).join("");
+
+/** Converts one session message into the item sent upstream, if any. */
+export function toInputItem(
+    message: ResponseSessionMessage,
+    options: InputMappingOptions,
+): ResponseInputItem | undefined {
+    if (message.kind === "input") {
+        return message.item;
+    }
+
+    const item = message.item;
+    switch (item.type) {
+        case "reasoning": {
+            if (!options.includeReasoning || !hasReasoningText(item)) return undefined;
+            const reasoning: ResponseReasoningItem = {
+                id: item.id,
+                type: "reasoning",
+                summary: item.summary,
+            };
+            if (item.content?.length) reasoning.content = item.content;
+            if (item.encrypted_content) reasoning.encrypted_content = item.encrypted_content;
+            return reasoning;
+        }
+        case "message": {
+            const text = outputMessageText(item);
+            if (!text) return undefined;
+            return { type: "message", role: "assistant", content: text };
+        }
+        default:
+            return item as ResponseInputItem;
+    }
+}
+
+export function toInputItems(
+    messages: ReadonlyArray<ResponseSessionMessage>,
+    options: InputMappingOptions,
+): ResponseInputItem[] {
+    return messages.flatMap((message) => {
+        const item = toInputItem(message, options);
+        return item ? [item] : [];
+    });
+}
+
+/** A transcript entry as the chat UI renders it. */
+export interface ChatViewMessage {
+    key: string;
+    role: "user" | "assistant";
+    item: ResponseInputItem | ResponseOutputItem;
+    /** Display text for `message` items; empty for everything else. */
+    text: string;
+    isStreaming: boolean;
+    /** For outputs, the metadata of the inputs whose request produced them. */
+    requestMetadata?: Record<string, string>;
+}
+
+const inputMessageText = (item: ResponseInputItem): string => {
+    if (item.type !== "message") return "";
+    if (typeof item.content === "string") return item.content;
+    return item.content
+        .map((part) => (part.type === "input_text" || part.type === "output_text" ? part.text : ""))
+        .filter(Boolean)
+        .join("\n");
+};
+
+const assistantText = (message: ResponseOutputMessage): string => {
+    const text = outputMessageText(message);
+    if (text) return text;
+
+    const refusal = message.content.find((part) => part.type === "refusal");
+    return refusal ? `The assistant declined: ${refusal.refusal}` : "";
+};
+
+const itemKey = (item: ResponseInputItem | ResponseOutputItem, index: number): string => {
+    const id = (item as { id?: string }).id;
+    if (item.type === "message") {
+        return `message-${item.role}-${id ?? index}`;
+    }
+    return `${item.type}-${id ?? index}`;
+};
+
+export function toViewMessage(
+    message: ResponseSessionMessage,
+    index: number,
+    requestMetadata?: Record<string, string>,
+): ChatViewMessage {
+    const item = message.item;
+    const key = itemKey(item, index);
+
+    if (message.kind === "input") {
+        const role = item.type === "message" && item.role !== "user" ? "assistant" : "user";
+        return { key, role, item, text: inputMessageText(item), isStreaming: false };
+    }
+
+    const output = message.item;
+    return {
+        key,
+        role: "assistant",
+        item: output,
+        text: output.type === "message" ? assistantText(output) : "",
+        isStreaming: (output as { status?: string }).status === "in_progress",
+        ...(requestMetadata ? { requestMetadata } : {}),
+    };
+}
+
+export function toViewMessages(messages: ReadonlyArray<ResponseSessionMessage>): ChatViewMessage[] {
+    let requestMetadata: Record<string, string> | undefined;
+    return messages.map((message, index) => {
+        if (message.kind === "input") requestMetadata = message.metadata;
+        return toViewMessage(message, index, requestMetadata);
+    });
+}
@@ -0,0 +1,353 @@
+/**
+ * Scripted stand-in for the Groq Responses API.
+ *
+ * Scenarios live as JSON fixtures in `fixtures/mock-groq/` (or the directory
+ * named by `MOCK_GROQ_FIXTURES_DIR`). Each one lists high-level steps (text,
+ * reasoning, MCP calls, approval requests, errors) that are expanded into the
+ * same stream events the real API sends, with deterministic ids, so the chat
+ * route, `ResponseSession` and the UI can run offline.
+ */
+
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import type {
+    Response,
+    ResponseCreateParams,
+    ResponseInputItem,
+    ResponseOutputItem,
+    ResponseOutputMessage,
+    ResponseReasoningItem,
+    ResponseStreamEvent,
+} from "openai/resources/responses/responses";
+
+export type MockStep =
+    | { type: "message"; text: string }
+    | { type: "reasoning"; text: string }
+    | {
+          type: "mcp_list_tools";
+          server_label: string;
+          tools: Array<{ name: string; description?: string; input_schema?: unknown }>;
+      }
+    | {
+          type: "mcp_call";
+          server_label: string;
+          name: string;
+          arguments?: unknown;
+          /** Tool result; objects are serialized to JSON. */
+          output?: unknown;
+          /** Marks the call as failed with this message. */
+          error?: string;
+      }
+    | { type: "mcp_approval_request"; server_label: string; name: string; arguments?: unknown }
+    /** A stream `error` event; the stream ends after it. */
+    | { type: "error"; message: string; code?: string }
+    /** Ends the response as `failed`. */
+    | { type: "fail"; message: string };
+
+export interface MockScenario {
+    name: string;
+    description?: string;
+    /** Case-insensitive keywords that select the scenario from the last user message. */
+    match?: string[];
+    steps: MockStep[];
+    /** Steps played after the user answers the scenario's approval request. */
+    afterApproval?: {
+        approved: MockStep[];
+        denied: MockStep[];
+    };
+    /** Reject the request with this HTTP error instead of streaming. */
+    httpError?: { status: number; message: string; code?: string };
+    /** Pause between events, overriding `MOCK_GROQ_DELAY_MS`. */
+    delayMs?: number;
+}
+
+export const DEFAULT_MOCK_SCENARIO = "default";
+
+/** Mock endpoints answer in development, or anywhere `ENABLE_MOCK_SERVERS=true`. */
+export const isMockServerEnabled = (env: NodeJS.ProcessEnv = process.env): boolean =>
+    env.ENABLE_MOCK_SERVERS === "true" || env.NODE_ENV !== "production";
+
+const SCENARIO_NAME = /^[a-zA-Z0-9-]+$/;
+const SCENARIO_TAG = /\[scenario:([a-zA-Z0-9-]+)\]/;
+const APPROVAL_ID_PATTERN = /^mcpr_mock_([a-zA-Z0-9-]+)_\d+_\d+$/;
+
+const toJson = (value: unknown): string => (typeof value === "string" ? value : JSON.stringify(value ?? {}));
+
+/** Splits text into word-sized deltas, keeping whitespace attached. */
+const toDeltas = (text: string): string[] => text.match(/\S+\s*|\s+/g) ?? [];
+
+export function parseMockScenario(raw: unknown, source: string): MockScenario {
+    const scenario = raw as Partial<MockScenario> | null;
+    if (!scenario || typeof scenario.name !== "string" || !SCENARIO_NAME.test(scenario.name)) {
+        throw new Error(`Invalid mock scenario in ${source}: name must be letters, digits or "-"`);
+    }
+    if (!Array.isArray(scenario.steps)) {
+        throw new Error(`Invalid mock scenario in ${source}: "steps" must be an array`);
+    }
+    return scenario as MockScenario;
+}
+
+let cachedScenarios: Map<string, MockScenario> | undefined;
+
+/** Loads every `*.json` scenario in the fixture directory once per process. */
+export function loadMockScenarios(env: NodeJS.ProcessEnv = process.env): Map<string, MockScenario> {
+    if (cachedScenarios && env === process.env) return cachedScenarios;
+
+    const dir = path.resolve(process.cwd(), env.MOCK_GROQ_FIXTURES_DIR ?? "fixtures/mock-groq");
+    const scenarios = new Map<string, MockScenario>();
+    readdirSync(dir)
+        .filter((file) => file.endsWith(".json"))
+        .sort()
+        .forEach((file) => {
+            const source = path.join(dir, file);
+            const scenario = parseMockScenario(JSON.parse(readFileSync(source, "utf8")), source);
+            scenarios.set(scenario.name, scenario);
+        });
+
+    if (env === process.env) {
+        cachedScenarios = scenarios;
+    }
+    return scenarios;
+}
+
+const lastUserText = (input: ResponseCreateParams["input"]): string => {
+    if (typeof input === "string") return input;
+    const items = (input ?? []) as ResponseInputItem[];
+    for (let index = items.length - 1; index >= 0; index -= 1) {
+        const item = items[index];
+        // Easy input messages may leave out `type`
+        if ((item.type === undefined || item.type === "message") && "role" in item && item.role === "user") {
+            if (typeof item.content === "string") return item.content;
+            return item.content.map((part) => (part.type === "input_text" ? part.text : "")).join(" ");
+        }
+    }
+    return "";
+};
+
+const lastApprovalResponse = (
+    input: ResponseCreateParams["input"],
+): ResponseInputItem.McpApprovalResponse | undefined => {
+    if (typeof input === "string" || !input) return undefined;
+    const last = (input as ResponseInputItem[]).at(-1);
+    return last?.type === "mcp_approval_response" ? last : undefined;
+};
+
+export interface MockScenarioSelection {
+    scenario: MockScenario;
+    steps: MockStep[];
+}
+
+/**
+ * Picks what to play for a request. An approval response continues the
+ * scenario that issued the request; otherwise a `[scenario:name]` tag, the
+ * `MOCK_GROQ_SCENARIO` variable, keyword matches and finally the default
+ * scenario are tried in that order.
+ */
+export function selectMockScenario(
+    scenarios: ReadonlyMap<string, MockScenario>,
+    params: Pick<ResponseCreateParams, "input">,
+    env: NodeJS.ProcessEnv = process.env,
+): MockScenarioSelection {
+    const approval = lastApprovalResponse(params.input);
+    const owner = approval && APPROVAL_ID_PATTERN.exec(approval.approval_request_id)?.[1];
+    const continued = owner ? scenarios.get(owner) : undefined;
+    if (approval && continued?.afterApproval) {
+        return {
+            scenario: continued,
+            steps: approval.approve ? continued.afterApproval.approved : continued.afterApproval.denied,
+        };
+    }
+
+    const text = lastUserText(params.input);
+    const tagged = SCENARIO_TAG.exec(text)?.[1];
+    const needle = text.toLowerCase();
+    const scenario =
+        (tagged && scenarios.get(tagged)) ||
+        (env.MOCK_GROQ_SCENARIO && scenarios.get(env.MOCK_GROQ_SCENARIO)) ||
+        Array.from(scenarios.values()).find((candidate) =>
+            candidate.match?.some((keyword) => needle.includes(keyword.toLowerCase())),
+        ) ||
+        scenarios.get(DEFAULT_MOCK_SCENARIO);
+
+    if (!scenario) {
+        throw new Error(`No mock scenario matched and no "${DEFAULT_MOCK_SCENARIO}" scenario is defined`);
+    }
+    return { scenario, steps: scenario.steps };
+}
+
+export interface MockResponseOptions {
+    /** Numbers the response; ids derived from it are stable across runs. */
+    responseIndex: number;
+    scenarioName: string;
+    model: string;
+    previousResponseId?: string;
+    createdAt?: number;
+}
+
+/**
+ * Expands scenario steps into a full Responses stream: `response.created`,
+ * the per-item events, and a terminal `response.completed` / `response.failed`
+ * (or a bare `error` event).
+ */
+export function buildMockResponseEvents(steps: ReadonlyArray<MockStep>, options: MockResponseOptions): ResponseStreamEvent[] {
+    const events: ResponseStreamEvent[] = [];
+    const output: ResponseOutputItem[] = [];
+    let sequence = 0;
+    const push = (event: DistributiveOmit<ResponseStreamEvent, "sequence_number">) => {
+        events.push({ ...event, sequence_number: sequence++ } as ResponseStreamEvent);
+    };
+
+    const response: Response = {
+        id: `resp_mock_${options.responseIndex}`,
+        object: "response",
+        created_at: options.createdAt ?? 0,
+        model: options.model,
+        status: "in_progress",
+        output: [],
+        output_text: "",
+        error: null,
+        incomplete_details: null,
+        instructions: null,
+        metadata: null,
+        parallel_tool_calls: true,
+        temperature: null,
+        tool_choice: "auto",
+        tools: [],
+        top_p: null,
+        previous_response_id: options.previousResponseId ?? null,
+    };
+    const snapshot = (): Response => JSON.parse(JSON.stringify({ ...response, output })) as Response;
+
+    push({ type: "response.created", response: snapshot() });
+    push({ type: "response.in_progress", response: snapshot() });
+
+    const itemId = (prefix: string, index: number) =>
+        `${prefix}_mock_${options.scenarioName}_${options.responseIndex}_${index}`;
+    const addItem = (item: ResponseOutputItem): number => {
+        const outputIndex = output.length;
+        output.push(item);
+        push({ type: "response.output_item.added", output_index: outputIndex, item: JSON.parse(JSON.stringify(item)) });
+        return outputIndex;
+    };
+    const finishItem = (outputIndex: number) => {
+        push({ type: "response.output_item.done", output_index: outputIndex, item: JSON.parse(JSON.stringify(output[outputIndex])) });
+    };
+
+    for (const step of steps) {
+        switch (step.type) {
+            case "message": {
+                const item: ResponseOutputMessage = {
+                    id: itemId("msg", output.length),
+                    type: "message",
+                    role: "assistant",
+                    status: "in_progress",
+                    content: [],
+                };
+                const outputIndex = addItem(item);
+                const part = { type: "output_text" as const, text: "", annotations: [] };
+                push({ type: "response.content_part.added", item_id: item.id, output_index: outputIndex, content_index: 0, part: { ...part } });
+                item.content.push(part);
+                toDeltas(step.text).forEach((delta) => {
+                    part.text += delta;
+                    push({ type: "response.output_text.delta", item_id: item.id, output_index: outputIndex, content_index: 0, delta, logprobs: [] });
+                });
+                push({ type: "response.output_text.done", item_id: item.id, output_index: outputIndex, content_index: 0, text: step.text, logprobs: [] });
+                push({ type: "response.content_part.done", item_id: item.id, output_index: outputIndex, content_index: 0, part: { ...part } });
+                item.status = "completed";
+                finishItem(outputIndex);
+                break;
+            }
+            case "reasoning": {
+                const item: ResponseReasoningItem = {
+                    id: itemId("rs", output.length),
+                    type: "reasoning",
+                    summary: [],
+                    content: [],
+                };
+                const outputIndex = addItem(item);
+                const part = { type: "reasoning_text" as const, text: "" };
+                item.content!.push(part);
+                toDeltas(step.text).forEach((delta) => {
+                    part.text += delta;
+                    push({ type: "response.reasoning_text.delta", item_id: item.id, output_index: outputIndex, content_index: 0, delta });
+                });
+                push({ type: "response.reasoning_text.done", item_id: item.id, output_index: outputIndex, content_index: 0, text: step.text });
+                finishItem(outputIndex);
+                break;
+            }
+            case "mcp_list_tools": {
+                const item: ResponseOutputItem.McpListTools = {
+                    id: itemId("mcpl", output.length),
+                    type: "mcp_list_tools",
+                    server_label: step.server_label,
+                    tools: [],
+                };
+                const outputIndex = addItem(item);
+                push({ type: "response.mcp_list_tools.in_progress", item_id: item.id, output_index: outputIndex });
+                item.tools = step.tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    input_schema: tool.input_schema ?? { type: "object", properties: {} },
+                }));
+                push({ type: "response.mcp_list_tools.completed", item_id: item.id, output_index: outputIndex });
+                finishItem(outputIndex);
+                break;
+            }
+            case "mcp_call": {
+                const args = toJson(step.arguments);
+                const item: ResponseOutputItem.McpCall = {
+                    id: itemId("mcp", output.length),
+                    type: "mcp_call",
+                    server_label: step.server_label,
+                    name: step.name,
+                    arguments: "",
+                };
+                const outputIndex = addItem(item);
+                push({ type: "response.mcp_call.in_progress", item_id: item.id, output_index: outputIndex });
+                push({ type: "response.mcp_call_arguments.delta", item_id: item.id, output_index: outputIndex, delta: args });
+                item.arguments = args;
+                push({ type: "response.mcp_call_arguments.done", item_id: item.id, output_index: outputIndex, arguments: args });
+                if (step.error !== undefined) {
+                    item.error = step.error;
+                    push({ type: "response.mcp_call.failed", item_id: item.id, output_index: outputIndex });
+                } else {
+                    item.output = toJson(step.output);
+                    push({ type: "response.mcp_call.completed", item_id: item.id, output_index: outputIndex });
+                }
+                finishItem(outputIndex);
+                break;
+            }
+            case "mcp_approval_request": {
+                const item: ResponseOutputItem.McpApprovalRequest = {
+                    id: itemId("mcpr", output.length),
+                    type: "mcp_approval_request",
+                    server_label: step.server_label,
+                    name: step.name,
+                    arguments: toJson(step.arguments),
+                };
+                finishItem(addItem(item));
+                break;
+            }
+            case "error": {
+                push({ type: "error", message: step.message, code: step.code ?? "server_error", param: null });
+                return events;
+            }
+            case "fail": {
+                response.status = "failed";
+                response.error = { code: "server_error", message: step.message };
+                push({ type: "response.failed", response: snapshot() });
+                return events;
+            }
+        }
+    }
+
+    response.status = "completed";
+    response.output_text = output
+        .flatMap((item) => (item.type === "message" ? item.content : []))
+        .map((part) => (part.type === "output_text" ? part.text : ""))
+        .join("");
+    push({ type: "response.completed", response: snapshot() });
+    return events;
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
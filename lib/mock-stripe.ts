@@ -0,0 +1,632 @@
+/**
+ * In-memory stand-in for the Stripe MCP server.
+ *
+ * Implements the Stripe MCP tool names and input schemas over a store seeded
+ * from `fixtures/mock-stripe/seed.json` (or the file named by
+ * `MOCK_STRIPE_SEED`), and answers MCP JSON-RPC messages for the streamable
+ * HTTP route at `/api/mock/stripe-mcp`. State lives for the lifetime of the
+ * process; nothing talks to Stripe.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+import type { StripeObject } from "@/lib/stripe-format";
+
+export interface MockStripeSeed {
+    account: StripeObject;
+    balance: StripeObject;
+    customers?: StripeObject[];
+    products?: StripeObject[];
+    prices?: StripeObject[];
+    payment_intents?: StripeObject[];
+    invoices?: StripeObject[];
+    subscriptions?: StripeObject[];
+    payment_links?: StripeObject[];
+    refunds?: StripeObject[];
+}
+
+type Collection =
+    | "customers"
+    | "products"
+    | "prices"
+    | "payment_intents"
+    | "invoices"
+    | "subscriptions"
+    | "payment_links"
+    | "refunds";
+
+const COLLECTIONS: Collection[] = [
+    "customers",
+    "products",
+    "prices",
+    "payment_intents",
+    "invoices",
+    "subscriptions",
+    "payment_links",
+    "refunds",
+];
+
+const OBJECT_NAMES: Record<Collection, string> = {
+    customers: "customer",
+    products: "product",
+    prices: "price",
+    payment_intents: "payment_intent",
+    invoices: "invoice",
+    subscriptions: "subscription",
+    payment_links: "payment_link",
+    refunds: "refund",
+};
+
+const ID_PREFIXES: Record<Collection, string> = {
+    customers: "cus",
+    products: "prod",
+    prices: "price",
+    payment_intents: "pi",
+    invoices: "in",
+    subscriptions: "sub",
+    payment_links: "plink",
+    refunds: "re",
+};
+
+/** A Stripe-style request error, reported to the model as a failed tool call. */
+export class MockStripeError extends Error {
+    public readonly param?: string;
+
+    public constructor(message: string, param?: string) {
+        super(message);
+        this.name = "MockStripeError";
+        this.param = param;
+    }
+}
+
+type ToolArgs = Record<string, unknown>;
+
+const optionalString = (args: ToolArgs, key: string): string | undefined => {
+    const value = args[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== "string") throw new MockStripeError(`Invalid string: ${key}`, key);
+    return value;
+};
+
+const requireString = (args: ToolArgs, key: string): string => {
+    const value = optionalString(args, key);
+    if (!value) throw new MockStripeError(`Missing required param: ${key}.`, key);
+    return value;
+};
+
+const optionalInteger = (args: ToolArgs, key: string): number | undefined => {
+    const value = args[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+        throw new MockStripeError(`Invalid non-negative integer: ${key}`, key);
+    }
+    return value;
+};
+
+const requireInteger = (args: ToolArgs, key: string): number => {
+    const value = optionalInteger(args, key);
+    if (value === undefined) throw new MockStripeError(`Missing required param: ${key}.`, key);
+    return value;
+};
+
+const now = (): number => Math.floor(Date.now() / 1000);
+
+export class MockStripeStore {
+    private readonly account: StripeObject;
+    private readonly balance: StripeObject;
+    private readonly collections = new Map<Collection, Map<string, StripeObject>>();
+    private counter = 0;
+
+    public constructor(seed: MockStripeSeed) {
+        const copy = JSON.parse(JSON.stringify(seed)) as MockStripeSeed;
+        this.account = copy.account;
+        this.balance = copy.balance;
+        COLLECTIONS.forEach((collection) => {
+            const objects = new Map<string, StripeObject>();
+            (copy[collection] ?? []).forEach((object) => {
+                if (object.id) objects.set(object.id, object);
+            });
+            this.collections.set(collection, objects);
+        });
+    }
+
+    public getAccount(): StripeObject {
+        return this.account;
+    }
+
+    public getBalance(): StripeObject {
+        return this.balance;
+    }
+
+    public get(collection: Collection, id: string): StripeObject {
+        const object = this.collections.get(collection)?.get(id);
+        if (!object) {
+            throw new MockStripeError(`No such ${OBJECT_NAMES[collection]}: '${id}'`, OBJECT_NAMES[collection]);
+        }
+        return object;
+    }
+
+    public list(
+        collection: Collection,
+        filter: (object: StripeObject) => boolean = () => true,
+        limit = 10,
+    ): StripeObject {
+        const matches = Array.from(this.collections.get(collection)?.values() ?? [])
+            .filter(filter)
+            .sort((a, b) => (b.created ?? 0) - (a.created ?? 0));
+        return {
+            object: "list",
+            url: `/v1/${collection}`,
+            has_more: matches.length > limit,
+            data: matches.slice(0, limit),
+        };
+    }
+
+    public create(collection: Collection, fields: { object: string; [key: string]: unknown }): StripeObject {
+        this.counter += 1;
+        const object: StripeObject = {
+            id: `${ID_PREFIXES[collection]}_mock${String(this.counter).padStart(6, "0")}`,
+            created: now(),
+            livemode: false,
+            ...fields,
+        };
+        this.collections.get(collection)!.set(object.id!, object);
+        return object;
+    }
+}
+
+export interface MockStripeTool {
+    name: string;
+    description: string;
+    inputSchema: {
+        type: "object";
+        properties: Record<string, unknown>;
+        required?: string[];
+    };
+    run: (store: MockStripeStore, args: ToolArgs) => unknown;
+}
+
+const limitProperty = { type: "integer", minimum: 1, maximum: 100, description: "Maximum number of objects to return." };
+
+const readLimit = (args: ToolArgs): number => Math.min(optionalInteger(args, "limit") ?? 10, 100);
+
+/** Tools with the names and schemas published by the Stripe MCP server. */
+export const MOCK_STRIPE_TOOLS: MockStripeTool[] = [
+    {
+        name: "get_stripe_account_info",
+        description: "Retrieve information about the connected Stripe account.",
+        inputSchema: { type: "object", properties: {} },
+        run: (store) => store.getAccount(),
+    },
+    {
+        name: "retrieve_balance",
+        description: "Retrieve the balance of the Stripe account.",
+        inputSchema: { type: "object", properties: {} },
+        run: (store) => store.getBalance(),
+    },
+    {
+        name: "list_customers",
+        description: "Fetch a list of customers.",
+        inputSchema: {
+            type: "object",
+            properties: { limit: limitProperty, email: { type: "string", description: "Filter by email address." } },
+        },
+        run: (store, args) => {
+            const email = optionalString(args, "email");
+            return store.list("customers", (customer) => !email || customer.email === email, readLimit(args));
+        },
+    },
+    {
+        name: "create_customer",
+        description: "Create a customer.",
+        inputSchema: {
+            type: "object",
+            properties: { name: { type: "string" }, email: { type: "string" } },
+            required: ["name"],
+        },
+        run: (store, args) =>
+            store.create("customers", {
+                object: "customer",
+                name: requireString(args, "name"),
+                email: optionalString(args, "email") ?? null,
+                balance: 0,
+                currency: null,
+                phone: null,
+            }),
+    },
+    {
+        name: "list_products",
+        description: "Fetch a list of products.",
+        inputSchema: { type: "object", properties: { limit: limitProperty } },
+        run: (store, args) => store.list("products", undefined, readLimit(args)),
+    },
+    {
+        name: "create_product",
+        description: "Create a product.",
+        inputSchema: {
+            type: "object",
+            properties: { name: { type: "string" }, description: { type: "string" } },
+            required: ["name"],
+        },
+        run: (store, args) =>
+            store.create("products", {
+                object: "product",
+                name: requireString(args, "name"),
+                description: optionalString(args, "description") ?? null,
+                active: true,
+                default_price: null,
+            }),
+    },
+    {
+        name: "list_prices",
+        description: "Fetch a list of prices.",
+        inputSchema: { type: "object", properties: { product: { type: "string" }, limit: limitProperty } },
+        run: (store, args) => {
+            const product = optionalString(args, "product");
+            return store.list("prices", (price) => !product || price.product === product, readLimit(args));
+        },
+    },
+    {
+        name: "create_price",
+        description: "Create a price for a product.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                product: { type: "string" },
+                unit_amount: { type: "integer", description: "Amount in the currency's smallest unit." },
+                currency: { type: "string" },
+            },
+            required: ["product", "unit_amount", "currency"],
+        },
+        run: (store, args) => {
+            const product = store.get("products", requireString(args, "product"));
+            const price = store.create("prices", {
+                object: "price",
+                product: product.id,
+                unit_amount: requireInteger(args, "unit_amount"),
+                currency: requireString(args, "currency").toLowerCase(),
+                active: true,
+                recurring: null,
+                nickname: null,
+                type: "one_time",
+            });
+            if (!product.default_price) product.default_price = price.id;
+            return price;
+        },
+    },
+    {
+        name: "create_payment_link",
+        description: "Create a payment link for a price.",
+        inputSchema: {
+            type: "object",
+            properties: { price: { type: "string" }, quantity: { type: "integer" } },
+            required: ["price", "quantity"],
+        },
+        run: (store, args) => {
+            const price = store.get("prices", requireString(args, "price"));
+            const link = store.create("payment_links", {
+                object: "payment_link",
+                active: true,
+                line_items: [{ price: price.id, quantity: requireInteger(args, "quantity") }],
+            });
+            link.url = `https://buy.stripe.com/test_${link.id}`;
+            return link;
+        },
+    },
+    {
+        name: "list_invoices",
+        description: "Fetch a list of invoices.",
+        inputSchema: { type: "object", properties: { customer: { type: "string" }, limit: limitProperty } },
+        run: (store, args) => {
+            const customer = optionalString(args, "customer");
+            return store.list("invoices", (invoice) => !customer || invoice.customer === customer, readLimit(args));
+        },
+    },
+    {
+        name: "create_invoice",
+        description: "Create a draft invoice for a customer.",
+        inputSchema: {
+            type: "object",
+            properties: { customer: { type: "string" }, days_until_due: { type: "integer" } },
+            required: ["customer"],
+        },
+        run: (store, args) => {
+            const customer = store.get("customers", requireString(args, "customer"));
+            const daysUntilDue = optionalInteger(args, "days_until_due") ?? 30;
+            return store.create("invoices", {
+                object: "invoice",
+                customer: customer.id,
+                status: "draft",
+                number: null,
+                currency: "usd",
+                amount_due: 0,
+                amount_paid: 0,
+                collection_method: "send_invoice",
+                due_date: now() + daysUntilDue * 86_400,
+                lines: { object: "list", data: [], has_more: false },
+            });
+        },
+    },
+    {
+        name: "create_invoice_item",
+        description: "Add a line item for a price to a draft invoice.",
+        inputSchema: {
+            type: "object",
+            properties: { customer: { type: "string" }, price: { type: "string" }, invoice: { type: "string" } },
+            required: ["customer", "price", "invoice"],
+        },
+        run: (store, args) => {
+            const customer = store.get("customers", requireString(args, "customer"));
+            const price = store.get("prices", requireString(args, "price"));
+            const invoice = store.get("invoices", requireString(args, "invoice"));
+            if (invoice.status !== "draft") {
+                throw new MockStripeError(`Invoice ${invoice.id} is not a draft.`, "invoice");
+            }
+            const amount = (price.unit_amount as number | null) ?? 0;
+            const item = {
+                id: `ii_mock_${invoice.id}_${(invoice.lines as { data: unknown[] }).data.length}`,
+                object: "invoiceitem",
+                customer: customer.id,
+                invoice: invoice.id,
+                price: price.id,
+                amount,
+                currency: price.currency,
+            };
+            (invoice.lines as { data: unknown[] }).data.push(item);
+            invoice.amount_due = (invoice.amount_due as number) + amount;
+            invoice.currency = price.currency;
+            return item;
+        },
+    },
+    {
+        name: "finalize_invoice",
+        description: "Finalize a draft invoice.",
+        inputSchema: { type: "object", properties: { invoice: { type: "string" } }, required: ["invoice"] },
+        run: (store, args) => {
+            const invoice = store.get("invoices", requireString(args, "invoice"));
+            if (invoice.status !== "draft") {
+                throw new MockStripeError(`Invoice ${invoice.id} is already finalized.`, "invoice");
+            }
+            invoice.status = "open";
+            invoice.number = `MOCK-${invoice.id!.slice(-4).toUpperCase()}`;
+            return invoice;
+        },
+    },
+    {
+        name: "list_payment_intents",
+        description: "Fetch a list of payment intents.",
+        inputSchema: { type: "object", properties: { customer: { type: "string" }, limit: limitProperty } },
+        run: (store, args) => {
+            const customer = optionalString(args, "customer");
+            return store.list("payment_intents", (intent) => !customer || intent.customer === customer, readLimit(args));
+        },
+    },
+    {
+        name: "create_refund",
+        description: "Refund a payment intent, in full or in part.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                payment_intent: { type: "string" },
+                amount: { type: "integer", description: "Amount to refund in the smallest currency unit. Defaults to the full remaining amount." },
+                reason: { type: "string", enum: ["duplicate", "fraudulent", "requested_by_customer"] },
+            },
+            required: ["payment_intent"],
+        },
+        run: (store, args) => {
+            const intent = store.get("payment_intents", requireString(args, "payment_intent"));
+            if (intent.status !== "succeeded") {
+                throw new MockStripeError(`PaymentIntent ${intent.id} has not succeeded and cannot be refunded.`, "payment_intent");
+            }
+            const refunded = (intent.amount_refunded as number | undefined) ?? 0;
+            const remaining = (intent.amount as number) - refunded;
+            const amount = optionalInteger(args, "amount") ?? remaining;
+            if (amount === 0 || amount > remaining) {
+                throw new MockStripeError(
+                    `Refund amount (${amount}) is greater than the unrefunded amount on the payment (${remaining}).`,
+                    "amount",
+                );
+            }
+            intent.amount_refunded = refunded + amount;
+            return store.create("refunds", {
+                object: "refund",
+                amount,
+                currency: intent.currency,
+                payment_intent: intent.id,
+                charge: intent.latest_charge ?? null,
+                reason: optionalString(args, "reason") ?? null,
+                status: "succeeded",
+            });
+        },
+    },
+    {
+        name: "list_subscriptions",
+        description: "Fetch a list of subscriptions.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                customer: { type: "string" },
+                price: { type: "string" },
+                status: { type: "string" },
+                limit: limitProperty,
+            },
+        },
+        run: (store, args) => {
+            const customer = optionalString(args, "customer");
+            const price = optionalString(args, "price");
+            const status = optionalString(args, "status");
+            return store.list(
+                "subscriptions",
+                (subscription) =>
+                    (!customer || subscription.customer === customer) &&
+                    (!status || status === "all" || subscription.status === status) &&
+                    (!price ||
+                        ((subscription.items as { data: Array<{ price: { id: string } }> }).data ?? []).some(
+                            (item) => item.price.id === price,
+                        )),
+                readLimit(args),
+            );
+        },
+    },
+    {
+        name: "update_subscription",
+        description: "Update the items of a subscription.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                subscription: { type: "string" },
+                proration_behavior: { type: "string", enum: ["create_prorations", "none", "always_invoice"] },
+                items: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: { id: { type: "string" }, price: { type: "string" }, quantity: { type: "integer" } },
+                    },
+                },
+            },
+            required: ["subscription"],
+        },
+        run: (store, args) => {
+            const subscription = store.get("subscriptions", requireString(args, "subscription"));
+            if (subscription.status === "canceled") {
+                throw new MockStripeError(`Subscription ${subscription.id} is canceled.`, "subscription");
+            }
+            const updates = Array.isArray(args.items) ? (args.items as ToolArgs[]) : [];
+            const items = (subscription.items as { data: Array<Record<string, unknown>> }).data;
+            updates.forEach((update, index) => {
+                const priceId = optionalString(update, "price");
+                const quantity = optionalInteger(update, "quantity");
+                const target = items.find((item) => item.id === update.id) ?? items[index];
+                if (!target) throw new MockStripeError(`No such subscription item at index ${index}.`, "items");
+                if (priceId) target.price = store.get("prices", priceId);
+                if (quantity !== undefined) target.quantity = quantity;
+            });
+            return subscription;
+        },
+    },
+    {
+        name: "cancel_subscription",
+        description: "Cancel a subscription immediately.",
+        inputSchema: { type: "object", properties: { subscription: { type: "string" } }, required: ["subscription"] },
+        run: (store, args) => {
+            const subscription = store.get("subscriptions", requireString(args, "subscription"));
+            subscription.status = "canceled";
+            subscription.canceled_at = now();
+            return subscription;
+        },
+    },
+];
+
+let cachedStore: MockStripeStore | undefined;
+
+export function loadMockStripeSeed(env: NodeJS.ProcessEnv = process.env): MockStripeSeed {
+    const file = path.resolve(process.cwd(), env.MOCK_STRIPE_SEED ?? "fixtures/mock-stripe/seed.json");
+    const seed = JSON.parse(readFileSync(file, "utf8")) as Partial<MockStripeSeed>;
+    if (!seed.account || !seed.balance) {
+        throw new Error(`Invalid mock Stripe seed in ${file}: "account" and "balance" are required`);
+    }
+    return seed as MockStripeSeed;
+}
+
+/** The process-wide store, seeded on first use. */
+export function getMockStripeStore(env: NodeJS.ProcessEnv = process.env): MockStripeStore {
+    if (!cachedStore) {
+        cachedStore = new MockStripeStore(loadMockStripeSeed(env));
+    }
+    return cachedStore;
+}
+
+/** Drops all changes and reseeds on next use. */
+export function resetMockStripeStore(): void {
+    cachedStore = undefined;
+}
+
+// --- MCP JSON-RPC ---------------------------------------------------------
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+export interface JsonRpcRequest {
+    jsonrpc: "2.0";
+    id?: string | number | null;
+    method: string;
+    params?: Record<string, unknown>;
+}
+
+export type JsonRpcResponse =
+    | { jsonrpc: "2.0"; id: string | number | null; result: unknown }
+    | { jsonrpc: "2.0"; id: string | number | null; error: { code: number; message: string; data?: unknown } };
+
+export const JSON_RPC_PARSE_ERROR = -32700;
+export const JSON_RPC_INVALID_REQUEST = -32600;
+const JSON_RPC_METHOD_NOT_FOUND = -32601;
+const JSON_RPC_INVALID_PARAMS = -32602;
+
+export const jsonRpcError = (id: string | number | null, code: number, message: string): JsonRpcResponse => ({
+    jsonrpc: "2.0",
+    id,
+    error: { code, message },
+});
+
+const callTool = (store: MockStripeStore, name: unknown, args: unknown) => {
+    const tool = MOCK_STRIPE_TOOLS.find((candidate) => candidate.name === name);
+    if (!tool) return undefined;
+    try {
+        const result = tool.run(store, (args && typeof args === "object" ? args : {}) as ToolArgs);
+        return { content: [{ type: "text", text: JSON.stringify(result) }], isError: false };
+    } catch (error) {
+        if (error instanceof MockStripeError) {
+            return { content: [{ type: "text", text: error.message }], isError: true };
+        }
+        throw error;
+    }
+};
+
+/**
+ * Answers one JSON-RPC message. Returns undefined for notifications, which
+ * get no response.
+ */
+export function handleMockStripeMcpMessage(
+    message: JsonRpcRequest,
+    store: MockStripeStore = getMockStripeStore(),
+): JsonRpcResponse | undefined {
+    const id = message.id ?? null;
+    if (message.id === undefined) return undefined;
+
+    switch (message.method) {
+        case "initialize": {
+            const requested = message.params?.protocolVersion;
+            return {
+                jsonrpc: "2.0",
+                id,
+                result: {
+                    protocolVersion:
+                        typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+                            ? requested
+                            : MCP_PROTOCOL_VERSION,
+                    capabilities: { tools: { listChanged: false } },
+                    serverInfo: { name: "mock-stripe", version: "0.1.0" },
+                },
+            };
+        }
+        case "ping":
+            return { jsonrpc: "2.0", id, result: {} };
+        case "tools/list":
+            return {
+                jsonrpc: "2.0",
+                id,
+                result: {
+                    tools: MOCK_STRIPE_TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+                },
+            };
+        case "tools/call": {
+            const result = callTool(store, message.params?.name, message.params?.arguments);
+            return result
+                ? { jsonrpc: "2.0", id, result }
+                : jsonRpcError(id, JSON_RPC_INVALID_PARAMS, `Unknown tool: ${String(message.params?.name)}`);
+        }
+        default:
+            return jsonRpcError(id, JSON_RPC_METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * Model allowlist and generation parameters accepted by `/api/chat`.
+ *
+ * The allowlist and defaults come from `config/models.json`. This module has no
+ * server-only imports so the settings UI can offer the same choices the route
+ * will accept.
+ */
+
+import type { ResponseCreateParamsStreaming } from "openai/resources/responses/responses";
+
+import modelConfig from "@/config/models.json";
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+export const REASONING_EFFORTS: ReadonlyArray<ReasoningEffort> = ["low", "medium", "high"];
+
+export interface ModelInfo {
+    id: string;
+    name: string;
+    /** Whether the model accepts `reasoning.effort`. */
+    reasoning: boolean;
+    maxOutputTokens: number;
+}
+
+/** Generation options as the client stores and sends them. */
+export interface GenerationSettings {
+    model: string;
+    temperature: number;
+    /** Upper bound on generated tokens; the model maximum applies when unset. */
+    maxOutputTokens?: number;
+    reasoningEffort: ReasoningEffort;
+    parallelToolCalls: boolean;
+}
+
+export type GenerationParams = Pick<
+    ResponseCreateParamsStreaming,
+    "model" | "temperature" | "max_output_tokens" | "reasoning" | "parallel_tool_calls"
+>;
+
+export const MODELS: ReadonlyArray<ModelInfo> = modelConfig.models;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+    model: modelConfig.default,
+    temperature: modelConfig.defaults.temperature,
+    reasoningEffort: modelConfig.defaults.reasoningEffort as ReasoningEffort,
+    parallelToolCalls: modelConfig.defaults.parallelToolCalls,
+};
+
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 2;
+
+/** Raised when a request carries a parameter outside the allowlist or range. */
+export class InvalidGenerationParamError extends Error {
+    public constructor(message: string, public readonly param: string) {
+        super(message);
+        this.name = "InvalidGenerationParamError";
+    }
+}
+
+export function findModel(id: string): ModelInfo | undefined {
+    return MODELS.find((model) => model.id === id);
+}
+
+/** Converts client settings into the request body fields understood by the route. */
+export function toGenerationParams(settings: Partial<GenerationSettings>): GenerationParams {
+    const params: GenerationParams = {};
+    if (settings.model !== undefined) params.model = settings.model;
+    if (settings.temperature !== undefined) params.temperature = settings.temperature;
+    if (settings.maxOutputTokens !== undefined) params.max_output_tokens = settings.maxOutputTokens;
+    if (settings.reasoningEffort !== undefined) params.reasoning = { effort: settings.reasoningEffort };
+    if (settings.parallelToolCalls !== undefined) params.parallel_tool_calls = settings.parallelToolCalls;
+    return params;
+}
+
+/**
+ * Validates the generation fields of a request body against the allowlist,
+ * filling in defaults for anything the client left out. `input` is the
+ * parsed JSON, whatever its shape.
+ */
+export function parseGenerationParams(input: unknown): GenerationParams {
+    const body: { [K in keyof GenerationParams]?: unknown } = typeof input === "object" && input !== null ? input : {};
+
+    const modelId = body.model ?? DEFAULT_GENERATION_SETTINGS.model;
+    const model = typeof modelId === "string" ? findModel(modelId) : undefined;
+    if (!model) {
+        throw new InvalidGenerationParamError(`Model ${JSON.stringify(modelId)} is not allowed`, "model");
+    }
+
+    const temperature = body.temperature ?? DEFAULT_GENERATION_SETTINGS.temperature;
+    if (typeof temperature !== "number" || temperature < MIN_TEMPERATURE || temperature > MAX_TEMPERATURE) {
+        throw new InvalidGenerationParamError(
+            `temperature must be a number between ${MIN_TEMPERATURE} and ${MAX_TEMPERATURE}`,
+            "temperature",
+        );
+    }
+
+    const params: GenerationParams = { model: model.id, temperature };
+
+    const maxOutputTokens = body.max_output_tokens;
+    if (maxOutputTokens != null) {
+        if (
+            typeof maxOutputTokens !== "number" ||
+            !Number.isInteger(maxOutputTokens) ||
+            maxOutputTokens < 1 ||
+            maxOutputTokens > model.maxOutputTokens
+        ) {
+            throw new InvalidGenerationParamError(
+                `max_output_tokens must be an integer between 1 and ${model.maxOutputTokens} for ${model.id}`,
+                "max_output_tokens",
+            );
+        }
+        params.max_output_tokens = maxOutputTokens;
+    }
+
+    if (model.reasoning) {
+        const reasoning = body.reasoning as { effort?: unknown } | undefined;
+        const effort = reasoning?.effort ?? DEFAULT_GENERATION_SETTINGS.reasoningEffort;
+        if (!REASONING_EFFORTS.includes(effort as ReasoningEffort)) {
+            throw new InvalidGenerationParamError(
+                `reasoning.effort must be one of ${REASONING_EFFORTS.join(", ")}`,
+                "reasoning.effort",
+            );
+        }
+        params.reasoning = { effort: effort as ReasoningEffort };
+    }
+
+    const parallelToolCalls = body.parallel_tool_calls ?? DEFAULT_GENERATION_SETTINGS.parallelToolCalls;
+    if (typeof parallelToolCalls !== "boolean") {
+        throw new InvalidGenerationParamError("parallel_tool_calls must be a boolean", "parallel_tool_calls");
+    }
+    params.parallel_tool_calls = parallelToolCalls;
+
+    return params;
+}
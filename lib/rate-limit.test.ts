@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import { getClientIp, MemoryRateLimitStore, RateLimiter, type RateLimitStore } from "@/lib/rate-limit";
+
+const NOW = Date.UTC(2026, 0, 1, 12);
+
+/** A store whose reads take a moment, like a network round trip, so requests overlap. */
+class SlowStore implements RateLimitStore {
+    private readonly inner = new MemoryRateLimitStore();
+
+    public async get<T>(key: string): Promise<T | undefined> {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return this.inner.get<T>(key);
+    }
+
+    public set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        return this.inner.set(key, value, ttlMs);
+    }
+}
+
+describe("RateLimiter", () => {
+    it("allows a burst up to capacity and refills over time", async () => {
+        const limiter = new RateLimiter(new MemoryRateLimitStore(), { user: { capacity: 2, refillPerMinute: 2 } });
+
+        expect(await limiter.check("dev:alice", undefined, NOW)).toBeUndefined();
+        expect(await limiter.check("dev:alice", undefined, NOW)).toBeUndefined();
+        expect(await limiter.check("dev:alice", undefined, NOW)).toMatchObject({ reason: "user", retryAfter: 30 });
+        expect(await limiter.check("dev:bob", undefined, NOW)).toBeUndefined();
+        expect(await limiter.check("dev:alice", undefined, NOW + 30_000)).toBeUndefined();
+    });
+
+    it("does not spend the IP's budget on requests the user limit turns away", async () => {
+        const limiter = new RateLimiter(new MemoryRateLimitStore(), {
+            user: { capacity: 1, refillPerMinute: 1 },
+            ip: { capacity: 3, refillPerMinute: 1 },
+        });
+
+        expect(await limiter.check("dev:alice", "203.0.113.7", NOW)).toBeUndefined();
+        for (let attempt = 0; attempt < 5; attempt++) {
+            expect(await limiter.check("dev:alice", "203.0.113.7", NOW)).toMatchObject({ reason: "user" });
+        }
+        expect(await limiter.check("dev:bob", "203.0.113.7", NOW)).toBeUndefined();
+        expect(await limiter.check("dev:carol", "203.0.113.7", NOW)).toBeUndefined();
+        expect(await limiter.check("dev:dave", "203.0.113.7", NOW)).toMatchObject({ reason: "ip" });
+    });
+
+    it("does not let concurrent requests go over the limit", async () => {
+        const limiter = new RateLimiter(new SlowStore(), {
+            user: { capacity: 3, refillPerMinute: 1 },
+            ip: { capacity: 10, refillPerMinute: 1 },
+        });
+
+        const results = await Promise.all(
+            Array.from({ length: 8 }, () => limiter.check("dev:alice", "203.0.113.7", NOW)),
+        );
+
+        expect(results.filter((result) => result === undefined)).toHaveLength(3);
+        // Only the three allowed requests came out of the shared IP bucket.
+        const others = await Promise.all(
+            Array.from({ length: 8 }, (_, index) => limiter.check(`dev:user${index}`, "203.0.113.7", NOW)),
+        );
+        expect(others.filter((result) => result === undefined)).toHaveLength(7);
+    });
+
+    it("turns a user away for the rest of the UTC day once their tokens are spent", async () => {
+        const limiter = new RateLimiter(new MemoryRateLimitStore(), { dailyTokens: 1_000 });
+
+        await Promise.all([limiter.recordUsage("dev:alice", 600, NOW), limiter.recordUsage("dev:alice", 400, NOW)]);
+
+        expect(await limiter.getDailyUsage("dev:alice", NOW)).toBe(1_000);
+        expect(await limiter.check("dev:alice", undefined, NOW)).toMatchObject({
+            reason: "daily_tokens",
+            retryAfter: 12 * 60 * 60,
+        });
+        expect(await limiter.check("dev:alice", undefined, NOW + 12 * 60 * 60 * 1000)).toBeUndefined();
+    });
+});
+
+describe("getClientIp", () => {
+    const headers = (values: Record<string, string>) => new Headers(values);
+    const env = (values: Record<string, string> = {}): NodeJS.ProcessEnv => ({ NODE_ENV: "test", ...values });
+
+    it("takes the entry added by the outermost trusted proxy", () => {
+        const forwarded = headers({ "x-forwarded-for": "198.51.100.1, 203.0.113.7, 10.0.0.2" });
+
+        expect(getClientIp(forwarded, env())).toBe("10.0.0.2");
+        expect(getClientIp(forwarded, env({ RATE_LIMIT_TRUSTED_PROXIES: "2" }))).toBe("203.0.113.7");
+        expect(getClientIp(forwarded, env({ RATE_LIMIT_TRUSTED_PROXIES: "5" }))).toBe("198.51.100.1");
+    });
+
+    it("falls back to X-Real-IP and trusts nothing with no proxies", () => {
+        expect(getClientIp(headers({ "x-real-ip": "203.0.113.7" }), env())).toBe("203.0.113.7");
+        const forwarded = headers({ "x-forwarded-for": "203.0.113.7" });
+        expect(getClientIp(forwarded, env({ RATE_LIMIT_TRUSTED_PROXIES: "0" }))).toBeUndefined();
+        expect(() => getClientIp(headers({}), env({ RATE_LIMIT_TRUSTED_PROXIES: "one" }))).toThrow(
+            /RATE_LIMIT_TRUSTED_PROXIES/,
+        );
+    });
+});
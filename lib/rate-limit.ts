@@ -0,0 +1,290 @@
+/**
+ * Throttling for `/api/chat`, so one runaway client cannot exhaust the Groq
+ * quota or hammer the MCP servers behind it.
+ *
+ * Each request takes a token from a per-user and a per-IP bucket that refill
+ * at a steady rate, and a user who has spent their daily token budget (as
+ * reported in `response.usage`) is turned away until midnight UTC. State
+ * lives in a RateLimitStore; the default keeps it in memory, so call
+ * `setRateLimitStore` with a shared implementation when the app runs on more
+ * than one instance. Each key is read and rewritten by one request at a time
+ * within a process; the store only sees `get` and `set`, so requests on
+ * different instances can still overlap.
+ */
+
+export interface RateLimitStore {
+    get<T>(key: string): Promise<T | undefined>;
+    /** Stores `value` under `key`, dropping it `ttlMs` from now. */
+    set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+/** Keeps state in process memory, dropping each key when its TTL runs out. */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+    public async get<T>(key: string): Promise<T | undefined> {
+        this.sweep();
+        return this.entries.get(key)?.value as T | undefined;
+    }
+
+    public async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    }
+
+    private sweep(): void {
+        const now = Date.now();
+        this.entries.forEach((entry, key) => {
+            if (entry.expiresAt <= now) this.entries.delete(key);
+        });
+    }
+}
+
+export interface TokenBucketPolicy {
+    /** Requests allowed in a burst. */
+    capacity: number;
+    /** Requests added back per minute. */
+    refillPerMinute: number;
+}
+
+export interface RateLimitConfig {
+    /** Per signed-in user; undefined turns the limit off. */
+    user?: TokenBucketPolicy;
+    /** Per client IP; undefined turns the limit off. */
+    ip?: TokenBucketPolicy;
+    /** Model tokens each user may spend per UTC day; undefined turns the budget off. */
+    dailyTokens?: number;
+}
+
+export type RateLimitReason = "user" | "ip" | "daily_tokens";
+
+export interface RateLimitRejection {
+    reason: RateLimitReason;
+    message: string;
+    /** Whole seconds until the request would be allowed. */
+    retryAfter: number;
+}
+
+interface BucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+interface DailyUsage {
+    /** UTC date, `YYYY-MM-DD`. */
+    day: string;
+    tokens: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const DEFAULT_USER_PER_MINUTE = 20;
+const DEFAULT_IP_PER_MINUTE = 60;
+const DEFAULT_DAILY_TOKENS = 1_000_000;
+const DEFAULT_TRUSTED_PROXIES = 1;
+
+/** A positive number from `value`, the fallback when unset, or undefined for `0` (off). */
+const readLimit = (value: string | undefined, fallback: number, name: string): number | undefined => {
+    if (value === undefined || value.trim() === "") return fallback;
+    const limit = Number(value);
+    if (!Number.isFinite(limit) || limit < 0) {
+        throw new Error(`${name} must be a non-negative number, got ${JSON.stringify(value)}`);
+    }
+    return limit === 0 ? undefined : limit;
+};
+
+const readBucket = (
+    env: NodeJS.ProcessEnv,
+    prefix: "RATE_LIMIT_USER" | "RATE_LIMIT_IP",
+    fallback: number,
+): TokenBucketPolicy | undefined => {
+    const refillPerMinute = readLimit(env[`${prefix}_PER_MINUTE`], fallback, `${prefix}_PER_MINUTE`);
+    if (refillPerMinute === undefined) return undefined;
+    const capacity = readLimit(env[`${prefix}_BURST`], refillPerMinute, `${prefix}_BURST`) ?? refillPerMinute;
+    return { capacity, refillPerMinute };
+};
+
+/**
+ * Limits from `RATE_LIMIT_USER_PER_MINUTE`, `RATE_LIMIT_IP_PER_MINUTE` (each
+ * with an optional `_BURST`) and `RATE_LIMIT_DAILY_TOKENS`. `0` turns a limit off.
+ */
+export function getRateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+    return {
+        user: readBucket(env, "RATE_LIMIT_USER", DEFAULT_USER_PER_MINUTE),
+        ip: readBucket(env, "RATE_LIMIT_IP", DEFAULT_IP_PER_MINUTE),
+        dailyTokens: readLimit(env.RATE_LIMIT_DAILY_TOKENS, DEFAULT_DAILY_TOKENS, "RATE_LIMIT_DAILY_TOKENS"),
+    };
+}
+
+const readTrustedProxies = (env: NodeJS.ProcessEnv): number => {
+    const value = env.RATE_LIMIT_TRUSTED_PROXIES;
+    if (value === undefined || value.trim() === "") return DEFAULT_TRUSTED_PROXIES;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`RATE_LIMIT_TRUSTED_PROXIES must be a non-negative integer, got ${JSON.stringify(value)}`);
+    }
+    return count;
+};
+
+/**
+ * The client's address as seen by the outermost of `RATE_LIMIT_TRUSTED_PROXIES`
+ * proxies in front of the app, or undefined when there is none. Each proxy
+ * appends to `X-Forwarded-For`, so the entry that many places from the right
+ * is the first one the client could not have written; `X-Real-IP` is used
+ * when the header is missing. With `0` no header is trusted and the per-IP
+ * limit is off.
+ */
+export function getClientIp(headers: Headers, env: NodeJS.ProcessEnv = process.env): string | undefined {
+    const trustedProxies = readTrustedProxies(env);
+    if (trustedProxies === 0) return undefined;
+
+    const hops = (headers.get("x-forwarded-for") ?? "")
+        .split(",")
+        .map((hop) => hop.trim())
+        .filter(Boolean);
+    if (hops.length > 0) return hops[Math.max(0, hops.length - trustedProxies)];
+    return headers.get("x-real-ip")?.trim() || undefined;
+}
+
+const utcDay = (now: number): string => new Date(now).toISOString().slice(0, 10);
+
+const msUntilNextUtcDay = (now: number): number => DAY_MS - (now % DAY_MS);
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString("en-US");
+
+interface BucketCheck {
+    key: string;
+    policy: TokenBucketPolicy;
+    reason: "user" | "ip";
+    message: string;
+}
+
+/** Checks and spends the limits in a RateLimitConfig against a RateLimitStore. */
+export class RateLimiter {
+    /** The last queued read-then-write of each store key. */
+    private readonly pending = new Map<string, Promise<unknown>>();
+
+    public constructor(
+        private readonly store: RateLimitStore,
+        private readonly config: RateLimitConfig,
+    ) {}
+
+    /**
+     * Takes a request from the user's and the IP's buckets, but only when
+     * both have one to give. Resolves to why the request must wait, or
+     * undefined when it may go ahead.
+     */
+    public async check(userId: string, ip: string | undefined, now = Date.now()): Promise<RateLimitRejection | undefined> {
+        const { dailyTokens } = this.config;
+        if (dailyTokens !== undefined) {
+            const used = await this.getDailyUsage(userId, now);
+            if (used >= dailyTokens) {
+                return {
+                    reason: "daily_tokens",
+                    message: `You have used your ${formatTokens(dailyTokens)} tokens for today`,
+                    retryAfter: Math.ceil(msUntilNextUtcDay(now) / 1000),
+                };
+            }
+        }
+
+        const buckets: BucketCheck[] = [];
+        if (this.config.ip && ip) {
+            buckets.push({
+                key: `ip:${ip}`,
+                policy: this.config.ip,
+                reason: "ip",
+                message: "Too many requests from this network",
+            });
+        }
+        if (this.config.user) {
+            buckets.push({
+                key: `user:${userId}`,
+                policy: this.config.user,
+                reason: "user",
+                message: "You are sending messages too quickly",
+            });
+        }
+        if (buckets.length === 0) return undefined;
+
+        return this.exclusive(
+            buckets.map(({ key }) => key),
+            async () => {
+                const levels = await Promise.all(buckets.map(({ key, policy }) => this.refill(key, policy, now)));
+                const empty = levels.findIndex((tokens) => tokens < 1);
+                if (empty >= 0) {
+                    const { reason, message, policy } = buckets[empty];
+                    const waitMs = (1 - levels[empty]) / (policy.refillPerMinute / MINUTE_MS);
+                    return { reason, message, retryAfter: Math.ceil(waitMs / 1000) };
+                }
+
+                await Promise.all(
+                    buckets.map(({ key, policy }, index) => {
+                        const tokens = levels[index] - 1;
+                        // A full bucket has nothing worth keeping, so the entry expires then.
+                        const ttlMs = (policy.capacity - tokens) / (policy.refillPerMinute / MINUTE_MS);
+                        return this.store.set<BucketState>(key, { tokens, updatedAt: now }, ttlMs);
+                    }),
+                );
+                return undefined;
+            },
+        );
+    }
+
+    /** Adds tokens a response used to the user's total for the day. */
+    public async recordUsage(userId: string, tokens: number, now = Date.now()): Promise<void> {
+        if (this.config.dailyTokens === undefined || !(tokens > 0)) return;
+        const key = `tokens:${userId}`;
+        await this.exclusive([key], async () => {
+            const used = await this.getDailyUsage(userId, now);
+            await this.store.set<DailyUsage>(key, { day: utcDay(now), tokens: used + tokens }, msUntilNextUtcDay(now));
+        });
+    }
+
+    /** Tokens the user has spent today. */
+    public async getDailyUsage(userId: string, now = Date.now()): Promise<number> {
+        const usage = await this.store.get<DailyUsage>(`tokens:${userId}`);
+        return usage?.day === utcDay(now) ? usage.tokens : 0;
+    }
+
+    /** Tokens in the bucket at `now`, counting what has refilled since it was last written. */
+    private async refill(key: string, policy: TokenBucketPolicy, now: number): Promise<number> {
+        const state = await this.store.get<BucketState>(key);
+        if (!state) return policy.capacity;
+        const elapsed = Math.max(0, now - state.updatedAt);
+        return Math.min(policy.capacity, state.tokens + (elapsed * policy.refillPerMinute) / MINUTE_MS);
+    }
+
+    /**
+     * Runs `task` once every earlier task on any of `keys` has settled, so a
+     * read and the write that follows it cannot interleave with another
+     * request's in this process.
+     */
+    private exclusive<T>(keys: ReadonlyArray<string>, task: () => Promise<T>): Promise<T> {
+        const result = Promise.all(keys.map((key) => this.pending.get(key))).then(task);
+        const settled = result.catch(() => undefined);
+        keys.forEach((key) => this.pending.set(key, settled));
+        void settled.then(() => {
+            keys.forEach((key) => {
+                if (this.pending.get(key) === settled) this.pending.delete(key);
+            });
+        });
+        return result;
+    }
+}
+
+let store: RateLimitStore | undefined;
+let limiter: RateLimiter | undefined;
+
+export function getRateLimiter(env: NodeJS.ProcessEnv = process.env): RateLimiter {
+    if (!limiter) {
+        store ??= new MemoryRateLimitStore();
+        limiter = new RateLimiter(store, getRateLimitConfig(env));
+    }
+    return limiter;
+}
+
+/** Swaps the store behind the chat route's limits, e.g. for one shared between instances. */
+export function setRateLimitStore(next: RateLimitStore): void {
+    store = next;
+    limiter = undefined;
+}
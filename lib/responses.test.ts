@@ -0,0 +1,475 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+import type {
+    Response,
+    ResponseOutputItem,
+    ResponseStreamEvent,
+} from "openai/resources/responses/responses";
+import { describe, expect, it } from "vitest";
+
+import { ResponseSession, type ResponseSessionMessage } from "@/lib/responses";
+import { getRecordedInputs, parseStreamRecording, type StreamRecording } from "@/lib/stream-recording";
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type StreamEventInput = DistributiveOmit<ResponseStreamEvent, "sequence_number">;
+
+/** Recorded `/api/chat` streams from `fixtures/recordings`. */
+const loadRecording = (name: string): StreamRecording =>
+    parseStreamRecording(readFileSync(path.join(__dirname, "..", "fixtures", "recordings", `${name}.ndjson`), "utf8"));
+
+const play = (session: ResponseSession, recording: StreamRecording, { includeInputs = true } = {}) => {
+    if (includeInputs) {
+        getRecordedInputs(recording).forEach((input) => session.addInput(input));
+    }
+    recording.events.forEach(({ event }) => session.handleEvent(event));
+};
+
+const createResponse = (id: string, overrides: Partial<Response> = {}): Response => ({
+    id,
+    object: "response",
+    created_at: 0,
+    model: "openai/gpt-oss-120b",
+    status: "in_progress",
+    output: [],
+    output_text: "",
+    error: null,
+    incomplete_details: null,
+    instructions: null,
+    metadata: null,
+    parallel_tool_calls: true,
+    temperature: null,
+    tool_choice: "auto",
+    tools: [],
+    top_p: null,
+    ...overrides,
+});
+
+/** Feeds hand-written events, numbering them in order. */
+const feed = (session: ResponseSession, events: ReadonlyArray<StreamEventInput>) => {
+    events.forEach((event, index) => {
+        session.handleEvent({ ...event, sequence_number: index } as ResponseStreamEvent);
+    });
+};
+
+const outputs = (messages: ReadonlyArray<ResponseSessionMessage>) =>
+    messages.filter((message) => message.kind === "output").map((message) => message.item);
+
+const describeMessages = (messages: ReadonlyArray<ResponseSessionMessage>) =>
+    messages.map((message) =>
+        message.kind === "input"
+            ? `input:${message.item.type ?? "message"}`
+            : `output:${message.item.type}:${(message.item as { id?: string }).id}`,
+    );
+
+const assistantText = (item: ResponseOutputItem | undefined): string =>
+    item?.type === "message"
+        ? item.content.map((part) => (part.type === "output_text" ? part.text : part.refusal)).join("")
+        : "";
+
+describe("ResponseSession with recorded streams", () => {
+    it("builds the transcript and snapshot of a completed tool turn", () => {
+        const session = new ResponseSession();
+        play(session, loadRecording("list-customers"));
+
+        const { messages, status, response } = session.getSnapshot();
+        expect(status).toBe("completed");
+        expect(describeMessages(messages)).toEqual([
+            "input:message",
+            "output:mcp_list_tools:mcpl_mock_list-customers_4_0",
+            "output:reasoning:rs_mock_list-customers_4_1",
+            "output:mcp_call:mcp_mock_list-customers_4_2",
+            "output:message:msg_mock_list-customers_4_3",
+        ]);
+        expect(outputs(messages)).toEqual(response?.output);
+        expect(assistantText(outputs(messages)[3])).toBe(response?.output_text);
+    });
+
+    it("appends the response that follows an approval after the one that asked for it", () => {
+        const session = new ResponseSession();
+        play(session, loadRecording("refund-approval-request"));
+        const [request] = session.getMessages().filter((message) => message.item.type === "mcp_approval_request");
+        const asked = describeMessages(session.getMessages());
+
+        session.addApprovalResponse((request.item as ResponseOutputItem.McpApprovalRequest).id, true);
+        play(session, loadRecording("refund-approval-continued"), { includeInputs: false });
+
+        // Both responses number their outputs from 0; the second must not
+        // interleave with, or overwrite, the first.
+        expect(describeMessages(session.getMessages())).toEqual([
+            ...asked,
+            "input:mcp_approval_response",
+            "output:mcp_call:mcp_mock_refund-approval_3_0",
+            "output:message:msg_mock_refund-approval_3_1",
+        ]);
+        expect(asked).toEqual([
+            "input:message",
+            "output:reasoning:rs_mock_refund-approval_2_0",
+            "output:mcp_approval_request:mcpr_mock_refund-approval_2_1",
+        ]);
+        expect(session.getStatus()).toBe("completed");
+        expect(session.getResponse()?.id).toBe("resp_mock_3");
+        expect(session.getSnapshot().response?.output).toEqual(outputs(session.getMessages()).slice(2));
+    });
+
+    it("continues after an approval in a session restored from JSON", () => {
+        const first = new ResponseSession();
+        play(first, loadRecording("refund-approval-request"));
+        const restored = ResponseSession.fromJSON(first.toJSON());
+
+        restored.addApprovalResponse("mcpr_mock_refund-approval_2_1", true);
+        play(restored, loadRecording("refund-approval-continued"), { includeInputs: false });
+
+        expect(describeMessages(restored.getMessages())).toEqual([
+            "input:message",
+            "output:reasoning:rs_mock_refund-approval_2_0",
+            "output:mcp_approval_request:mcpr_mock_refund-approval_2_1",
+            "input:mcp_approval_response",
+            "output:mcp_call:mcp_mock_refund-approval_3_0",
+            "output:message:msg_mock_refund-approval_3_1",
+        ]);
+    });
+});
+
+describe("ResponseSession event ordering", () => {
+    it("orders outputs by output index when they arrive out of order", () => {
+        const session = new ResponseSession({ inputs: [{ role: "user", content: "hi" }] });
+        feed(session, [
+            { type: "response.created", response: createResponse("resp_1") },
+            {
+                type: "response.output_item.added",
+                output_index: 2,
+                item: { id: "msg_2", type: "message", role: "assistant", status: "in_progress", content: [] },
+            },
+            {
+                type: "response.output_item.added",
+                output_index: 0,
+                item: { id: "rs_0", type: "reasoning", summary: [] },
+            },
+            {
+                type: "response.output_text.delta",
+                item_id: "msg_2",
+                output_index: 2,
+                content_index: 0,
+                delta: "Done",
+                logprobs: [],
+            },
+            {
+                type: "response.output_item.added",
+                output_index: 1,
+                item: { id: "mcp_1", type: "mcp_call", name: "list_customers", server_label: "stripe", arguments: "" },
+            },
+            {
+                type: "response.mcp_call_arguments.delta",
+                item_id: "mcp_1",
+                output_index: 1,
+                delta: "{}",
+            },
+            {
+                type: "response.output_text.delta",
+                item_id: "msg_2",
+                output_index: 2,
+                content_index: 0,
+                delta: ".",
+                logprobs: [],
+            },
+        ]);
+
+        const items = outputs(session.getMessages());
+        expect(items.map((item) => (item as { id: string }).id)).toEqual(["rs_0", "mcp_1", "msg_2"]);
+        expect(assistantText(items[2])).toBe("Done.");
+        expect(items[1]).toMatchObject({ type: "mcp_call", arguments: "{}" });
+        expect(session.getMessages()[0].kind).toBe("input");
+    });
+
+    it("keeps one entry per output when output_item.done repeats the item", () => {
+        const session = new ResponseSession();
+        const item: ResponseOutputItem = {
+            id: "msg_0",
+            type: "message",
+            role: "assistant",
+            status: "completed",
+            content: [{ type: "output_text", text: "Hello", annotations: [] }],
+        };
+        feed(session, [
+            { type: "response.created", response: createResponse("resp_1") },
+            { type: "response.output_item.added", output_index: 0, item: { ...item, status: "in_progress", content: [] } },
+            { type: "response.output_item.done", output_index: 0, item },
+            { type: "response.completed", response: createResponse("resp_1", { status: "completed", output: [item] }) },
+        ]);
+
+        expect(outputs(session.getMessages())).toEqual([item]);
+        expect(session.getSnapshot().status).toBe("completed");
+    });
+});
+
+describe("ResponseSession without output_item.added", () => {
+    type PlaceholderCase = {
+        type: ResponseOutputItem["type"];
+        event: StreamEventInput;
+        expected: Record<string, unknown>;
+    };
+
+    // One case for every placeholder `createPlaceholderOutput` can make.
+    const cases: PlaceholderCase[] = [
+        {
+            type: "message",
+            event: {
+                type: "response.output_text.delta",
+                item_id: "item_1",
+                output_index: 0,
+                content_index: 0,
+                delta: "Hi",
+                logprobs: [],
+            },
+            expected: { role: "assistant", content: [{ type: "output_text", text: "Hi", annotations: [] }] },
+        },
+        {
+            type: "reasoning",
+            event: {
+                type: "response.reasoning_text.delta",
+                item_id: "item_1",
+                output_index: 0,
+                content_index: 0,
+                delta: "Thinking",
+            },
+            expected: { summary: [], content: [{ type: "reasoning_text", text: "Thinking" }] },
+        },
+        {
+            type: "function_call",
+            event: {
+                type: "response.function_call_arguments.delta",
+                item_id: "item_1",
+                output_index: 0,
+                delta: '{"a":',
+            },
+            expected: { call_id: "item_1", arguments: '{"a":', status: "in_progress" },
+        },
+        {
+            type: "custom_tool_call",
+            event: {
+                type: "response.custom_tool_call_input.delta",
+                item_id: "item_1",
+                output_index: 0,
+                delta: "print(1)",
+            },
+            expected: { call_id: "item_1", input: "" },
+        },
+        {
+            type: "mcp_call",
+            event: {
+                type: "response.mcp_call_arguments.delta",
+                item_id: "item_1",
+                output_index: 0,
+                delta: '{"limit":3}',
+            },
+            expected: { name: "", server_label: "", arguments: '{"limit":3}' },
+        },
+        {
+            type: "mcp_list_tools",
+            event: { type: "response.mcp_list_tools.in_progress", item_id: "item_1", output_index: 0 },
+            expected: { server_label: "", tools: [] },
+        },
+        {
+            type: "code_interpreter_call",
+            event: {
+                type: "response.code_interpreter_call_code.delta",
+                item_id: "item_1",
+                output_index: 0,
+                delta: "1 + 1",
+            },
+            expected: { code: "1 + 1", outputs: [], status: "in_progress" },
+        },
+        {
+            type: "image_generation_call",
+            event: { type: "response.image_generation_call.generating", item_id: "item_1", output_index: 0 },
+            expected: { status: "generating", result: null },
+        },
+    ];
+
+    it.each(cases)("creates a $type placeholder from its first event", ({ type, event, expected }) => {
+        const session = new ResponseSession();
+        feed(session, [{ type: "response.created", response: createResponse("resp_1") }, event]);
+
+        const messages = session.getMessages();
+        expect(messages).toHaveLength(1);
+        expect(messages[0]).toMatchObject({ kind: "output", outputIndex: 0 });
+        expect(messages[0].item).toMatchObject({ id: "item_1", type, ...expected });
+        expect(session.getResponse()?.output[0]).toMatchObject({ id: "item_1", type });
+    });
+
+    it("keeps custom tool input streamed into a placeholder as an augmentation", () => {
+        const session = new ResponseSession();
+        feed(session, [
+            { type: "response.created", response: createResponse("resp_1") },
+            cases.find((entry) => entry.type === "custom_tool_call")!.event,
+        ]);
+
+        const [entry] = session.getMessages();
+        expect(entry.kind === "output" && entry.augmentations?.customToolInput).toBe("print(1)");
+    });
+
+    it("fills a placeholder in when output_item.done arrives", () => {
+        const session = new ResponseSession();
+        const done: ResponseOutputItem = {
+            id: "item_1",
+            type: "mcp_call",
+            name: "list_customers",
+            server_label: "stripe",
+            arguments: '{"limit":3}',
+            output: "[]",
+        };
+        feed(session, [
+            { type: "response.created", response: createResponse("resp_1") },
+            cases.find((entry) => entry.type === "mcp_call")!.event,
+            { type: "response.output_item.done", output_index: 0, item: done },
+        ]);
+
+        expect(outputs(session.getMessages())).toEqual([done]);
+        expect(session.getResponse()?.output).toEqual([done]);
+    });
+});
+
+describe("ResponseSession after truncateAfter and appendMessages", () => {
+    const message = (id: string, text: string): ResponseOutputItem => ({
+        id,
+        type: "message",
+        role: "assistant",
+        status: "completed",
+        content: [{ type: "output_text", text, annotations: [] }],
+    });
+
+    const textDelta = (itemId: string, outputIndex: number, delta: string): StreamEventInput => ({
+        type: "response.output_text.delta",
+        item_id: itemId,
+        output_index: outputIndex,
+        content_index: 0,
+        delta,
+        logprobs: [],
+    });
+
+    /** Plays a completed response of one reasoning item and one message. */
+    const completedTurn = (session: ResponseSession, turn: number, text: string) => {
+        const reasoning: ResponseOutputItem = { id: `rs_${turn}`, type: "reasoning", summary: [] };
+        const reply = message(`msg_${turn}`, text);
+        session.addInput({ role: "user", content: `question ${turn}` });
+        feed(session, [
+            { type: "response.created", response: createResponse(`resp_${turn}`) },
+            { type: "response.output_item.added", output_index: 0, item: reasoning },
+            { type: "response.output_item.added", output_index: 1, item: reply },
+            {
+                type: "response.completed",
+                response: createResponse(`resp_${turn}`, { status: "completed", output: [reasoning, reply] }),
+            },
+        ]);
+    };
+
+    it("streams deltas into the new response, not the outputs left before the cut", () => {
+        const session = new ResponseSession();
+        completedTurn(session, 1, "First");
+        completedTurn(session, 2, "Second");
+        const kept = structuredClone(session.getMessages().slice(0, 3));
+
+        const removed = session.truncateAfter(2);
+        expect(describeMessages(removed)).toEqual([
+            "input:message",
+            "output:reasoning:rs_2",
+            "output:message:msg_2",
+        ]);
+
+        session.addInput({ role: "user", content: "question 3" });
+        feed(session, [
+            { type: "response.created", response: createResponse("resp_3") },
+            textDelta("msg_3", 1, "Third"),
+            { type: "response.output_item.added", output_index: 0, item: { id: "rs_3", type: "reasoning", summary: [] } },
+            textDelta("msg_3", 1, "!"),
+        ]);
+
+        // Output indexes 0 and 1 were used by both earlier responses; the new
+        // deltas must neither land on those entries nor be placed among them.
+        expect(describeMessages(session.getMessages())).toEqual([
+            "input:message",
+            "output:reasoning:rs_1",
+            "output:message:msg_1",
+            "input:message",
+            "output:reasoning:rs_3",
+            "output:message:msg_3",
+        ]);
+        expect(session.getMessages().slice(0, 3)).toEqual(kept);
+        expect(assistantText(outputs(session.getMessages())[3])).toBe("Third!");
+    });
+
+    it("does not route deltas for a removed item id to whatever now sits at its index", () => {
+        const session = new ResponseSession();
+        completedTurn(session, 1, "First");
+        completedTurn(session, 2, "Second");
+        session.truncateAfter(2);
+
+        session.addInput({ role: "user", content: "question 3" });
+        feed(session, [
+            { type: "response.created", response: createResponse("resp_3") },
+            { type: "response.output_item.added", output_index: 0, item: message("msg_3", "") },
+            textDelta("msg_3", 0, "Third"),
+        ]);
+
+        // msg_2 used to sit at index 5, which msg_3 now occupies.
+        const items = outputs(session.getMessages());
+        expect(session.getMessages()[4].item).toMatchObject({ id: "msg_3" });
+        expect(assistantText(items[1])).toBe("First");
+        expect(assistantText(items[2])).toBe("Third");
+    });
+
+    it("places a new response after messages appended back in", () => {
+        const session = new ResponseSession();
+        completedTurn(session, 1, "First");
+        completedTurn(session, 2, "Second");
+        const removed = session.truncateAfter(2);
+
+        session.appendMessages(removed);
+        completedTurn(session, 3, "");
+        feed(session, [
+            { type: "response.created", response: createResponse("resp_4") },
+            textDelta("msg_4", 0, "Fourth"),
+        ]);
+
+        expect(describeMessages(session.getMessages())).toEqual([
+            "input:message",
+            "output:reasoning:rs_1",
+            "output:message:msg_1",
+            "input:message",
+            "output:reasoning:rs_2",
+            "output:message:msg_2",
+            "input:message",
+            "output:reasoning:rs_3",
+            "output:message:msg_3",
+            "output:message:msg_4",
+        ]);
+        const items = outputs(session.getMessages());
+        expect(items.map(assistantText)).toEqual(["", "First", "", "Second", "", "", "Fourth"]);
+    });
+
+    it("maps appended item ids to their new positions", () => {
+        const session = new ResponseSession();
+        completedTurn(session, 1, "First");
+        const removed = session.truncateAfter(-1);
+        expect(session.getMessages()).toEqual([]);
+
+        session.addInput({ role: "user", content: "replayed" });
+        session.appendMessages(removed);
+        feed(session, [
+            { type: "response.created", response: createResponse("resp_2") },
+            { type: "response.output_item.added", output_index: 0, item: message("msg_2", "") },
+            textDelta("msg_2", 0, "Second"),
+        ]);
+
+        expect(describeMessages(session.getMessages())).toEqual([
+            "input:message",
+            "input:message",
+            "output:reasoning:rs_1",
+            "output:message:msg_1",
+            "output:message:msg_2",
+        ]);
+        const items = outputs(session.getMessages());
+        expect(items.map(assistantText)).toEqual(["", "First", "Second"]);
+    });
+});
@@ -10,6 +10,7 @@ import type {
     Response,
     ResponseErrorEvent,
     ResponseFunctionToolCall,
+    ResponseIncompleteEvent,
     ResponseInputItem,
     ResponseOutputItem,
     ResponseOutputMessage,
@@ -34,6 +35,8 @@ function clone<T>(value: T): T {
 export interface ResponseSessionInputMessage {
     kind: "input";
     item: ResponseInputItem;
+    /** Notes the client keeps about the request that sent this input; never sent upstream. */
+    metadata?: Record<string, string>;
 }
 
 export interface ResponseSessionOutputMessage {
@@ -68,6 +71,19 @@ export interface ResponseSessionSnapshot {
     sessionAugmentations?: SessionAugmentations;
 }
 
+/** JSON-safe form of a session produced by `toJSON()` and accepted by `fromJSON()`. */
+export interface SerializedResponseSession {
+    version: 1;
+    messages: ResponseSessionMessage[];
+    status: ResponseStatus | "idle";
+    response?: Response;
+    error?: ResponseErrorEvent;
+    sessionAugmentations?: SessionAugmentations;
+    currentResponseId?: string;
+}
+
+const SERIALIZATION_VERSION = 1;
+
 type ResponseSessionEvents = {
     change: ResponseSessionSnapshot;
     event: ResponseStreamEvent;
@@ -107,6 +123,23 @@ class TinyEmitter<Events extends Record<string, unknown>> {
     }
 }
 
+/**
+ * Builds the final event for a response the client stopped: a
+ * `response.incomplete` event whose response is `cancelled`, with any output
+ * still streaming marked incomplete.
+ */
+export function createCancelledResponseEvent(response: Response, sequenceNumber: number): ResponseIncompleteEvent {
+    const cancelled = clone(response);
+    cancelled.status = "cancelled";
+    cancelled.output.forEach((item) => {
+        const output = item as { status?: string };
+        if (output.status === "in_progress") {
+            output.status = "incomplete";
+        }
+    });
+    return { type: "response.incomplete", response: cancelled, sequence_number: sequenceNumber };
+}
+
 export interface ResponseSessionOptions {
     /** Optional inputs to seed the transcript before streaming starts. */
     inputs?: ReadonlyArray<ResponseInputItem>;
@@ -119,6 +152,8 @@ export class ResponseSession {
     private readonly messages: ResponseSessionMessage[] = [];
     private readonly idToIndex = new Map<string, number>();
     private readonly outputIndexToMessageIndex = new Map<number, number>();
+    /** Index in `messages` where the current response's outputs begin. */
+    private responseStartIndex = 0;
 
     private responseSnapshot?: Response;
     private status: ResponseStatus | "idle" = "idle";
@@ -127,6 +162,7 @@ export class ResponseSession {
     private ended = false;
     private endEmitted = false;
     private currentResponseId?: string;
+    private lastSequenceNumber = -1;
 
     public constructor(options: ResponseSessionOptions = {}) {
         if (options.inputs) {
@@ -135,12 +171,60 @@ export class ResponseSession {
             });
         }
         if (options.response) {
+            this.responseStartIndex = this.messages.length;
             this.responseSnapshot = clone(options.response);
             this.status = options.response.status ?? "idle";
             this.syncOutputsFromSnapshot();
         }
     }
 
+    /**
+     * Restores a session serialized with `toJSON()`. A response that was still
+     * streaming when it was saved cannot resume, so it comes back as incomplete.
+     */
+    public static fromJSON(data: SerializedResponseSession): ResponseSession {
+        if (data.version !== SERIALIZATION_VERSION) {
+            throw new Error(`Unsupported ResponseSession serialization version: ${data.version}`);
+        }
+
+        const session = new ResponseSession();
+        const restored = clone(data);
+        session.messages.push(...restored.messages);
+        session.messages.forEach((message, index) => {
+            session.registerItemId(message.item, index);
+        });
+        session.responseSnapshot = restored.response;
+        session.lastError = restored.error;
+        session.sessionAugmentations = restored.sessionAugmentations;
+        session.currentResponseId = restored.currentResponseId;
+        session.responseStartIndex = session.messages.length;
+        const interrupted = restored.status === "in_progress" || restored.status === "queued";
+        session.status = interrupted ? "incomplete" : restored.status;
+        if (interrupted) {
+            session.messages.forEach((message) => {
+                const item = message.item as { status?: string };
+                if (message.kind === "output" && item.status === "in_progress") {
+                    item.status = "incomplete";
+                }
+            });
+        }
+        session.ended = true;
+        session.endEmitted = true;
+        return session;
+    }
+
+    public toJSON(): SerializedResponseSession {
+        return clone({
+            version: SERIALIZATION_VERSION,
+            messages: this.messages,
+            status: this.status,
+            response: this.responseSnapshot,
+            error: this.lastError,
+            sessionAugmentations: this.sessionAugmentations,
+            currentResponseId: this.currentResponseId,
+        });
+    }
+
     public on<K extends keyof ResponseSessionEvents>(event: K, listener: Listener<ResponseSessionEvents[K]>): () => void {
         return this.emitter.on(event, listener);
     }
@@ -163,17 +247,53 @@ export class ResponseSession {
         return this.addInput(approvalResponse);
     }
 
+    /**
+     * Merges `metadata` into the inputs added since the last output, which
+     * are the ones the next request sends.
+     */
+    public setPendingInputMetadata(metadata: Record<string, string>): void {
+        for (let index = this.messages.length - 1; index >= 0; index--) {
+            const message = this.messages[index];
+            if (message.kind !== "input") break;
+            message.metadata = { ...message.metadata, ...metadata };
+        }
+        this.emitChange();
+    }
+
     public handleEvent(event: ResponseStreamEvent): void {
+        if (typeof event.sequence_number === "number") {
+            // Sequence numbers start over with every response.
+            this.lastSequenceNumber =
+                event.type === "response.created"
+                    ? event.sequence_number
+                    : Math.max(this.lastSequenceNumber, event.sequence_number);
+        }
         this.emitter.emit("event", event);
         this.mutateSnapshot(event);
         this.applyToMessages(event);
 
+        if (event.type === "response.created") {
+            this.lastError = undefined;
+        }
+
         if (event.type === "error") {
             this.lastError = event;
             this.ended = true;
             this.emitError(event);
         }
 
+        if (event.type === "response.failed" && event.response.error) {
+            // Surface the failure like a stream error so one place shows both.
+            this.lastError = {
+                type: "error",
+                code: event.response.error.code,
+                message: event.response.error.message,
+                param: null,
+                sequence_number: event.sequence_number,
+            };
+            this.emitError(this.lastError);
+        }
+
         if (event.type === "response.queued") {
             this.status = "queued";
         }
@@ -181,6 +301,54 @@ export class ResponseSession {
         this.emitChange();
     }
 
+    /**
+     * Ends a response that is still streaming as cancelled. Does nothing when
+     * no response is in flight.
+     */
+    public cancel(): void {
+        if (!this.responseSnapshot || (this.status !== "in_progress" && this.status !== "queued")) return;
+        this.handleEvent(createCancelledResponseEvent(this.responseSnapshot, this.lastSequenceNumber + 1));
+    }
+
+    /**
+     * Drops every message after `index` (-1 clears the transcript) and
+     * returns them. The response those messages came from is forgotten too,
+     * so the next turn replays what is left instead of chaining from it.
+     */
+    public truncateAfter(index: number): ResponseSessionMessage[] {
+        if (!Number.isInteger(index) || index < -1) {
+            throw new RangeError(`Cannot truncate after index ${index}`);
+        }
+        this.assertNotStreaming("truncate");
+
+        const removed = this.messages.splice(index + 1);
+        if (removed.length === 0) return removed;
+
+        this.idToIndex.forEach((messageIndex, id) => {
+            if (messageIndex > index) this.idToIndex.delete(id);
+        });
+        this.forgetResponse();
+        this.emitChange();
+        return removed;
+    }
+
+    /**
+     * Appends messages taken from another transcript, such as a conversation
+     * branch being switched back in. As with `truncateAfter`, the current
+     * response is forgotten.
+     */
+    public appendMessages(messages: ReadonlyArray<ResponseSessionMessage>): void {
+        this.assertNotStreaming("append messages");
+        if (messages.length === 0) return;
+
+        clone(messages).forEach((message) => {
+            this.messages.push(message);
+            this.registerItemId(message.item, this.messages.length - 1);
+        });
+        this.forgetResponse();
+        this.emitChange();
+    }
+
     public async consume(stream: AsyncIterable<ResponseStreamEvent>): Promise<Response | undefined> {
         for await (const event of stream) {
             this.handleEvent(event);
@@ -204,6 +372,21 @@ export class ResponseSession {
         return this.lastError;
     }
 
+    /** Forgets the last error, e.g. before retrying the turn that failed. */
+    public clearError(): void {
+        if (!this.lastError) return;
+        this.lastError = undefined;
+        this.emitChange();
+    }
+
+    /**
+     * Highest `sequence_number` applied for the current response, or -1
+     * before its first event. Streams resume after this point.
+     */
+    public getLastSequenceNumber(): number {
+        return this.lastSequenceNumber;
+    }
+
     public getSnapshot(): ResponseSessionSnapshot {
         return {
             messages: [...this.messages],
@@ -223,6 +406,25 @@ export class ResponseSession {
         }
     }
 
+    private assertNotStreaming(action: string): void {
+        if (this.status === "in_progress" || this.status === "queued") {
+            throw new Error(`Cannot ${action} while a response is streaming; cancel it first`);
+        }
+    }
+
+    /** Detaches from the current response so the next turn starts fresh. */
+    private forgetResponse(): void {
+        this.outputIndexToMessageIndex.clear();
+        this.responseStartIndex = this.messages.length;
+        this.responseSnapshot = undefined;
+        this.currentResponseId = undefined;
+        this.status = "idle";
+        this.lastError = undefined;
+        this.ended = false;
+        this.endEmitted = false;
+        this.lastSequenceNumber = -1;
+    }
+
     private emitError(error: ResponseErrorEvent): void {
         this.emitter.emit("error", error);
     }
@@ -239,6 +441,7 @@ export class ResponseSession {
                 this.idToIndex.delete(outputId);
             }
         });
+        this.responseStartIndex = this.messages.length;
     }
 
     private mutateSnapshot(event: ResponseStreamEvent): void {
@@ -474,10 +677,7 @@ export class ResponseSession {
                     | undefined;
                 if (reasoning?.type === "reasoning") {
                     this.ensureOutputItemPresence(event.output_index, "reasoning", event.item_id);
-                    const summary = reasoning.summary[event.content_index];
-                    if (summary && "text" in summary) {
-                        summary.text += event.delta;
-                    }
+                    this.ensureReasoningContent(reasoning, event.content_index).text += event.delta;
                 }
                 return;
             }
@@ -487,10 +687,7 @@ export class ResponseSession {
                     | undefined;
                 if (reasoning?.type === "reasoning") {
                     this.ensureOutputItemPresence(event.output_index, "reasoning", event.item_id);
-                    const summary = reasoning.summary[event.content_index];
-                    if (summary && "text" in summary) {
-                        summary.text = event.text;
-                    }
+                    this.ensureReasoningContent(reasoning, event.content_index).text = event.text;
                 }
                 return;
             }
@@ -706,10 +903,7 @@ export class ResponseSession {
                     entry = this.ensureOutputItemPresence(event.output_index, "reasoning", event.item_id);
                 }
                 if (entry && entry.item.type === "reasoning") {
-                    const summary = entry.item.summary[event.content_index];
-                    if (summary && "text" in summary) {
-                        summary.text = event.text;
-                    }
+                    this.ensureReasoningContent(entry.item, event.content_index).text = event.text;
                     entry.events.push(event);
                 }
                 break;
@@ -784,10 +978,7 @@ export class ResponseSession {
             case "response.reasoning_text.delta": {
                 const entry = this.findOutputEntry(event.item_id, event.output_index);
                 if (entry && entry.item.type === "reasoning") {
-                    const summary = entry.item.summary[event.content_index];
-                    if (summary && "text" in summary) {
-                        summary.text += event.delta;
-                    }
+                    this.ensureReasoningContent(entry.item, event.content_index).text += event.delta;
                     const aug = this.ensureAugmentations(entry);
                     aug.reasoningText = aug.reasoningText ?? [];
                     aug.reasoningText.push(event);
@@ -946,15 +1137,16 @@ export class ResponseSession {
     ): ResponseOutputItem | undefined {
         if (!this.responseSnapshot) return undefined;
 
-        let item = this.responseSnapshot.output[outputIndex];
+        const item = this.responseSnapshot.output[outputIndex];
         if (!item || item.type !== type) {
-            item = this.createPlaceholderOutput(type, itemId);
-            this.setSnapshotOutput(outputIndex, item);
-        } else if (itemId && "id" in item && typeof item.id === "string" && item.id !== itemId) {
+            // `setSnapshotOutput` stores a copy, so hand back that copy for
+            // the caller to write the event into.
+            this.setSnapshotOutput(outputIndex, this.createPlaceholderOutput(type, itemId));
+            return this.responseSnapshot.output[outputIndex];
+        }
+        if (itemId && "id" in item && typeof item.id === "string" && item.id !== itemId) {
             item.id = itemId;
         }
-
-        this.registerItemId(item as { id?: string }, outputIndex);
         return item;
     }
 
@@ -1046,6 +1238,14 @@ export class ResponseSession {
         return message.content[index] as ResponseOutputRefusal;
     }
 
+    private ensureReasoningContent(reasoning: ResponseReasoningItem, index: number): ResponseReasoningItem.Content {
+        reasoning.content = reasoning.content ?? [];
+        while (reasoning.content.length <= index) {
+            reasoning.content.push({ type: "reasoning_text", text: "" });
+        }
+        return reasoning.content[index];
+    }
+
     private ensureSessionAudio(): SessionAugmentations["audio"] {
         if (!this.sessionAugmentations) {
             this.sessionAugmentations = {};
@@ -1163,17 +1363,12 @@ export class ResponseSession {
     }
 
     private findInsertionPoint(outputIndex: number): number {
-        // Find the correct position to insert this outputIndex to maintain order
-        // We want to insert after all input messages and before any output with higher outputIndex
-        
-        let insertionIndex = 0;
-        
-        // Skip all input messages - they should always come first
-        while (insertionIndex < this.messages.length && this.messages[insertionIndex].kind === "input") {
-            insertionIndex++;
-        }
-        
-        // Find the position among output messages based on outputIndex
+        // Outputs of the current response go after everything that came before
+        // it (earlier turns, inputs) and before any of its own outputs with a
+        // higher outputIndex. Earlier responses reuse the same output indexes,
+        // so they must not take part in the ordering.
+        let insertionIndex = Math.min(this.responseStartIndex, this.messages.length);
+
         while (insertionIndex < this.messages.length) {
             const message = this.messages[insertionIndex];
             if (message.kind === "output" && message.outputIndex > outputIndex) {
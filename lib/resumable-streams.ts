@@ -0,0 +1,288 @@
+/**
+ * Buffered `/api/chat` streams that survive dropped connections.
+ *
+ * The route generates into a StreamEventStore instead of writing straight
+ * to the client. Every reader, whether the original request or a reconnect
+ * carrying `Last-Event-ID`, tails the buffer from the point it asks for.
+ * The default store keeps events in memory with a TTL; call
+ * `setStreamEventStore` with a shared implementation (Redis, say) when the
+ * app runs on more than one instance.
+ */
+
+import type { ResponseStreamEvent } from "openai/resources/responses/responses";
+
+import { encodeServerSentComment, encodeServerSentEvent } from "@/lib/sse";
+
+/** A buffered event; `id` is its SSE id and matches the event's `sequence_number`. */
+export interface BufferedStreamEvent {
+    id: number;
+    event: ResponseStreamEvent;
+}
+
+export interface BufferedStreamSlice {
+    events: BufferedStreamEvent[];
+    /** No more events will be appended. */
+    done: boolean;
+}
+
+export interface StreamEventStore {
+    /**
+     * Starts an empty stream so readers can attach before the first event.
+     * `owner` is the id of the user it belongs to.
+     */
+    create(streamId: string, owner: string): Promise<void>;
+    append(streamId: string, entry: BufferedStreamEvent): Promise<void>;
+    finish(streamId: string): Promise<void>;
+    /** Events after `afterId`; undefined when the stream is unknown or expired. */
+    read(streamId: string, afterId: number): Promise<BufferedStreamSlice | undefined>;
+    /** The user the stream belongs to; undefined when it is unknown or expired. */
+    getOwner(streamId: string): Promise<string | undefined>;
+    /**
+     * Resolves once there is something after `afterId` to read, the stream is
+     * done, `timeoutMs` passes or `signal` aborts, whichever comes first.
+     */
+    wait(streamId: string, afterId: number, timeoutMs: number, signal?: AbortSignal): Promise<void>;
+}
+
+interface MemoryStream {
+    owner: string;
+    events: BufferedStreamEvent[];
+    done: boolean;
+    expiresAt: number;
+    waiters: Set<() => void>;
+}
+
+/** Keeps streams in process memory, dropping each `ttlMs` after its last write. */
+export class MemoryStreamEventStore implements StreamEventStore {
+    private readonly streams = new Map<string, MemoryStream>();
+
+    public constructor(private readonly ttlMs: number) {}
+
+    public async create(streamId: string, owner: string): Promise<void> {
+        this.touch(streamId).owner = owner;
+    }
+
+    public async append(streamId: string, entry: BufferedStreamEvent): Promise<void> {
+        const stream = this.touch(streamId);
+        if (stream.done) return;
+        stream.events.push(entry);
+        this.notify(stream);
+    }
+
+    public async finish(streamId: string): Promise<void> {
+        const stream = this.touch(streamId);
+        stream.done = true;
+        this.notify(stream);
+    }
+
+    public async read(streamId: string, afterId: number): Promise<BufferedStreamSlice | undefined> {
+        const stream = this.get(streamId);
+        if (!stream) return undefined;
+        return { events: stream.events.filter((entry) => entry.id > afterId), done: stream.done };
+    }
+
+    public async getOwner(streamId: string): Promise<string | undefined> {
+        return this.get(streamId)?.owner;
+    }
+
+    public wait(streamId: string, afterId: number, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+        const stream = this.get(streamId);
+        if (!stream || stream.done || signal?.aborted || stream.events.some((entry) => entry.id > afterId)) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve) => {
+            const finish = () => {
+                clearTimeout(timer);
+                stream.waiters.delete(finish);
+                signal?.removeEventListener("abort", finish);
+                resolve();
+            };
+            const timer = setTimeout(finish, timeoutMs);
+            stream.waiters.add(finish);
+            signal?.addEventListener("abort", finish, { once: true });
+        });
+    }
+
+    private get(streamId: string): MemoryStream | undefined {
+        this.sweep();
+        return this.streams.get(streamId);
+    }
+
+    private touch(streamId: string): MemoryStream {
+        let stream = this.get(streamId);
+        if (!stream) {
+            stream = { owner: "", events: [], done: false, expiresAt: 0, waiters: new Set() };
+            this.streams.set(streamId, stream);
+        }
+        stream.expiresAt = Date.now() + this.ttlMs;
+        return stream;
+    }
+
+    private notify(stream: MemoryStream): void {
+        Array.from(stream.waiters).forEach((wake) => wake());
+    }
+
+    private sweep(): void {
+        const now = Date.now();
+        this.streams.forEach((stream, id) => {
+            if (stream.expiresAt <= now) {
+                this.notify(stream);
+                this.streams.delete(id);
+            }
+        });
+    }
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_GRACE_MS = 30 * 1000;
+const KEEPALIVE_MS = 15 * 1000;
+
+let store: StreamEventStore | undefined;
+
+export function getStreamEventStore(env: NodeJS.ProcessEnv = process.env): StreamEventStore {
+    if (!store) {
+        store = new MemoryStreamEventStore(Number(env.STREAM_BUFFER_TTL_MS) || DEFAULT_TTL_MS);
+    }
+    return store;
+}
+
+/** Swaps the store used by the chat routes, e.g. for one shared between instances. */
+export function setStreamEventStore(next: StreamEventStore): void {
+    store = next;
+}
+
+/** An unguessable stream id: 122 random bits from the platform's CSPRNG. */
+export function createStreamId(): string {
+    return `strm_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+const STREAM_ID_PATTERN = /^strm_[a-z0-9]{1,64}$/;
+
+export function isStreamId(id: string): boolean {
+    return STREAM_ID_PATTERN.test(id);
+}
+
+/** Parses a `Last-Event-ID` header; anything unusable resumes from the start. */
+export function parseLastEventId(value: string | null): number {
+    if (!value || !/^-?\d+$/.test(value.trim())) return -1;
+    return Number(value.trim());
+}
+
+interface Producer {
+    abort: AbortController;
+    readers: number;
+    graceTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Generation happens in this process even when the buffer is shared, so the
+// handles that stop it stay local.
+const producers = new Map<string, Producer>();
+
+/**
+ * Tracks the generation behind a stream. When its last reader goes away and
+ * nobody resumes within the grace period, `abort` fires.
+ */
+export function registerStreamProducer(streamId: string, abort: AbortController): () => void {
+    producers.set(streamId, { abort, readers: 0 });
+    return () => {
+        const producer = producers.get(streamId);
+        if (producer?.graceTimer) clearTimeout(producer.graceTimer);
+        producers.delete(streamId);
+    };
+}
+
+/** Stops the generation behind a stream. Returns false when it is not running here. */
+export function cancelStreamProducer(streamId: string): boolean {
+    const producer = producers.get(streamId);
+    if (!producer) return false;
+    producer.abort.abort();
+    return true;
+}
+
+const attachReader = (streamId: string, env: NodeJS.ProcessEnv): (() => void) => {
+    const producer = producers.get(streamId);
+    if (!producer) return () => {};
+
+    producer.readers++;
+    if (producer.graceTimer) {
+        clearTimeout(producer.graceTimer);
+        producer.graceTimer = undefined;
+    }
+
+    let detached = false;
+    return () => {
+        if (detached) return;
+        detached = true;
+        producer.readers--;
+        if (producer.readers > 0 || producer.abort.signal.aborted || producers.get(streamId) !== producer) return;
+        const graceMs = Number(env.STREAM_RESUME_GRACE_MS) || DEFAULT_GRACE_MS;
+        producer.graceTimer = setTimeout(() => producer.abort.abort(), graceMs);
+    };
+};
+
+/**
+ * Headers for every event-stream response the chat routes send. CORS headers
+ * are added by the middleware, for allowed origins only.
+ */
+export function createEventStreamHeaders(): Headers {
+    return new Headers({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+    });
+}
+
+/**
+ * An SSE body that replays a buffered stream after `afterId` and then follows
+ * it live until it finishes. Idle streams get keep-alive comments.
+ */
+export function createStreamReader(
+    streamId: string,
+    afterId: number,
+    options: { signal?: AbortSignal; env?: NodeJS.ProcessEnv } = {},
+): ReadableStream<Uint8Array> {
+    const env = options.env ?? process.env;
+    const events = getStreamEventStore(env);
+    const encoder = new TextEncoder();
+    const stop = new AbortController();
+    const stopReading = () => stop.abort();
+    options.signal?.addEventListener("abort", stopReading, { once: true });
+    const detach = attachReader(streamId, env);
+
+    return new ReadableStream({
+        async start(controller) {
+            let lastId = afterId;
+            let waited = false;
+            try {
+                while (!stop.signal.aborted) {
+                    const slice = await events.read(streamId, lastId);
+                    if (!slice) break;
+
+                    if (waited && slice.events.length === 0 && !slice.done) {
+                        controller.enqueue(encoder.encode(encodeServerSentComment("keep-alive")));
+                    }
+                    for (const entry of slice.events) {
+                        controller.enqueue(
+                            encoder.encode(encodeServerSentEvent({ id: entry.id, data: JSON.stringify(entry.event) })),
+                        );
+                        lastId = entry.id;
+                    }
+                    if (slice.done) break;
+
+                    await events.wait(streamId, lastId, KEEPALIVE_MS, stop.signal);
+                    waited = true;
+                }
+                controller.close();
+            } catch {
+                // The reader went away mid-write.
+            } finally {
+                options.signal?.removeEventListener("abort", stopReading);
+                detach();
+            }
+        },
+        cancel() {
+            stopReading();
+        },
+    });
+}
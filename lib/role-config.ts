@@ -0,0 +1,152 @@
+/**
+ * The deployment's roles and who holds them.
+ *
+ * Defaults live in `config/roles.json`; a deployment can point `ROLES_CONFIG`
+ * at its own file, whose roles and assignments are merged over the defaults.
+ * `AUTH_USER_ROLES` assigns roles without a file, as comma-separated
+ * `user=role` pairs. Users are matched by id (`credentials:alice`,
+ * `oidc:<sub>`, `dev:bob`) or by email; everyone else gets the default role.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+import defaultConfig from "@/config/roles.json";
+import type { AuthUser } from "@/lib/auth";
+import { ALL_TOOLS, type UserRole } from "@/lib/roles";
+
+export interface RoleConfig {
+    default_role: string;
+    roles: Record<string, Omit<UserRole, "name">>;
+    /** Role names by user id or email. */
+    users: Record<string, string>;
+}
+
+const ROLE_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/** Validates a (partial) role config, throwing on malformed roles. */
+export function parseRoleConfig(raw: unknown, source: string): Partial<RoleConfig> {
+    if (!raw || typeof raw !== "object") {
+        throw new Error(`Invalid role config in ${source}: expected an object`);
+    }
+    const input = raw as Record<string, unknown>;
+    const config: Partial<RoleConfig> = {};
+
+    if (input.default_role !== undefined) {
+        if (typeof input.default_role !== "string") {
+            throw new Error(`Invalid role config in ${source}: "default_role" must be a role name`);
+        }
+        config.default_role = input.default_role;
+    }
+
+    if (input.roles !== undefined) {
+        if (!input.roles || typeof input.roles !== "object") {
+            throw new Error(`Invalid role config in ${source}: "roles" must be an object`);
+        }
+        config.roles = {};
+        Object.entries(input.roles as Record<string, unknown>).forEach(([name, value]) => {
+            const role = value as { description?: unknown; tools?: unknown; audit?: unknown } | null;
+            if (!ROLE_NAME_PATTERN.test(name)) {
+                throw new Error(`Invalid role config in ${source}: role names use letters, digits, "_" or "-", got "${name}"`);
+            }
+            const { tools } = role ?? {};
+            if (tools !== ALL_TOOLS && !(Array.isArray(tools) && tools.every((tool) => typeof tool === "string"))) {
+                throw new Error(`Invalid role config in ${source}: role "${name}" needs "tools" as a list of tool names or "*"`);
+            }
+            if (role?.audit !== undefined && typeof role.audit !== "boolean") {
+                throw new Error(`Invalid role config in ${source}: role "${name}" has a non-boolean "audit"`);
+            }
+            config.roles![name] = {
+                tools: tools as UserRole["tools"],
+                ...(typeof role?.description === "string" ? { description: role.description } : {}),
+                ...(role?.audit ? { audit: true } : {}),
+            };
+        });
+    }
+
+    if (input.users !== undefined) {
+        if (!input.users || typeof input.users !== "object") {
+            throw new Error(`Invalid role config in ${source}: "users" must be an object`);
+        }
+        config.users = {};
+        Object.entries(input.users as Record<string, unknown>).forEach(([user, role]) => {
+            if (typeof role !== "string") {
+                throw new Error(`Invalid role config in ${source}: user "${user}" must map to a role name`);
+            }
+            config.users![user] = role;
+        });
+    }
+
+    return config;
+}
+
+/** Parses `AUTH_USER_ROLES`, e.g. `credentials:alice=finance_lead,bob@example.com=support`. */
+export function parseUserRoles(value: string | undefined): Record<string, string> {
+    const users: Record<string, string> = {};
+    (value ?? "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .forEach((entry) => {
+            const separator = entry.lastIndexOf("=");
+            if (separator <= 0 || separator === entry.length - 1) {
+                throw new Error(`Invalid AUTH_USER_ROLES entry ${JSON.stringify(entry)}: expected user=role`);
+            }
+            users[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+        });
+    return users;
+}
+
+export function mergeRoleConfig(base: RoleConfig, override: Partial<RoleConfig>): RoleConfig {
+    return {
+        default_role: override.default_role ?? base.default_role,
+        roles: { ...base.roles, ...override.roles },
+        users: { ...base.users, ...override.users },
+    };
+}
+
+/** Throws when the default role or an assignment names a role that does not exist. */
+const checkRoleNames = (config: RoleConfig): void => {
+    if (!config.roles[config.default_role]) {
+        throw new Error(`Unknown default role "${config.default_role}"`);
+    }
+    Object.entries(config.users).forEach(([user, role]) => {
+        if (!config.roles[role]) {
+            throw new Error(`User "${user}" is assigned the unknown role "${role}"`);
+        }
+    });
+};
+
+let cachedConfig: RoleConfig | undefined;
+
+/** Loads the deployment's roles once per process. */
+export function loadRoleConfig(env: NodeJS.ProcessEnv = process.env): RoleConfig {
+    if (cachedConfig && env === process.env) return cachedConfig;
+
+    let config = mergeRoleConfig(
+        { default_role: "", roles: {}, users: {} },
+        parseRoleConfig(defaultConfig, "config/roles.json"),
+    );
+
+    if (env.ROLES_CONFIG) {
+        const file = path.resolve(process.cwd(), env.ROLES_CONFIG);
+        const raw = JSON.parse(readFileSync(file, "utf8")) as unknown;
+        config = mergeRoleConfig(config, parseRoleConfig(raw, file));
+    }
+
+    config = mergeRoleConfig(config, { users: parseUserRoles(env.AUTH_USER_ROLES) });
+    checkRoleNames(config);
+
+    if (env === process.env) {
+        cachedConfig = config;
+    }
+    return config;
+}
+
+/** The role `user` holds: by id, then by email, then the default. */
+export function resolveUserRole(user: AuthUser, env: NodeJS.ProcessEnv = process.env): UserRole {
+    const config = loadRoleConfig(env);
+    const name =
+        config.users[user.id] ?? (user.email ? config.users[user.email] : undefined) ?? config.default_role;
+    return { name, ...config.roles[name] };
+}
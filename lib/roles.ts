@@ -0,0 +1,27 @@
+/**
+ * Roles deciding which Stripe MCP tools a signed-in user may run and approve.
+ * Tools on other MCP servers are not limited by role.
+ *
+ * Kept free of server-only imports so the UI can tell which approvals the
+ * current user can give. The deployment's roles, and who holds them, are
+ * loaded by `lib/role-config.ts`.
+ */
+
+import { STRIPE_SERVER_LABEL } from "@/lib/stripe-accounts";
+
+/** Grants every tool, e.g. to an administrator or when sign-in is off. */
+export const ALL_TOOLS = "*";
+
+export interface UserRole {
+    name: string;
+    description?: string;
+    /** Stripe tool names the role may call and approve, or `ALL_TOOLS`. */
+    tools: ReadonlyArray<string> | typeof ALL_TOOLS;
+    /** May read and export the audit log. */
+    audit?: boolean;
+}
+
+/** Whether `role` may call and approve `toolName` on the server labelled `serverLabel`. */
+export function isToolAllowed(role: UserRole, toolName: string, serverLabel: string): boolean {
+    return serverLabel !== STRIPE_SERVER_LABEL || role.tools === ALL_TOOLS || role.tools.includes(toolName);
+}
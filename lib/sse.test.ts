@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    decodeServerSentEvents,
+    encodeServerSentComment,
+    encodeServerSentEvent,
+    ServerSentEventDecoder,
+    type ServerSentEvent,
+} from "@/lib/sse";
+
+/** Feeds `text` to a fresh decoder in pieces cut at `cuts`. */
+const decodeInPieces = (text: string, cuts: ReadonlyArray<number>) => {
+    const decoder = new ServerSentEventDecoder();
+    const events: ServerSentEvent[] = [];
+    [0, ...cuts, text.length].reduce((from, to) => {
+        events.push(...decoder.push(text.slice(from, to)));
+        return to;
+    });
+    return { decoder, events };
+};
+
+const collect = async (source: AsyncIterable<ServerSentEvent>) => {
+    const events: ServerSentEvent[] = [];
+    for await (const event of source) events.push(event);
+    return events;
+};
+
+async function* chunksOf(...chunks: Array<string | Uint8Array>) {
+    yield* chunks;
+}
+
+describe("ServerSentEventDecoder", () => {
+    it("joins multi-line data and names the event", () => {
+        const { events } = decodeInPieces("event: delta\ndata: first\ndata:second\ndata\n\n", []);
+
+        expect(events).toEqual([{ event: "delta", data: "first\nsecond\n", id: "" }]);
+    });
+
+    it("ignores comments, unknown fields and events without data", () => {
+        const { events } = decodeInPieces(": keep-alive\n\nevent: ping\n\nfoo: bar\ndata: x\n\n", []);
+
+        expect(events).toEqual([{ event: "message", data: "x", id: "" }]);
+    });
+
+    it("gives the same events however the stream is split", () => {
+        const text = 'id: 1\r\ndata: {"a":1}\r\n\r\nid: 2\rdata: two\r\rid: 3\ndata: three\n\n';
+        const whole = decodeInPieces(text, []).events;
+
+        expect(whole).toEqual([
+            { event: "message", data: '{"a":1}', id: "1" },
+            { event: "message", data: "two", id: "2" },
+            { event: "message", data: "three", id: "3" },
+        ]);
+        for (let cut = 1; cut < text.length; cut++) {
+            expect(decodeInPieces(text, [cut]).events).toEqual(whole);
+        }
+        expect(decodeInPieces(text, Array.from({ length: text.length - 1 }, (_, index) => index + 1)).events).toEqual(
+            whole,
+        );
+    });
+
+    it("does not read a CRLF split across chunks as two line ends", () => {
+        const { events } = decodeInPieces("data: a\r\ndata: b\r\n\r\n", [8, 18]);
+
+        expect(events).toEqual([{ event: "message", data: "a\nb", id: "" }]);
+    });
+
+    it("tracks the last event id for reconnecting", () => {
+        const decoder = new ServerSentEventDecoder();
+
+        expect(decoder.push("id: 7\ndata: a\n\n")).toEqual([{ event: "message", data: "a", id: "7" }]);
+        // An id without data still moves the id on, and it sticks to later events.
+        decoder.push("id: 8\n\n");
+        expect(decoder.lastEventId).toBe("8");
+        expect(decoder.push("data: b\n\n")).toEqual([{ event: "message", data: "b", id: "8" }]);
+        // Ids containing NUL are ignored; an empty id resets it.
+        decoder.push("id: 9\0\ndata: c\n\n");
+        expect(decoder.lastEventId).toBe("8");
+        decoder.push("id\ndata: d\n\n");
+        expect(decoder.lastEventId).toBe("");
+    });
+
+    it("reads only whole-number retry fields", () => {
+        const decoder = new ServerSentEventDecoder();
+
+        decoder.push("retry: 2500\n\n");
+        expect(decoder.retry).toBe(2500);
+        decoder.push("retry: soon\nretry: 1.5\n\n");
+        expect(decoder.retry).toBe(2500);
+    });
+
+    it("drops an event left unterminated at the end of the stream", () => {
+        const decoder = new ServerSentEventDecoder();
+
+        expect(decoder.push("id: 4\ndata: partial")).toEqual([]);
+        decoder.end();
+        expect(decoder.push("\n\n")).toEqual([]);
+        expect(decoder.lastEventId).toBe("4");
+    });
+
+    it("strips a leading byte order mark", () => {
+        expect(decodeInPieces("\uFEFFdata: x\n\n", []).events).toEqual([{ event: "message", data: "x", id: "" }]);
+    });
+});
+
+describe("decodeServerSentEvents", () => {
+    it("decodes bytes split inside a multi-byte character", async () => {
+        const bytes = new TextEncoder().encode("id: 1\ndata: café ✓\n\n");
+        const cut = bytes.indexOf(0xc3) + 1;
+
+        const events = await collect(decodeServerSentEvents(chunksOf(bytes.slice(0, cut), bytes.slice(cut))));
+
+        expect(events).toEqual([{ event: "message", data: "café ✓", id: "1" }]);
+    });
+
+    it("leaves the last event id on the decoder it was given", async () => {
+        const decoder = new ServerSentEventDecoder();
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                const encoder = new TextEncoder();
+                controller.enqueue(encoder.encode("id: 41\ndata: a\n\nid: 4"));
+                controller.enqueue(encoder.encode("2\ndata: b\n\n"));
+                controller.close();
+            },
+        });
+
+        const events = await collect(decodeServerSentEvents(body, decoder));
+
+        expect(events.map((event) => event.id)).toEqual(["41", "42"]);
+        expect(decoder.lastEventId).toBe("42");
+    });
+
+    it("reads back what the encoder writes", async () => {
+        const text =
+            encodeServerSentComment("hello") +
+            encodeServerSentEvent({ id: 3, event: "update", data: "line one\r\nline two", retry: 1000.7 });
+
+        const decoder = new ServerSentEventDecoder();
+        const events = await collect(decodeServerSentEvents(chunksOf(text), decoder));
+
+        expect(events).toEqual([{ event: "update", data: "line one\nline two", id: "3" }]);
+        expect(decoder.retry).toBe(1000);
+    });
+});
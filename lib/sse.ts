@@ -0,0 +1,183 @@
+/**
+ * Server-sent events encoding and decoding following the WHATWG
+ * `text/event-stream` rules.
+ *
+ * Runtime agnostic: the decoder takes text or bytes from a browser
+ * ReadableStream, a Node stream or any other async iterable, so the chat hook
+ * and command-line consumers parse `/api/chat` the same way.
+ */
+
+export interface ServerSentEvent {
+    /** The `event:` field; `message` when the server did not name one. */
+    event: string;
+    /** All `data:` lines of the event joined with newlines. */
+    data: string;
+    /** The last event id seen on the stream when this event was dispatched. */
+    id: string;
+}
+
+export interface ServerSentEventInit {
+    data: string;
+    event?: string;
+    id?: string | number;
+    retry?: number;
+}
+
+/** Serializes one event, splitting multi-line data into several `data:` fields. */
+export function encodeServerSentEvent({ data, event, id, retry }: ServerSentEventInit): string {
+    let output = "";
+    if (event !== undefined) output += `event: ${event}\n`;
+    if (id !== undefined) output += `id: ${id}\n`;
+    if (retry !== undefined) output += `retry: ${Math.floor(retry)}\n`;
+    for (const line of data.split(/\r\n|\r|\n/)) {
+        output += `data: ${line}\n`;
+    }
+    return `${output}\n`;
+}
+
+/** A comment line; clients ignore it, proxies see traffic on an idle stream. */
+export function encodeServerSentComment(text = ""): string {
+    return `: ${text}\n\n`;
+}
+
+/**
+ * Incremental parser. Feed it text as it arrives and collect the events each
+ * chunk completes. Lines may be split anywhere, including between the CR and
+ * LF of a CRLF pair.
+ */
+export class ServerSentEventDecoder {
+    private buffer = "";
+    private pendingCarriageReturn = false;
+    private started = false;
+    private eventType = "";
+    private data: string[] = [];
+    private lastId = "";
+    private reconnectionTime: number | undefined;
+
+    /** The id of the most recent event, for a `Last-Event-ID` header on reconnect. */
+    public get lastEventId(): string {
+        return this.lastId;
+    }
+
+    /** Reconnection delay in milliseconds requested by the last `retry:` field. */
+    public get retry(): number | undefined {
+        return this.reconnectionTime;
+    }
+
+    public push(chunk: string): ServerSentEvent[] {
+        if (!this.started && chunk) {
+            this.started = true;
+            if (chunk.startsWith("\uFEFF")) chunk = chunk.slice(1);
+        }
+        // A CR ending the previous chunk already closed its line.
+        if (this.pendingCarriageReturn && chunk.startsWith("\n")) chunk = chunk.slice(1);
+        this.pendingCarriageReturn = false;
+
+        this.buffer += chunk;
+        const events: ServerSentEvent[] = [];
+
+        let start = 0;
+        for (let index = 0; index < this.buffer.length; index++) {
+            const char = this.buffer[index];
+            if (char !== "\r" && char !== "\n") continue;
+
+            const event = this.processLine(this.buffer.slice(start, index));
+            if (event) events.push(event);
+
+            if (char === "\r") {
+                if (index + 1 === this.buffer.length) {
+                    this.pendingCarriageReturn = true;
+                } else if (this.buffer[index + 1] === "\n") {
+                    index++;
+                }
+            }
+            start = index + 1;
+        }
+
+        this.buffer = this.buffer.slice(start);
+        return events;
+    }
+
+    /**
+     * Ends the stream. Per the spec an event without its terminating blank
+     * line is incomplete and is discarded.
+     */
+    public end(): void {
+        this.buffer = "";
+        this.pendingCarriageReturn = false;
+        this.eventType = "";
+        this.data = [];
+    }
+
+    private processLine(line: string): ServerSentEvent | undefined {
+        if (line === "") return this.dispatch();
+        if (line.startsWith(":")) return undefined;
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? "" : line.slice(colon + 1);
+        if (value.startsWith(" ")) value = value.slice(1);
+
+        switch (field) {
+            case "event":
+                this.eventType = value;
+                break;
+            case "data":
+                this.data.push(value);
+                break;
+            case "id":
+                if (!value.includes("\0")) this.lastId = value;
+                break;
+            case "retry":
+                if (/^\d+$/.test(value)) this.reconnectionTime = Number(value);
+                break;
+            default:
+                // Unknown fields are ignored.
+                break;
+        }
+        return undefined;
+    }
+
+    private dispatch(): ServerSentEvent | undefined {
+        const { eventType, data } = this;
+        this.eventType = "";
+        this.data = [];
+        if (data.length === 0) return undefined;
+        return { event: eventType || "message", data: data.join("\n"), id: this.lastId };
+    }
+}
+
+type ByteSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+
+async function* readChunks(source: ByteSource): AsyncGenerator<Uint8Array | string> {
+    if (!("getReader" in source)) {
+        yield* source;
+        return;
+    }
+    const reader = source.getReader();
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) return;
+            yield value;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Decodes an event stream body. Pass a decoder to read `lastEventId` or
+ * `retry` once the stream ends or fails.
+ */
+export async function* decodeServerSentEvents(
+    source: ByteSource,
+    decoder = new ServerSentEventDecoder(),
+): AsyncGenerator<ServerSentEvent> {
+    const text = new TextDecoder();
+    for await (const chunk of readChunks(source)) {
+        yield* decoder.push(typeof chunk === "string" ? chunk : text.decode(chunk, { stream: true }));
+    }
+    yield* decoder.push(text.decode());
+    decoder.end();
+}
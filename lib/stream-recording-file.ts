@@ -0,0 +1,159 @@
+/**
+ * Server-side stream recorder writing one NDJSON file per `/api/chat` request.
+ *
+ * Off unless `RECORD_STREAMS=true`. Files go to `.data/recordings`, which can
+ * be moved with `STREAM_RECORDINGS_DIR`. Everything written passes through
+ * `redactSecrets` first. Each recording belongs to the user who sent the
+ * request, and only they can list or read it.
+ */
+
+import { createReadStream, createWriteStream, type WriteStream } from "node:fs";
+import { mkdir, readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { createInterface } from "node:readline";
+
+import type { ResponseStreamEvent } from "openai/resources/responses/responses";
+
+import { ANONYMOUS_USER } from "@/lib/auth";
+import {
+    createStreamRecordingId,
+    isStreamRecordingId,
+    redactSecrets,
+    serializeStreamRecordingLine,
+    type StreamRecordingEnd,
+    type StreamRecordingHeader,
+    type StreamRecordingLine,
+} from "@/lib/stream-recording";
+
+export type StreamRecordingSummary = Omit<StreamRecordingHeader, "request">;
+
+const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException)?.code === "ENOENT";
+
+// Recordings made before sign-in belong to the anonymous user, like conversations.
+const isRecordingOwner = (summary: StreamRecordingSummary, userId: string): boolean =>
+    (summary.ownerId ?? ANONYMOUS_USER.id) === userId;
+
+export function isStreamRecordingEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+    return env.RECORD_STREAMS === "true";
+}
+
+export function getStreamRecordingsDir(env: NodeJS.ProcessEnv = process.env): string {
+    return path.resolve(process.cwd(), env.STREAM_RECORDINGS_DIR ?? ".data/recordings");
+}
+
+const fileFor = (directory: string, id: string): string => {
+    if (!isStreamRecordingId(id)) {
+        throw new Error(`Invalid recording id: ${JSON.stringify(id)}`);
+    }
+    return path.join(directory, `${id}.ndjson`);
+};
+
+/** Tees the events of one streamed request into a recording file. */
+export class StreamRecorder {
+    private finished = false;
+
+    private constructor(
+        public readonly id: string,
+        private readonly startedAt: number,
+        private readonly output: WriteStream,
+    ) {}
+
+    public static async start(
+        directory: string,
+        details: { model?: string; ownerId: string; request: unknown },
+    ): Promise<StreamRecorder> {
+        await mkdir(directory, { recursive: true });
+        const id = createStreamRecordingId();
+        const startedAt = Date.now();
+        const recorder = new StreamRecorder(id, startedAt, createWriteStream(fileFor(directory, id), "utf8"));
+        recorder.output.on("error", (error) => console.error("Stream recording failed:", error));
+        recorder.write({
+            type: "recording",
+            version: 1,
+            id,
+            startedAt,
+            model: details.model,
+            ownerId: details.ownerId,
+            request: redactSecrets(details.request),
+        });
+        return recorder;
+    }
+
+    public record(event: ResponseStreamEvent): void {
+        if (this.finished) return;
+        this.write({ type: "event", t: Date.now() - this.startedAt, event: redactSecrets(event) });
+    }
+
+    public finish(outcome: StreamRecordingEnd["outcome"]): void {
+        if (this.finished) return;
+        this.write({ type: "end", t: Date.now() - this.startedAt, outcome });
+        this.finished = true;
+        this.output.end();
+    }
+
+    private write(line: StreamRecordingLine): void {
+        this.output.write(serializeStreamRecordingLine(line));
+    }
+}
+
+
+/** Reads only the header line so listing does not load whole recordings. */
+const readSummary = async (file: string): Promise<StreamRecordingSummary | undefined> => {
+    const lines = createInterface({ input: createReadStream(file, "utf8"), crlfDelay: Infinity });
+    try {
+        for await (const line of lines) {
+            const { request: _request, ...summary } = JSON.parse(line) as StreamRecordingHeader;
+            return summary.type === "recording" ? summary : undefined;
+        }
+        return undefined;
+    } finally {
+        lines.close();
+    }
+};
+
+/**
+ * Raw NDJSON of one of `ownerId`'s recordings, or undefined when they have
+ * none with that id.
+ */
+export async function readStreamRecording(
+    id: string,
+    ownerId: string,
+    env: NodeJS.ProcessEnv = process.env,
+): Promise<string | undefined> {
+    const file = fileFor(getStreamRecordingsDir(env), id);
+    try {
+        const summary = await readSummary(file);
+        if (!summary || !isRecordingOwner(summary, ownerId)) return undefined;
+        return await readFile(file, "utf8");
+    } catch (error) {
+        if (isMissing(error)) return undefined;
+        throw error;
+    }
+}
+
+/** `ownerId`'s recordings without their request bodies, newest first. */
+export async function listStreamRecordings(
+    ownerId: string,
+    env: NodeJS.ProcessEnv = process.env,
+): Promise<StreamRecordingSummary[]> {
+    const directory = getStreamRecordingsDir(env);
+    let entries: string[];
+    try {
+        entries = await readdir(directory);
+    } catch (error) {
+        if (isMissing(error)) return [];
+        throw error;
+    }
+
+    const summaries = await Promise.all(
+        entries
+            .filter((entry) => entry.endsWith(".ndjson") && isStreamRecordingId(entry.slice(0, -".ndjson".length)))
+            .map((entry) => readSummary(path.join(directory, entry)).catch(() => undefined)),
+    );
+
+    return summaries
+        .filter(
+            (summary): summary is StreamRecordingSummary => summary !== undefined && isRecordingOwner(summary, ownerId),
+        )
+        .sort((a, b) => b.startedAt - a.startedAt);
+}
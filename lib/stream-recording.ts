@@ -0,0 +1,209 @@
+/**
+ * Recordings of `/api/chat` streams.
+ *
+ * A recording is NDJSON: a header line with the (redacted) request, one line
+ * per forwarded event with its offset from the start, and an end line. The
+ * same file can be replayed into a ResponseSession in the browser or used as
+ * a fixture when exercising the session directly.
+ */
+
+import type { ResponseInputItem, ResponseStreamEvent } from "openai/resources/responses/responses";
+
+import type { ResponseSession } from "@/lib/responses";
+
+export interface StreamRecordingHeader {
+    type: "recording";
+    version: 1;
+    id: string;
+    /** Epoch milliseconds when the request arrived. */
+    startedAt: number;
+    model?: string;
+    /** Id of the user who sent the request; missing from recordings made before sign-in. */
+    ownerId?: string;
+    /** The request body with credentials removed. */
+    request: unknown;
+}
+
+export interface StreamRecordingEvent {
+    type: "event";
+    /** Milliseconds since `startedAt`. */
+    t: number;
+    event: ResponseStreamEvent;
+}
+
+export interface StreamRecordingEnd {
+    type: "end";
+    t: number;
+    outcome: "completed" | "aborted" | "error";
+}
+
+export type StreamRecordingLine = StreamRecordingHeader | StreamRecordingEvent | StreamRecordingEnd;
+
+export interface StreamRecording {
+    header: StreamRecordingHeader;
+    events: StreamRecordingEvent[];
+    /** Missing when the server stopped before the stream finished. */
+    end?: StreamRecordingEnd;
+}
+
+export class InvalidStreamRecordingError extends Error {
+    public constructor(message: string, public readonly line: number) {
+        super(message);
+        this.name = "InvalidStreamRecordingError";
+    }
+}
+
+const RECORDING_ID_PATTERN = /^rec_[a-z0-9]{1,64}$/;
+
+export function isStreamRecordingId(id: string): boolean {
+    return RECORDING_ID_PATTERN.test(id);
+}
+
+export function createStreamRecordingId(): string {
+    return `rec_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export const REDACTED = "[REDACTED]";
+
+const SECRET_KEY_PATTERN = /^(x-)?(authorization|cookie|password|(client_)?secret|api[-_]?key|((access|refresh|auth)[-_]?)?token)$/i;
+
+const SECRET_VALUE_PATTERNS: ReadonlyArray<[RegExp, string]> = [
+    [/\b(sk|rk|pk|whsec)_(test|live)_[A-Za-z0-9]+/g, `$1_$2_${REDACTED}`],
+    [/\bgsk_[A-Za-z0-9]+/g, `gsk_${REDACTED}`],
+    [/\bBearer\s+[A-Za-z0-9._~+/=-]+/g, `Bearer ${REDACTED}`],
+];
+
+/**
+ * Returns a copy of `value` with credentials removed: fields whose name looks
+ * like a secret are replaced outright, and API keys embedded in any string are
+ * masked. Token counts and other numbers are left alone.
+ */
+export function redactSecrets<T>(value: T): T {
+    return redactValue(value) as T;
+}
+
+const redactValue = (value: unknown): unknown => {
+    if (typeof value === "string") {
+        return SECRET_VALUE_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+    }
+    if (Array.isArray(value)) return value.map(redactValue);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, entry]) => [
+                key,
+                typeof entry === "string" && SECRET_KEY_PATTERN.test(key) ? REDACTED : redactValue(entry),
+            ]),
+        );
+    }
+    return value;
+};
+
+export function serializeStreamRecordingLine(line: StreamRecordingLine): string {
+    return `${JSON.stringify(line)}\n`;
+}
+
+/** Parses an NDJSON recording. Blank lines are ignored. */
+export function parseStreamRecording(text: string): StreamRecording {
+    let header: StreamRecordingHeader | undefined;
+    const events: StreamRecordingEvent[] = [];
+    let end: StreamRecordingEnd | undefined;
+
+    text.split("\n").forEach((raw, index) => {
+        const lineNumber = index + 1;
+        if (!raw.trim()) return;
+
+        let line: StreamRecordingLine;
+        try {
+            line = JSON.parse(raw) as StreamRecordingLine;
+        } catch {
+            throw new InvalidStreamRecordingError(`Line ${lineNumber} is not valid JSON`, lineNumber);
+        }
+
+        if (!header) {
+            if (line.type !== "recording" || line.version !== 1) {
+                throw new InvalidStreamRecordingError("Recording must start with a version 1 header", lineNumber);
+            }
+            header = line;
+            return;
+        }
+
+        if (line.type === "event" && typeof line.t === "number" && line.event) {
+            events.push(line);
+        } else if (line.type === "end") {
+            end = line;
+        } else {
+            throw new InvalidStreamRecordingError(`Line ${lineNumber} is not a recording entry`, lineNumber);
+        }
+    });
+
+    if (!header) {
+        throw new InvalidStreamRecordingError("Recording is empty", 0);
+    }
+    return { header, events, end };
+}
+
+/** The input items the recorded request sent, if any. */
+export function getRecordedInputs(recording: StreamRecording): ResponseInputItem[] {
+    const messages = (recording.header.request as { messages?: unknown } | null)?.messages;
+    return Array.isArray(messages) ? (messages as ResponseInputItem[]) : [];
+}
+
+export interface ReplayOptions {
+    /**
+     * Playback rate relative to the original timing; 2 plays twice as fast.
+     * `Infinity` feeds every event immediately. Defaults to 1.
+     */
+    speed?: number;
+    /** Adds the recorded request's inputs to the session first. Defaults to true. */
+    includeInputs?: boolean;
+    signal?: AbortSignal;
+}
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException("Replay aborted", "AbortError"));
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException("Replay aborted", "AbortError"));
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+/**
+ * Feeds a recording through `session.handleEvent`, keeping the original gaps
+ * between events scaled by `speed`. Rejects with an AbortError when `signal`
+ * fires.
+ */
+export async function replayStreamRecording(
+    recording: StreamRecording,
+    session: ResponseSession,
+    options: ReplayOptions = {},
+): Promise<void> {
+    const speed = options.speed ?? 1;
+    if (!(speed > 0)) {
+        throw new RangeError(`Replay speed must be positive, got ${speed}`);
+    }
+
+    if (options.includeInputs ?? true) {
+        getRecordedInputs(recording).forEach((input) => session.addInput(input));
+    }
+
+    let previous = 0;
+    for (const { t, event } of recording.events) {
+        const delay = Number.isFinite(speed) ? Math.max(0, t - previous) / speed : 0;
+        previous = t;
+        if (delay > 0) {
+            await wait(delay, options.signal);
+        } else if (options.signal?.aborted) {
+            throw new DOMException("Replay aborted", "AbortError");
+        }
+        session.handleEvent(event);
+    }
+}
@@ -0,0 +1,199 @@
+/**
+ * Server-side store of users' saved Stripe accounts, one JSON file per user.
+ *
+ * Secret keys are encrypted with AES-256-GCM under `STRIPE_CREDENTIALS_KEY`
+ * (at least 32 characters; required in production) and bound to their owner
+ * and account id, so a record copied into another user's file does not
+ * decrypt. The directory defaults to `.data/stripe-accounts` and can be moved
+ * with `STRIPE_ACCOUNT_STORE_DIR`.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { detectStripeKey } from "@/lib/stripe-keys";
+import type { NewStripeAccount, StripeAccountInfo } from "@/lib/stripe-accounts";
+
+/** The deployment has no usable key to encrypt Stripe credentials with. */
+export class StripeCredentialsConfigurationError extends Error {
+    public constructor(message: string) {
+        super(message);
+        this.name = "StripeCredentialsConfigurationError";
+    }
+}
+
+interface StoredStripeAccount extends StripeAccountInfo {
+    /** `v1.<iv>.<tag>.<ciphertext>`, base64url. */
+    encryptedKey: string;
+}
+
+interface StoredStripeAccounts {
+    version: 1;
+    accounts: StoredStripeAccount[];
+}
+
+/** A saved account with its decrypted key, for building a chat request. */
+export interface StripeAccountCredential {
+    account: StripeAccountInfo;
+    secretKey: string;
+}
+
+const MIN_KEY_LENGTH = 32;
+const DEVELOPMENT_KEY = "development-only-stripe-credentials-key-do-not-use";
+const CIPHER = "aes-256-gcm";
+const IV_LENGTH = 12;
+const FORMAT_VERSION = "v1";
+
+const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException)?.code === "ENOENT";
+
+/** The AES key derived from `STRIPE_CREDENTIALS_KEY`. */
+export function getCredentialsKey(env: NodeJS.ProcessEnv = process.env): Buffer {
+    const secret = env.STRIPE_CREDENTIALS_KEY;
+    if (secret && secret.length >= MIN_KEY_LENGTH) {
+        return createHash("sha256").update(secret).digest();
+    }
+    if (secret || env.NODE_ENV === "production") {
+        throw new StripeCredentialsConfigurationError(
+            `STRIPE_CREDENTIALS_KEY must be at least ${MIN_KEY_LENGTH} characters`,
+        );
+    }
+    return createHash("sha256").update(DEVELOPMENT_KEY).digest();
+}
+
+const associatedData = (ownerId: string, accountId: string): Buffer => Buffer.from(`${ownerId}\n${accountId}`, "utf8");
+
+export function encryptSecret(plaintext: string, key: Buffer, context: Buffer): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, key, iv);
+    cipher.setAAD(context);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+        .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+        .join(".");
+}
+
+/** Throws when the value was tampered with or encrypted under another key or context. */
+export function decryptSecret(value: string, key: Buffer, context: Buffer): string {
+    const [version, iv, tag, ciphertext] = value.split(".");
+    if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+        throw new Error("Unrecognized encrypted secret");
+    }
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(iv, "base64url"));
+    decipher.setAAD(context);
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+}
+
+const createAccountId = (): string =>
+    `sa_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+const toAccountInfo = ({ encryptedKey: _encryptedKey, ...account }: StoredStripeAccount): StripeAccountInfo => account;
+
+export class FileStripeAccountStore {
+    /** The last queued change to each owner's file. */
+    private readonly pending = new Map<string, Promise<unknown>>();
+
+    public constructor(
+        private readonly directory: string,
+        private readonly env: NodeJS.ProcessEnv = process.env,
+    ) {}
+
+    public async list(ownerId: string): Promise<StripeAccountInfo[]> {
+        return (await this.read(ownerId)).accounts.map(toAccountInfo);
+    }
+
+    public async add(ownerId: string, input: NewStripeAccount): Promise<StripeAccountInfo> {
+        const key = getCredentialsKey(this.env);
+        return this.serialize(ownerId, async () => {
+            const stored = await this.read(ownerId);
+            const { mode, restricted } = detectStripeKey(input.secretKey);
+            const id = createAccountId();
+            const account: StoredStripeAccount = {
+                id,
+                name: input.name,
+                mode,
+                restricted,
+                keyHint: input.secretKey.slice(-4),
+                ...(input.connectedAccountId ? { connectedAccountId: input.connectedAccountId } : {}),
+                createdAt: Date.now(),
+                encryptedKey: encryptSecret(input.secretKey, key, associatedData(ownerId, id)),
+            };
+            await this.write(ownerId, { ...stored, accounts: [...stored.accounts, account] });
+            return toAccountInfo(account);
+        });
+    }
+
+    /** Returns false when the owner has no such account. */
+    public async remove(ownerId: string, id: string): Promise<boolean> {
+        return this.serialize(ownerId, async () => {
+            const stored = await this.read(ownerId);
+            const accounts = stored.accounts.filter((account) => account.id !== id);
+            if (accounts.length === stored.accounts.length) return false;
+            await this.write(ownerId, { ...stored, accounts });
+            return true;
+        });
+    }
+
+    public async getCredential(ownerId: string, id: string): Promise<StripeAccountCredential | undefined> {
+        const account = (await this.read(ownerId)).accounts.find((candidate) => candidate.id === id);
+        if (!account) return undefined;
+        const key = getCredentialsKey(this.env);
+        try {
+            const secretKey = decryptSecret(account.encryptedKey, key, associatedData(ownerId, id));
+            return { account: toAccountInfo(account), secretKey };
+        } catch {
+            throw new StripeCredentialsConfigurationError(
+                `The key saved for "${account.name}" cannot be decrypted; STRIPE_CREDENTIALS_KEY may have changed`,
+            );
+        }
+    }
+
+    /**
+     * Runs one read-modify-write of the owner's file at a time, so concurrent
+     * changes do not overwrite each other.
+     */
+    private serialize<T>(ownerId: string, change: () => Promise<T>): Promise<T> {
+        const changed = (this.pending.get(ownerId) ?? Promise.resolve()).then(change);
+        const settled = changed.catch(() => undefined);
+        this.pending.set(ownerId, settled);
+        void settled.then(() => {
+            if (this.pending.get(ownerId) === settled) this.pending.delete(ownerId);
+        });
+        return changed;
+    }
+
+    private async read(ownerId: string): Promise<StoredStripeAccounts> {
+        try {
+            return JSON.parse(await readFile(this.fileFor(ownerId), "utf8")) as StoredStripeAccounts;
+        } catch (error) {
+            if (isMissing(error)) return { version: 1, accounts: [] };
+            throw error;
+        }
+    }
+
+    private async write(ownerId: string, stored: StoredStripeAccounts): Promise<void> {
+        const file = this.fileFor(ownerId);
+        await mkdir(this.directory, { recursive: true });
+        // Write then rename so readers never see a half-written file.
+        const temp = `${file}.${randomUUID()}.tmp`;
+        await writeFile(temp, JSON.stringify(stored), { encoding: "utf8", mode: 0o600 });
+        await rename(temp, file);
+    }
+
+    // User ids contain characters like ":" that do not belong in file names.
+    private fileFor(ownerId: string): string {
+        return path.join(this.directory, `${createHash("sha256").update(ownerId).digest("hex")}.json`);
+    }
+}
+
+let defaultStore: FileStripeAccountStore | undefined;
+
+export function getStripeAccountStore(): FileStripeAccountStore {
+    if (!defaultStore) {
+        defaultStore = new FileStripeAccountStore(
+            path.resolve(process.cwd(), process.env.STRIPE_ACCOUNT_STORE_DIR ?? ".data/stripe-accounts"),
+        );
+    }
+    return defaultStore;
+}
@@ -0,0 +1,81 @@
+/**
+ * Stripe accounts a user has saved to chat against instead of the server's
+ * `STRIPE_SECRET_KEY`.
+ *
+ * The secret key of a saved account is stored encrypted on the server (see
+ * `lib/stripe-accounts-file.ts`) and never sent back; the client sees the
+ * `StripeAccountInfo` view and picks an account by id on each chat request.
+ */
+
+import type { StripeKeyMode } from "@/lib/stripe-keys";
+
+/** Registry label of the MCP server a saved account's key is used for. */
+export const STRIPE_SERVER_LABEL = "stripe";
+
+/** How the server's own `STRIPE_SECRET_KEY` is labelled next to saved accounts. */
+export const SERVER_KEY_ACCOUNT_NAME = "Server key";
+
+/** Header that makes Stripe act on a Connect platform's connected account. */
+export const STRIPE_ACCOUNT_HEADER = "Stripe-Account";
+
+/**
+ * Input metadata keys recording which account a turn was sent with, so its
+ * Stripe tool calls keep naming that account after the selection changes.
+ */
+export const STRIPE_ACCOUNT_ID_METADATA = "stripe_account_id";
+export const STRIPE_ACCOUNT_NAME_METADATA = "stripe_account_name";
+
+export interface StripeAccountInfo {
+    id: string;
+    name: string;
+    mode: StripeKeyMode;
+    restricted: boolean;
+    /** Last four characters of the secret key, to tell saved keys apart. */
+    keyHint: string;
+    /** Connected account sent as `Stripe-Account`, e.g. `acct_1Nv0FGQ9RKHgCVdK`. */
+    connectedAccountId?: string;
+    createdAt: number;
+}
+
+export interface NewStripeAccount {
+    name: string;
+    secretKey: string;
+    connectedAccountId?: string;
+}
+
+/** A saved account could not be added as given. */
+export class InvalidStripeAccountError extends Error {
+    public constructor(message: string, public readonly param: keyof NewStripeAccount) {
+        super(message);
+        this.name = "InvalidStripeAccountError";
+    }
+}
+
+const SECRET_KEY_PATTERN = /^(sk|rk)_(test|live)_[A-Za-z0-9]+$/;
+const CONNECTED_ACCOUNT_PATTERN = /^acct_[A-Za-z0-9]+$/;
+const MAX_NAME_LENGTH = 64;
+
+/** Trims and checks a new account, throwing `InvalidStripeAccountError`. */
+export function parseNewStripeAccount(raw: unknown): NewStripeAccount {
+    const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    const secretKey = typeof input.secretKey === "string" ? input.secretKey.trim() : "";
+    const connectedAccountId = typeof input.connectedAccountId === "string" ? input.connectedAccountId.trim() : "";
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+        throw new InvalidStripeAccountError(`Give the account a name of up to ${MAX_NAME_LENGTH} characters`, "name");
+    }
+    if (!SECRET_KEY_PATTERN.test(secretKey)) {
+        throw new InvalidStripeAccountError("Enter a Stripe secret or restricted key (sk_… or rk_…)", "secretKey");
+    }
+    if (connectedAccountId && !CONNECTED_ACCOUNT_PATTERN.test(connectedAccountId)) {
+        throw new InvalidStripeAccountError("Connected account ids look like acct_…", "connectedAccountId");
+    }
+
+    return { name, secretKey, ...(connectedAccountId ? { connectedAccountId } : {}) };
+}
+
+/** How an account is labelled in the switcher and on tool calls. */
+export function describeStripeAccount(account: StripeAccountInfo): string {
+    return account.connectedAccountId ? `${account.name} · ${account.connectedAccountId}` : account.name;
+}
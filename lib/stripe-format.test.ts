@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+
+import { getStripeDashboardUrl } from "@/lib/stripe-format";
+
+describe("getStripeDashboardUrl", () => {
+    it("links known objects in the mode they belong to", () => {
+        expect(getStripeDashboardUrl({ id: "cus_1", object: "customer", livemode: false })).toBe(
+            "https://dashboard.stripe.com/test/customers/cus_1",
+        );
+        expect(getStripeDashboardUrl({ id: "in_1", object: "invoice", livemode: true })).toBe(
+            "https://dashboard.stripe.com/invoices/in_1",
+        );
+    });
+
+    it.each(["constructor", "toString", "__proto__", "unknown_object"])("does not link an object named %s", (type) => {
+        expect(getStripeDashboardUrl({ id: "x_1", object: type })).toBeUndefined();
+    });
+
+    it("escapes the id", () => {
+        expect(getStripeDashboardUrl({ id: "../settings", object: "customer" })).toBe(
+            "https://dashboard.stripe.com/customers/..%2Fsettings",
+        );
+    });
+});
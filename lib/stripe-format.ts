@@ -0,0 +1,142 @@
+/**
+ * Helpers for presenting Stripe API objects returned by MCP tool calls:
+ * pulling objects out of tool output, formatting amounts and timestamps, and
+ * building dashboard links.
+ */
+
+/** Any Stripe API resource, identified by its `object` field. */
+export interface StripeObject {
+    id?: string;
+    object: string;
+    livemode?: boolean;
+    created?: number;
+    [key: string]: unknown;
+}
+
+export type StripeObjectPayload =
+    | { kind: "object"; object: StripeObject }
+    | { kind: "list"; objects: StripeObject[]; hasMore: boolean };
+
+/** Currencies whose amounts are not expressed in hundredths. */
+const ZERO_DECIMAL_CURRENCIES = new Set([
+    "bif", "clp", "djf", "gnf", "jpy", "kmf", "krw", "mga",
+    "pyg", "rwf", "ugx", "vnd", "vuv", "xaf", "xof", "xpf",
+]);
+
+const THREE_DECIMAL_CURRENCIES = new Set(["bhd", "jod", "kwd", "omr", "tnd"]);
+
+const DASHBOARD_PATHS: Record<string, string> = {
+    customer: "customers",
+    invoice: "invoices",
+    subscription: "subscriptions",
+    payment_intent: "payments",
+    charge: "payments",
+    refund: "refunds",
+    product: "products",
+    price: "prices",
+    payment_link: "payment-links",
+    coupon: "coupons",
+    dispute: "disputes",
+};
+
+export const isStripeObject = (value: unknown): value is StripeObject =>
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as { object?: unknown }).object === "string";
+
+const parseJson = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Unwraps MCP text content blocks (`[{ type: "text", text }]`) so the JSON
+ * inside them can be inspected.
+ */
+const unwrapContent = (value: unknown): unknown => {
+    if (
+        Array.isArray(value) &&
+        value.length === 1 &&
+        (value[0] as { type?: unknown })?.type === "text" &&
+        typeof (value[0] as { text?: unknown }).text === "string"
+    ) {
+        return parseJson((value[0] as { text: string }).text);
+    }
+    return value;
+};
+
+/**
+ * Finds the Stripe object or list in an MCP call's output. Returns undefined
+ * when the output is not something we know how to present.
+ */
+export function extractStripePayload(output: string | null | undefined): StripeObjectPayload | undefined {
+    if (!output) return undefined;
+    const value = unwrapContent(parseJson(output));
+
+    if (Array.isArray(value)) {
+        return value.length > 0 && value.every(isStripeObject)
+            ? { kind: "list", objects: value, hasMore: false }
+            : undefined;
+    }
+
+    if (!isStripeObject(value)) return undefined;
+
+    if (value.object === "list" || value.object === "search_result") {
+        const data = value.data;
+        if (!Array.isArray(data) || !data.every(isStripeObject)) return undefined;
+        return { kind: "list", objects: data, hasMore: value.has_more === true };
+    }
+
+    return { kind: "object", object: value };
+}
+
+const currencyExponent = (code: string): number =>
+    ZERO_DECIMAL_CURRENCIES.has(code) ? 0 : THREE_DECIMAL_CURRENCIES.has(code) ? 3 : 2;
+
+/** Converts an amount in the smallest unit to a plain decimal string, e.g. `1999, "usd"` as `19.99`. */
+export function toMajorUnits(amount: number, currency: string): string {
+    const exponent = currencyExponent(currency.toLowerCase());
+    return (amount / 10 ** exponent).toFixed(exponent);
+}
+
+/** Formats an amount in the currency's smallest unit, e.g. `1999, "usd"` as `$19.99`. */
+export function formatStripeAmount(amount: unknown, currency: unknown): string {
+    if (typeof amount !== "number") return "—";
+    if (typeof currency !== "string" || currency === "") return amount.toLocaleString();
+
+    const code = currency.toLowerCase();
+    const exponent = currencyExponent(code);
+
+    try {
+        return new Intl.NumberFormat(undefined, {
+            style: "currency",
+            currency: code.toUpperCase(),
+            minimumFractionDigits: exponent,
+            maximumFractionDigits: exponent,
+        }).format(amount / 10 ** exponent);
+    } catch {
+        return `${toMajorUnits(amount, code)} ${code.toUpperCase()}`;
+    }
+}
+
+/** Formats a Stripe Unix timestamp (seconds). */
+export function formatStripeTimestamp(seconds: unknown): string {
+    if (typeof seconds !== "number") return "—";
+    return new Date(seconds * 1000).toLocaleString(undefined, {
+        dateStyle: "medium",
+        timeStyle: "short",
+    });
+}
+
+/** Links to the object in the Stripe Dashboard, in test or live mode as appropriate. */
+export function getStripeDashboardUrl(object: StripeObject): string | undefined {
+    // Tool output is untrusted: only the table's own keys name a path.
+    const path = Object.hasOwn(DASHBOARD_PATHS, object.object) ? DASHBOARD_PATHS[object.object] : undefined;
+    if (!path || typeof object.id !== "string" || !object.id) return undefined;
+    const mode = object.livemode === false ? "test/" : "";
+    return `https://dashboard.stripe.com/${mode}${path}/${encodeURIComponent(object.id)}`;
+}
@@ -0,0 +1,34 @@
+/**
+ * Detection of the Stripe API key mode.
+ *
+ * Only the key prefix is inspected; the key itself never leaves the server.
+ */
+
+export type StripeKeyMode = "test" | "live" | "unknown";
+
+export interface StripeKeyInfo {
+    /** False when no key is set. */
+    configured: boolean;
+    mode: StripeKeyMode;
+    /** Restricted (`rk_`) keys only grant the permissions chosen when they were created. */
+    restricted: boolean;
+}
+
+const KEY_PATTERN = /^(sk|rk)_(test|live)_/;
+
+export function detectStripeKey(key: string | undefined): StripeKeyInfo {
+    if (!key) {
+        return { configured: false, mode: "unknown", restricted: false };
+    }
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+        return { configured: true, mode: "unknown", restricted: false };
+    }
+    return {
+        configured: true,
+        mode: match[2] as StripeKeyMode,
+        restricted: match[1] === "rk",
+    };
+}
+
+export const isLiveStripeKey = (key: string | undefined): boolean => detectStripeKey(key).mode === "live";
@@ -0,0 +1,71 @@
+/**
+ * Classification of the tools exposed by the Stripe MCP server.
+ *
+ * Kept free of server-only imports so both the chat route and the UI can tell
+ * read-only lookups apart from calls that change data in a Stripe account.
+ */
+
+export type StripeToolAccess = "read_only" | "mutating";
+
+/** Tool names published by https://mcp.stripe.com, grouped by side effects. */
+export const STRIPE_MCP_TOOLS: Readonly<Record<string, StripeToolAccess>> = {
+    get_stripe_account_info: "read_only",
+    retrieve_balance: "read_only",
+    list_customers: "read_only",
+    list_products: "read_only",
+    list_prices: "read_only",
+    list_invoices: "read_only",
+    list_payment_intents: "read_only",
+    list_subscriptions: "read_only",
+    list_coupons: "read_only",
+    list_disputes: "read_only",
+    search_stripe_resources: "read_only",
+    fetch_stripe_resources: "read_only",
+    search_stripe_documentation: "read_only",
+    create_customer: "mutating",
+    create_product: "mutating",
+    create_price: "mutating",
+    create_payment_link: "mutating",
+    create_invoice: "mutating",
+    create_invoice_item: "mutating",
+    finalize_invoice: "mutating",
+    create_refund: "mutating",
+    create_coupon: "mutating",
+    update_subscription: "mutating",
+    cancel_subscription: "mutating",
+    update_dispute: "mutating",
+};
+
+const READ_ONLY_PREFIXES = ["list_", "retrieve_", "get_", "search_", "fetch_"];
+
+/**
+ * Returns how a Stripe MCP tool affects the account. Unknown tools are
+ * classified by their verb prefix and default to mutating so new write tools
+ * are never silently auto-approved.
+ */
+export function classifyStripeTool(name: string): StripeToolAccess {
+    const known = STRIPE_MCP_TOOLS[name];
+    if (known) return known;
+    return READ_ONLY_PREFIXES.some((prefix) => name.startsWith(prefix)) ? "read_only" : "mutating";
+}
+
+export function isMutatingStripeTool(name: string): boolean {
+    return classifyStripeTool(name) === "mutating";
+}
+
+/**
+ * Tools that move money. In live mode the UI asks the user to type a
+ * confirmation before approving them.
+ */
+const STRIPE_PAYMENT_TOOLS = new Set([
+    "create_refund",
+    "create_charge",
+    "create_payment_intent",
+    "confirm_payment_intent",
+    "capture_payment_intent",
+    "pay_invoice",
+]);
+
+export function isStripePaymentTool(name: string): boolean {
+    return STRIPE_PAYMENT_TOOLS.has(name);
+}
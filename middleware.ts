@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { AuthConfigurationError, getRequestUser } from "@/lib/auth"
+import { getCorsHeaders } from "@/lib/cors"
+
+// Sign-in itself, and the mock upstream the server calls without a session.
+const PUBLIC_PATHS = ["/login", "/api/auth/", "/api/mock/"]
+
+const isPublic = (pathname: string) =>
+  PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(path.endsWith("/") ? path : `${path}/`))
+
+const withCors = (response: Response, cors: Headers | undefined) => {
+  cors?.forEach((value, name) => response.headers.set(name, value))
+  return response
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl
+  const isApi = pathname.startsWith("/api/")
+  const cors = isApi ? getCorsHeaders(req.headers.get("origin")) : undefined
+
+  if (isApi && req.method === "OPTIONS") {
+    return cors ? new Response(null, { status: 204, headers: cors }) : new Response(null, { status: 403 })
+  }
+  if (isPublic(pathname)) {
+    return withCors(NextResponse.next(), cors)
+  }
+
+  try {
+    if (await getRequestUser(req)) {
+      return withCors(NextResponse.next(), cors)
+    }
+  } catch (error) {
+    if (!(error instanceof AuthConfigurationError)) throw error
+    console.error("Authentication is misconfigured:", error.message)
+    return withCors(
+      Response.json(
+        { error: { type: "auth_misconfigured", message: "Sign-in is not configured on this server" } },
+        { status: 503 }
+      ),
+      cors
+    )
+  }
+
+  if (isApi) {
+    return withCors(
+      Response.json({ error: { type: "unauthorized", message: "Sign in to continue" } }, { status: 401 }),
+      cors
+    )
+  }
+  const login = new URL("/login", req.url)
+  login.searchParams.set("next", `${pathname}${search}`)
+  return NextResponse.redirect(login)
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|svg|ico|webp)$).*)"],
+}